@@ -1 +0,0 @@
-localStorage.removeItem('demo-tienda-cart'); window.location.reload();
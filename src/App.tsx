@@ -10,6 +10,7 @@
  */
 
 import { useState } from "react";
+import { useNavigate } from "react-router";
 
 // Components
 import Layout from "./components/layout/layout";
@@ -21,6 +22,8 @@ import { useCartDrawer } from "./hooks/use-cart";
 // Providers
 import { AuthProvider } from "./contexts/auth-context";
 
+import type { ProductCategory, ProductSearchParams } from "./types/product";
+
 // Simulamos un router simple para esta demostración
 type Page = "home" | "products" | "category" | "product";
 
@@ -38,9 +41,14 @@ function App() {
   const [appState, setAppState] = useState<AppState>({
     currentPage: "home",
   });
+  // Filtros del listado de productos
+  const [productFilters, setProductFilters] = useState<ProductSearchParams>(
+    {}
+  );
 
   // Hook del carrito drawer
   const { isOpen: isCartOpen, closeDrawer } = useCartDrawer();
+  const navigate = useNavigate();
 
   /**
    * Funciones de navegación
@@ -51,6 +59,7 @@ function App() {
 
   const navigateToProducts = () => {
     setAppState({ currentPage: "products" });
+    setProductFilters({});
   };
 
   const navigateToCategory = (category: string) => {
@@ -58,6 +67,7 @@ function App() {
       currentPage: "category",
       selectedCategory: category,
     });
+    setProductFilters({ category: category as ProductCategory });
   };
 
   const navigateToProduct = (productId: string) => {
@@ -76,9 +86,8 @@ function App() {
    * Función para manejar el checkout
    */
   const handleCheckout = () => {
-    console.log("Redirigir a página de checkout");
-    // Aquí irías a la página de checkout
     closeDrawer();
+    navigate("/checkout");
   };
 
   /**
@@ -99,7 +108,8 @@ function App() {
       case "category":
         return (
           <ProductsPage
-            initialCategory={appState.selectedCategory}
+            filters={productFilters}
+            onFiltersChange={setProductFilters}
             onNavigateToProduct={navigateToProduct}
             onNavigateBack={navigateToHome}
           />
@@ -17,6 +17,7 @@ import {
 import { Button } from "../ui/button";
 import { Badge } from "../ui/badge";
 import { useAuth } from "../../hooks/use-auth";
+import { useOrderStats } from "../../hooks/use-orders";
 
 interface UserMenuProps {
   onProfileClick?: () => void;
@@ -32,6 +33,7 @@ export function UserMenu({
   onSettingsClick,
 }: UserMenuProps) {
   const { user, logout } = useAuth();
+  const { stats, activeOrders } = useOrderStats();
   const [isOpen, setIsOpen] = useState(false);
   const menuRef = useRef<HTMLDivElement>(null);
 
@@ -64,13 +66,13 @@ export function UserMenu({
       icon: ShoppingBag,
       label: "Mis pedidos",
       onClick: onOrdersClick,
-      badge: "3", // Ejemplo de badge
+      badge: activeOrders > 0 ? String(activeOrders) : undefined, // Pedidos en curso
     },
     {
       icon: Heart,
       label: "Lista de deseos",
       onClick: onWishlistClick,
-      badge: "12",
+      badge: stats.wishlistCount > 0 ? String(stats.wishlistCount) : undefined,
     },
     {
       icon: Bell,
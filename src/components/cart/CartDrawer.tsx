@@ -8,10 +8,12 @@
  * 4. Real-time Updates - Actualizaciones en tiempo real
  * 5. Checkout Flow - Flujo hacia el proceso de compra
  * 6. Responsive Design - Adaptable a diferentes pantallas
+ * 7. Save for Later - Items apartados fuera del resumen de compra
  */
 
-import React, { useState } from "react";
+import React, { useEffect, useState } from "react";
 import { motion, AnimatePresence } from "framer-motion";
+import { useNavigate } from "react-router";
 import {
   X,
   Plus,
@@ -23,6 +25,8 @@ import {
   Gift,
   AlertCircle,
   CheckCircle,
+  Clock,
+  Bookmark,
 } from "lucide-react";
 
 import { Button } from "../ui/button";
@@ -34,7 +38,19 @@ import { LoadingButton } from "../ui/loading";
 import { useCart } from "../../hooks/use-cart";
 import { useUser } from "../../hooks/use-user";
 
-import type { CartItem, Coupon } from "../../types/cart";
+import { couponService } from "../../services/coupon.service";
+import { evaluateCoupon } from "../../lib/coupon-rules";
+import { describeItemIssue } from "../../lib/cart-revalidation";
+import { formatVariantLabel } from "../../lib/variants";
+
+import type {
+  CartItem,
+  CartItemIssue,
+  Coupon,
+  CouponDiscountLine,
+  CouponEvaluation,
+  CouponRejection,
+} from "../../types/cart";
 import { formatPrice, truncateText } from "../../lib/utils";
 import { cn } from "../../lib/utils";
 
@@ -48,69 +64,35 @@ interface CartDrawerProps {
   className?: string;
 }
 
-/**
- * Cupones de ejemplo (en producción vendrían de la API)
- */
-const availableCoupons: Coupon[] = [
-  {
-    id: "1",
-    code: "WELCOME10",
-    type: "percentage",
-    value: 10,
-    description: "10% de descuento en tu primera compra",
-    minPurchase: 50,
-    minOrderAmount: 50,
-    validFrom: new Date().toISOString(),
-    validUntil: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString(),
-    usageCount: 0,
-    applicable: {},
-    active: true,
-    isActive: true,
-  },
-  {
-    id: "2",
-    code: "SHIP5",
-    type: "fixed",
-    value: 5,
-    description: "$5 de descuento en envío",
-    validFrom: new Date().toISOString(),
-    validUntil: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString(),
-    usageCount: 0,
-    applicable: {},
-    active: true,
-    isActive: true,
-  },
-  {
-    id: "3",
-    code: "SAVE20",
-    type: "percentage",
-    value: 20,
-    description: "20% de descuento en compras mayores a $100",
-    minPurchase: 100,
-    minOrderAmount: 100,
-    maxDiscount: 50,
-    validFrom: new Date().toISOString(),
-    validUntil: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString(),
-    usageCount: 0,
-    applicable: {},
-    active: true,
-    isActive: true,
-  },
-];
-
 /**
  * Componente para un item individual del carrito
  */
 interface CartItemComponentProps {
   item: CartItem;
+  issues: CartItemIssue[]; // Cambios de precio o stock del item
   onUpdateQuantity: (itemId: string, quantity: number) => void;
   onRemove: (itemId: string) => void;
+  onSaveForLater: (itemId: string) => void;
 }
 
+// Variante del badge según el tipo de cambio
+const issueBadgeVariant: Record<
+  CartItemIssue["type"],
+  "warning" | "success" | "destructive"
+> = {
+  "price-increase": "warning",
+  "price-decrease": "success",
+  "insufficient-stock": "warning",
+  "out-of-stock": "destructive",
+  unavailable: "destructive",
+};
+
 function CartItemComponent({
   item,
+  issues,
   onUpdateQuantity,
   onRemove,
+  onSaveForLater,
 }: CartItemComponentProps) {
   const [isUpdating, setIsUpdating] = useState(false);
 
@@ -147,6 +129,7 @@ function CartItemComponent({
   };
 
   const imageData = getImageData(item.product.images);
+  const variant = item.variant || item.selectedVariant;
 
   const handleQuantityChange = async (newQuantity: number) => {
     if (newQuantity < 1 || newQuantity > 99) return;
@@ -182,9 +165,9 @@ function CartItemComponent({
         </h4>
 
         {/* Variante */}
-        {(item.variant || item.selectedVariant) && (
+        {variant && (
           <p className="text-xs text-muted-foreground mb-2">
-            {(item.variant || item.selectedVariant)?.name}
+            {formatVariantLabel(variant)}
           </p>
         )}
 
@@ -193,15 +176,23 @@ function CartItemComponent({
           <span className="font-semibold text-primary">
             {formatPrice(item.priceAtAddTime || item.unitPrice)}
           </span>
-
-          {/* Precio diferente al original */}
-          {(item.priceAtAddTime || item.unitPrice) !== item.product.price && (
-            <Badge variant="outline" className="text-xs">
-              Precio al agregar
-            </Badge>
-          )}
         </div>
 
+        {/* Cambios detectados al revalidar contra el catálogo */}
+        {issues.length > 0 && (
+          <div className="flex flex-wrap gap-1 mb-3">
+            {issues.map((issue) => (
+              <Badge
+                key={issue.type}
+                variant={issueBadgeVariant[issue.type]}
+                className="text-xs"
+              >
+                {describeItemIssue(issue)}
+              </Badge>
+            ))}
+          </div>
+        )}
+
         {/* Controles de cantidad */}
         <div className="flex items-center justify-between">
           <div className="flex items-center gap-2">
@@ -235,15 +226,28 @@ function CartItemComponent({
             </Button>
           </div>
 
-          {/* Botón eliminar */}
-          <Button
-            variant="ghost"
-            size="icon"
-            className="h-8 w-8 text-destructive hover:text-destructive"
-            onClick={() => onRemove(item.id)}
-          >
-            <Trash2 className="h-3 w-3" />
-          </Button>
+          <div className="flex items-center">
+            {/* Botón guardar para después */}
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8"
+              onClick={() => onSaveForLater(item.id)}
+              title="Guardar para después"
+            >
+              <Bookmark className="h-3 w-3" />
+            </Button>
+
+            {/* Botón eliminar */}
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8 text-destructive hover:text-destructive"
+              onClick={() => onRemove(item.id)}
+            >
+              <Trash2 className="h-3 w-3" />
+            </Button>
+          </div>
         </div>
 
         {/* Subtotal */}
@@ -257,45 +261,131 @@ function CartItemComponent({
   );
 }
 
+/**
+ * Lista de items guardados para después
+ * No suman al total; se pueden devolver al carrito o descartar
+ */
+interface SavedItemsSectionProps {
+  items: CartItem[];
+  onMoveToCart: (itemId: string) => void;
+  onRemove: (itemId: string) => void;
+}
+
+function SavedItemsSection({
+  items,
+  onMoveToCart,
+  onRemove,
+}: SavedItemsSectionProps) {
+  if (items.length === 0) return null;
+
+  return (
+    <div className="border-t">
+      <h3 className="flex items-center gap-2 px-4 pt-4 text-sm font-medium">
+        <Bookmark className="h-4 w-4" />
+        Guardado para después ({items.length})
+      </h3>
+      <AnimatePresence>
+        {items.map((item) => (
+          <motion.div
+            key={item.id}
+            layout
+            initial={{ opacity: 0, x: -20 }}
+            animate={{ opacity: 1, x: 0 }}
+            exit={{ opacity: 0, x: -20 }}
+            className="flex items-center gap-3 p-4 border-b last:border-b-0"
+          >
+            <div className="flex-1 min-w-0">
+              <p className="text-sm font-medium line-clamp-1">
+                {truncateText(item.product.title || item.product.name, 60)}
+              </p>
+              <p className="text-xs text-muted-foreground">
+                {item.quantity} x {formatPrice(item.unitPrice)}
+                {item.selectedVariant &&
+                  ` · ${formatVariantLabel(item.selectedVariant)}`}
+              </p>
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => onMoveToCart(item.id)}
+            >
+              Mover al carrito
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8 text-destructive hover:text-destructive"
+              onClick={() => onRemove(item.id)}
+            >
+              <Trash2 className="h-3 w-3" />
+            </Button>
+          </motion.div>
+        ))}
+      </AnimatePresence>
+    </div>
+  );
+}
+
 /**
  * Componente para aplicar cupones
  */
 interface CouponSectionProps {
+  items: CartItem[];
   appliedCoupons: Coupon[];
-  onApplyCoupon: (coupon: Coupon) => void;
+  couponBreakdown: CouponDiscountLine[];
+  onApplyCoupon: (code: string) => Promise<CouponEvaluation>;
   onRemoveCoupon: (couponCode: string) => void;
-  error: string | null;
   clearError: () => void;
 }
 
+// Texto corto del beneficio de un cupón
+const formatCouponValue = (coupon: Coupon): string => {
+  if (coupon.type === "free-shipping") return "Envío gratis";
+  return coupon.type === "percentage"
+    ? `${coupon.value}% OFF`
+    : `${formatPrice(coupon.value)} OFF`;
+};
+
+// Pista para que el usuario sepa qué le falta para usar el cupón
+const getRejectionHint = (rejection: CouponRejection): string | null => {
+  const { code, required = 0, current = 0 } = rejection;
+  if (code === "MIN_PURCHASE_NOT_MET") {
+    return `Te faltan ${formatPrice(required - current)} para usarlo`;
+  }
+  if (code === "MIN_QUANTITY_NOT_MET") {
+    return `Agrega ${required - current} producto(s) elegible(s) más`;
+  }
+  return null;
+};
+
 function CouponSection({
+  items,
   appliedCoupons,
+  couponBreakdown,
   onApplyCoupon,
   onRemoveCoupon,
-  error,
   clearError,
 }: CouponSectionProps) {
   const [couponCode, setCouponCode] = useState("");
   const [isApplying, setIsApplying] = useState(false);
   const [showSuggestions, setShowSuggestions] = useState(false);
+  const [rejection, setRejection] = useState<CouponRejection | null>(null);
+
+  const suggestedCoupons = couponService.getAvailableCoupons();
 
   const handleApplyCoupon = async () => {
     if (!couponCode.trim()) return;
 
     setIsApplying(true);
+    setRejection(null);
     clearError();
 
-    // Buscar cupón en los disponibles
-    const coupon = availableCoupons.find(
-      (c) => c.code.toLowerCase() === couponCode.toLowerCase()
-    );
+    const evaluation = await onApplyCoupon(couponCode);
 
-    if (coupon) {
-      onApplyCoupon(coupon);
+    if (evaluation.valid) {
       setCouponCode("");
     } else {
-      // Simular error de cupón no válido
-      await new Promise((resolve) => setTimeout(resolve, 500));
+      setRejection(evaluation.rejection);
     }
 
     setIsApplying(false);
@@ -307,6 +397,8 @@ function CouponSection({
     }
   };
 
+  const rejectionHint = rejection ? getRejectionHint(rejection) : null;
+
   return (
     <div className="space-y-4">
       {/* Input para cupón */}
@@ -315,7 +407,10 @@ function CouponSection({
           <Input
             placeholder="Código de cupón"
             value={couponCode}
-            onChange={(e) => setCouponCode(e.target.value.toUpperCase())}
+            onChange={(e) => {
+              setCouponCode(e.target.value.toUpperCase());
+              setRejection(null);
+            }}
             onKeyPress={handleKeyPress}
             className="flex-1"
           />
@@ -329,14 +424,21 @@ function CouponSection({
           </LoadingButton>
         </div>
 
-        {error && (
+        {rejection && (
           <motion.div
             initial={{ opacity: 0, y: -10 }}
             animate={{ opacity: 1, y: 0 }}
-            className="flex items-center gap-2 text-sm text-destructive"
+            className="flex items-start gap-2 text-sm text-destructive"
           >
-            <AlertCircle className="h-4 w-4" />
-            {error}
+            <AlertCircle className="h-4 w-4 mt-0.5" />
+            <div>
+              <p>{rejection.message}</p>
+              {rejectionHint && (
+                <p className="text-xs text-muted-foreground">
+                  {rejectionHint}
+                </p>
+              )}
+            </div>
           </motion.div>
         )}
       </div>
@@ -360,23 +462,24 @@ function CouponSection({
               exit={{ opacity: 0, height: 0 }}
               className="mt-2 space-y-1"
             >
-              {availableCoupons.map((coupon) => (
+              {suggestedCoupons.map((coupon) => (
                 <button
                   key={coupon.code}
                   onClick={() => {
                     setCouponCode(coupon.code);
+                    setRejection(null);
                     setShowSuggestions(false);
                   }}
                   className="block w-full text-left p-2 text-xs bg-muted hover:bg-accent rounded"
                 >
                   <span className="font-mono font-semibold">{coupon.code}</span>
                   <span className="ml-2 text-muted-foreground">
-                    -{" "}
-                    {coupon.type === "percentage"
-                      ? `${coupon.value}% OFF`
-                      : `$${coupon.value} OFF`}
+                    - {formatCouponValue(coupon)}
                     {coupon.minOrderAmount &&
-                      ` (mín. $${coupon.minOrderAmount})`}
+                      ` (mín. ${formatPrice(coupon.minOrderAmount)})`}
+                  </span>
+                  <span className="block text-muted-foreground">
+                    {coupon.description}
                   </span>
                 </button>
               ))}
@@ -389,30 +492,60 @@ function CouponSection({
       {appliedCoupons && appliedCoupons.length > 0 && (
         <div className="space-y-2">
           <h5 className="text-sm font-medium">Cupones aplicados:</h5>
-          {appliedCoupons?.map((coupon) => (
-            <div
-              key={coupon.code}
-              className="flex items-center justify-between p-2 bg-green-50 dark:bg-green-900/20 rounded-lg"
-            >
-              <div className="flex items-center gap-2">
-                <CheckCircle className="h-4 w-4 text-green-600" />
-                <span className="text-sm font-medium">{coupon.code}</span>
-                <span className="text-xs text-muted-foreground">
-                  {coupon.type === "percentage"
-                    ? `${coupon.value}% OFF`
-                    : `$${coupon.value} OFF`}
-                </span>
-              </div>
-              <Button
-                variant="ghost"
-                size="icon"
-                className="h-6 w-6"
-                onClick={() => onRemoveCoupon(coupon.code)}
+          {appliedCoupons?.map((coupon) => {
+            // Re-evaluar contra el carrito actual (puede dejar de aplicar)
+            const evaluation = evaluateCoupon(coupon, {
+              items,
+              skipUsageLimits: true,
+            });
+            const line = couponBreakdown.find((l) => l.code === coupon.code);
+
+            return (
+              <div
+                key={coupon.code}
+                className={cn(
+                  "flex items-center justify-between p-2 rounded-lg",
+                  evaluation.valid
+                    ? "bg-green-50 dark:bg-green-900/20"
+                    : "bg-yellow-50 dark:bg-yellow-900/20"
+                )}
               >
-                <X className="h-3 w-3" />
-              </Button>
-            </div>
-          ))}
+                <div className="flex items-center gap-2 min-w-0">
+                  {evaluation.valid ? (
+                    <CheckCircle className="h-4 w-4 text-green-600 flex-shrink-0" />
+                  ) : (
+                    <AlertCircle className="h-4 w-4 text-yellow-600 flex-shrink-0" />
+                  )}
+                  <div className="min-w-0">
+                    <span className="text-sm font-medium">{coupon.code}</span>
+                    <span className="ml-2 text-xs text-muted-foreground">
+                      {line
+                        ? `-${formatPrice(line.amount)}`
+                        : formatCouponValue(coupon)}
+                    </span>
+                    {!evaluation.valid && (
+                      <p className="text-xs text-yellow-700 dark:text-yellow-400">
+                        No aplica: {evaluation.rejection.message}
+                      </p>
+                    )}
+                    {evaluation.valid && !line && (
+                      <p className="text-xs text-muted-foreground">
+                        Ya alcanzaste el tope de descuento por cupones
+                      </p>
+                    )}
+                  </div>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6"
+                  onClick={() => onRemoveCoupon(coupon.code)}
+                >
+                  <X className="h-3 w-3" />
+                </Button>
+              </div>
+            );
+          })}
         </div>
       )}
     </div>
@@ -435,30 +568,40 @@ export function CartDrawer({
     clearCart,
     applyCoupon,
     removeCoupon,
-    error,
     clearError,
     getTotalItems,
+    expiryNotice,
+    dismissExpiryNotice,
+    issues,
+    isRevalidating,
+    revalidateCart,
+    acceptItemChanges,
+    savedItems,
+    saveForLater,
+    moveToCart,
+    removeSavedItem,
   } = useCart();
 
   const { auth } = useUser();
-  const [isCheckingOut, setIsCheckingOut] = useState(false);
-
-  const handleCheckout = async () => {
-    if (state.items.length === 0) return;
+  const navigate = useNavigate();
 
-    setIsCheckingOut(true);
+  // Revalidar precios y stock cada vez que se abre el drawer
+  useEffect(() => {
+    if (isOpen) {
+      revalidateCart();
+    }
+  }, [isOpen, revalidateCart]);
 
-    // Simular proceso de checkout
-    await new Promise((resolve) => setTimeout(resolve, 1500));
+  const handleCheckout = () => {
+    if (state.items.length === 0) return;
 
     if (onCheckout) {
       onCheckout();
     } else {
       // Redirect por defecto al checkout
-      console.log("Redirigir a checkout");
+      navigate("/checkout");
     }
 
-    setIsCheckingOut(false);
     onClose();
   };
 
@@ -515,21 +658,43 @@ export function CartDrawer({
               </div>
             </div>
 
+            {/* Aviso de carrito vencido */}
+            {expiryNotice && (
+              <div className="flex items-start gap-2 border-b bg-amber-50 dark:bg-amber-900/20 p-3 text-sm text-amber-800 dark:text-amber-200">
+                <Clock className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                <p className="flex-1">{expiryNotice.message}</p>
+                <button
+                  type="button"
+                  onClick={dismissExpiryNotice}
+                  aria-label="Cerrar aviso"
+                >
+                  <X className="h-4 w-4" />
+                </button>
+              </div>
+            )}
+
             {/* Contenido */}
             <div className="flex-1 overflow-hidden flex flex-col">
               {state.items.length === 0 ? (
                 /* Estado vacío */
-                <div className="flex-1 flex items-center justify-center p-8">
-                  <div className="text-center">
-                    <ShoppingCart className="h-16 w-16 mx-auto text-muted-foreground mb-4" />
-                    <h3 className="text-lg font-medium mb-2">
-                      Tu carrito está vacío
-                    </h3>
-                    <p className="text-muted-foreground mb-6">
-                      Agrega algunos productos para comenzar tu compra
-                    </p>
-                    <Button onClick={onClose}>Continuar comprando</Button>
+                <div className="flex-1 overflow-y-auto">
+                  <div className="flex items-center justify-center p-8">
+                    <div className="text-center">
+                      <ShoppingCart className="h-16 w-16 mx-auto text-muted-foreground mb-4" />
+                      <h3 className="text-lg font-medium mb-2">
+                        Tu carrito está vacío
+                      </h3>
+                      <p className="text-muted-foreground mb-6">
+                        Agrega algunos productos para comenzar tu compra
+                      </p>
+                      <Button onClick={onClose}>Continuar comprando</Button>
+                    </div>
                   </div>
+                  <SavedItemsSection
+                    items={savedItems}
+                    onMoveToCart={moveToCart}
+                    onRemove={removeSavedItem}
+                  />
                 </div>
               ) : (
                 <>
@@ -540,21 +705,31 @@ export function CartDrawer({
                         <CartItemComponent
                           key={item.id}
                           item={item}
+                          issues={issues.filter(
+                            (issue) => issue.itemId === item.id
+                          )}
                           onUpdateQuantity={updateQuantity}
                           onRemove={removeFromCart}
+                          onSaveForLater={saveForLater}
                         />
                       ))}
                     </AnimatePresence>
+                    <SavedItemsSection
+                      items={savedItems}
+                      onMoveToCart={moveToCart}
+                      onRemove={removeSavedItem}
+                    />
                   </div>
 
                   {/* Footer con resumen y checkout */}
                   <div className="border-t bg-muted/30 p-4 space-y-4">
                     {/* Sección de cupones */}
                     <CouponSection
+                      items={state.items}
                       appliedCoupons={state.appliedCoupons || []}
+                      couponBreakdown={state.summary.couponBreakdown}
                       onApplyCoupon={applyCoupon}
                       onRemoveCoupon={removeCoupon}
-                      error={error}
                       clearError={clearError}
                     />
 
@@ -572,8 +747,26 @@ export function CartDrawer({
                         </div>
                       )}
 
+                      {/* Ahorro de cada cupón */}
+                      {state.summary.couponBreakdown.map((line) => (
+                        <div
+                          key={line.code}
+                          className="flex justify-between text-green-600"
+                        >
+                          <span>
+                            Cupón {line.code}
+                            {line.type === "free-shipping" && " (envío)"}
+                          </span>
+                          <span>-{formatPrice(line.amount)}</span>
+                        </div>
+                      ))}
+
                       <div className="flex justify-between">
-                        <span>Envío</span>
+                        <span>
+                          {state.shippingInfo
+                            ? `Envío (${state.shippingInfo.method.name})`
+                            : "Envío estimado"}
+                        </span>
                         <span>
                           {state.summary.shipping === 0 ? (
                             <Badge variant="success" className="text-xs">
@@ -585,10 +778,23 @@ export function CartDrawer({
                         </span>
                       </div>
 
-                      <div className="flex justify-between">
-                        <span>Impuestos</span>
-                        <span>{formatPrice(state.summary.tax)}</span>
-                      </div>
+                      {/* Impuestos por tasa */}
+                      {state.summary.taxBreakdown.map((entry) => (
+                        <div
+                          key={entry.rate}
+                          className={cn(
+                            "flex justify-between",
+                            state.summary.pricesIncludeTax &&
+                              "text-muted-foreground"
+                          )}
+                        >
+                          <span>
+                            {entry.label}
+                            {state.summary.pricesIncludeTax && " (incluido)"}
+                          </span>
+                          <span>{formatPrice(entry.tax)}</span>
+                        </div>
+                      ))}
 
                       <div className="border-t pt-2 flex justify-between text-lg font-semibold">
                         <span>Total</span>
@@ -607,14 +813,35 @@ export function CartDrawer({
                         </div>
                       )}
 
+                    {/* Cambios de precio o stock pendientes */}
+                    {issues.length > 0 && (
+                      <div className="space-y-2 rounded bg-amber-50 dark:bg-amber-900/20 p-2 text-sm text-amber-800 dark:text-amber-200">
+                        <div className="flex items-center gap-2">
+                          <AlertCircle className="h-4 w-4 flex-shrink-0" />
+                          Algunos productos cambiaron de precio o
+                          disponibilidad desde que los agregaste
+                        </div>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          className="w-full"
+                          onClick={() => acceptItemChanges()}
+                        >
+                          Aceptar cambios
+                        </Button>
+                      </div>
+                    )}
+
                     {/* Botón de checkout */}
                     <LoadingButton
-                      loading={isCheckingOut}
                       onClick={handleCheckout}
+                      loading={isRevalidating}
+                      loadingText="Verificando precios..."
+                      disabled={issues.length > 0}
                       className="w-full gap-2"
                     >
                       <CreditCard className="h-4 w-4" />
-                      {isCheckingOut ? "Procesando..." : "Proceder al pago"}
+                      Proceder al pago
                       <ArrowRight className="h-4 w-4" />
                     </LoadingButton>
 
@@ -0,0 +1,294 @@
+/**
+ * Formulario de pago del checkout
+ *
+ * Permite elegir el método de pago y captura los detalles
+ * requeridos por cada uno (tarjeta, PSE, contraentrega o transferencia).
+ */
+
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import {
+  ArrowLeft,
+  ArrowRight,
+  Banknote,
+  Building2,
+  CreditCard,
+  Landmark,
+} from "lucide-react";
+
+import { Button } from "../ui/button";
+import { Input } from "../ui/input";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "../ui/form";
+import { cn } from "@/lib/utils";
+import {
+  paymentSchema,
+  PSE_BANKS,
+  type PaymentFormValues,
+} from "./checkout-schemas";
+
+interface PaymentFormProps {
+  defaultValues: Partial<PaymentFormValues>;
+  onSubmit: (values: PaymentFormValues) => void;
+  onBack: () => void;
+}
+
+// Métodos de pago disponibles
+const paymentMethods: Array<{
+  id: PaymentFormValues["method"];
+  label: string;
+  description: string;
+  icon: typeof CreditCard;
+}> = [
+  {
+    id: "card",
+    label: "Tarjeta crédito / débito",
+    description: "Visa, Mastercard, American Express",
+    icon: CreditCard,
+  },
+  {
+    id: "pse",
+    label: "PSE",
+    description: "Débito desde tu cuenta bancaria",
+    icon: Landmark,
+  },
+  {
+    id: "cash",
+    label: "Pago contraentrega",
+    description: "Paga en efectivo al recibir",
+    icon: Banknote,
+  },
+  {
+    id: "transfer",
+    label: "Transferencia bancaria",
+    description: "Te enviaremos los datos por email",
+    icon: Building2,
+  },
+];
+
+const selectClassName =
+  "w-full h-9 rounded-md border bg-transparent px-3 text-sm shadow-xs outline-none focus-visible:ring-[3px] focus-visible:ring-ring/50";
+
+export function PaymentForm({
+  defaultValues,
+  onSubmit,
+  onBack,
+}: PaymentFormProps) {
+  const form = useForm<PaymentFormValues>({
+    resolver: zodResolver(paymentSchema),
+    defaultValues: {
+      method: "card",
+      cardholder: "",
+      cardNumber: "",
+      expiry: "",
+      cvv: "",
+      bank: "",
+      ...defaultValues,
+    },
+  });
+
+  const method = form.watch("method");
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+        <FormField
+          control={form.control}
+          name="method"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Método de pago</FormLabel>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                {paymentMethods.map((option) => {
+                  const Icon = option.icon;
+                  const selected = field.value === option.id;
+                  return (
+                    <button
+                      key={option.id}
+                      type="button"
+                      onClick={() => field.onChange(option.id)}
+                      className={cn(
+                        "flex items-start gap-3 rounded-lg border p-4 text-left transition-colors",
+                        selected
+                          ? "border-primary bg-primary/5"
+                          : "hover:bg-muted/50"
+                      )}
+                      aria-pressed={selected}
+                    >
+                      <Icon className="h-5 w-5 mt-0.5 text-primary" />
+                      <div>
+                        <p className="font-medium text-sm">{option.label}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {option.description}
+                        </p>
+                      </div>
+                    </button>
+                  );
+                })}
+              </div>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        {method === "card" && (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <FormField
+              control={form.control}
+              name="cardholder"
+              render={({ field }) => (
+                <FormItem className="md:col-span-2">
+                  <FormLabel>Nombre en la tarjeta</FormLabel>
+                  <FormControl>
+                    <Input
+                      placeholder="ANA PEREZ"
+                      autoComplete="cc-name"
+                      {...field}
+                      value={field.value ?? ""}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="cardNumber"
+              render={({ field }) => (
+                <FormItem className="md:col-span-2">
+                  <FormLabel>Número de tarjeta</FormLabel>
+                  <FormControl>
+                    <Input
+                      inputMode="numeric"
+                      placeholder="4111 1111 1111 1111"
+                      autoComplete="cc-number"
+                      {...field}
+                      value={field.value ?? ""}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="expiry"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Vencimiento</FormLabel>
+                  <FormControl>
+                    <Input
+                      placeholder="MM/AA"
+                      autoComplete="cc-exp"
+                      {...field}
+                      value={field.value ?? ""}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="cvv"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>CVV</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="password"
+                      inputMode="numeric"
+                      placeholder="123"
+                      autoComplete="cc-csc"
+                      {...field}
+                      value={field.value ?? ""}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+        )}
+
+        {method === "pse" && (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <FormField
+              control={form.control}
+              name="bank"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Banco</FormLabel>
+                  <FormControl>
+                    <select
+                      className={selectClassName}
+                      {...field}
+                      value={field.value ?? ""}
+                    >
+                      <option value="">Selecciona tu banco</option>
+                      {PSE_BANKS.map((bank) => (
+                        <option key={bank} value={bank}>
+                          {bank}
+                        </option>
+                      ))}
+                    </select>
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="personType"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Tipo de persona</FormLabel>
+                  <FormControl>
+                    <select
+                      className={selectClassName}
+                      {...field}
+                      value={field.value ?? ""}
+                      onChange={(e) =>
+                        field.onChange(e.target.value || undefined)
+                      }
+                    >
+                      <option value="">Selecciona una opción</option>
+                      <option value="natural">Persona natural</option>
+                      <option value="juridica">Persona jurídica</option>
+                    </select>
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+        )}
+
+        {(method === "cash" || method === "transfer") && (
+          <p className="text-sm text-muted-foreground rounded-lg bg-muted/50 p-4">
+            {method === "cash"
+              ? "Pagarás el total del pedido en efectivo al momento de la entrega."
+              : "Al confirmar el pedido te enviaremos por email los datos de la cuenta para realizar la transferencia."}
+          </p>
+        )}
+
+        <div className="flex justify-between">
+          <Button type="button" variant="outline" onClick={onBack}>
+            <ArrowLeft className="h-4 w-4" />
+            Volver
+          </Button>
+          <Button type="submit">
+            Revisar pedido
+            <ArrowRight className="h-4 w-4" />
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
@@ -0,0 +1,236 @@
+/**
+ * Formulario de envío del checkout
+ *
+ * Captura los datos de contacto y la dirección de entrega,
+ * validados con zod a través de react-hook-form, y el método de envío
+ * cotizado para el destino ingresado.
+ */
+
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { ArrowLeft, ArrowRight, Truck } from "lucide-react";
+
+import { Button } from "../ui/button";
+import { Input } from "../ui/input";
+import { Badge } from "../ui/badge";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "../ui/form";
+import { cn, formatDate, formatPrice } from "@/lib/utils";
+import { getShippingZoneLabel } from "@/lib/shipping";
+import { useShippingQuotes } from "@/hooks/use-shipping";
+import { DEFAULT_SHIPPING_METHOD } from "@/types/cart";
+import { shippingSchema, type ShippingFormValues } from "./checkout-schemas";
+
+interface ShippingFormProps {
+  defaultValues: Partial<ShippingFormValues>;
+  onSubmit: (values: ShippingFormValues) => void;
+  onBack: () => void;
+}
+
+// Campos de texto simples del formulario
+const addressFields: Array<{
+  name: keyof ShippingFormValues;
+  label: string;
+  placeholder: string;
+  type?: string;
+  fullWidth?: boolean;
+}> = [
+  { name: "fullName", label: "Nombre completo", placeholder: "Ana Pérez" },
+  {
+    name: "email",
+    label: "Email",
+    placeholder: "tu@email.com",
+    type: "email",
+  },
+  { name: "phone", label: "Teléfono", placeholder: "300 123 4567", type: "tel" },
+  {
+    name: "address1",
+    label: "Dirección",
+    placeholder: "Calle 123 #45-67",
+    fullWidth: true,
+  },
+  {
+    name: "address2",
+    label: "Apartamento, oficina (opcional)",
+    placeholder: "Apto 501",
+    fullWidth: true,
+  },
+  { name: "city", label: "Ciudad", placeholder: "Bogotá" },
+  { name: "state", label: "Departamento", placeholder: "Cundinamarca" },
+  { name: "zipCode", label: "Código postal", placeholder: "110111" },
+  { name: "country", label: "País", placeholder: "Colombia" },
+];
+
+export function ShippingForm({
+  defaultValues,
+  onSubmit,
+  onBack,
+}: ShippingFormProps) {
+  const form = useForm<ShippingFormValues>({
+    resolver: zodResolver(shippingSchema),
+    defaultValues: {
+      fullName: "",
+      email: "",
+      phone: "",
+      address1: "",
+      address2: "",
+      city: "",
+      state: "",
+      zipCode: "",
+      country: "Colombia",
+      instructions: "",
+      shippingMethodId: DEFAULT_SHIPPING_METHOD.id,
+      ...defaultValues,
+    },
+  });
+
+  const [city, state] = form.watch(["city", "state"]);
+  const quotes = useShippingQuotes({ city, state });
+  const hasDestination = !!city?.trim() && !!state?.trim();
+
+  // El método elegido puede dejar de cubrir el destino al cambiar la ciudad
+  const handleSubmit = (values: ShippingFormValues) => {
+    const quote = quotes.find((q) => q.method.id === values.shippingMethodId);
+    if (!quote?.available) {
+      form.setError("shippingMethodId", {
+        message: quote?.unavailableReason ?? "Selecciona un método de envío",
+      });
+      return;
+    }
+    onSubmit(values);
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {addressFields.map((field) => (
+            <FormField
+              key={field.name}
+              control={form.control}
+              name={field.name}
+              render={({ field: inputProps }) => (
+                <FormItem className={field.fullWidth ? "md:col-span-2" : ""}>
+                  <FormLabel>{field.label}</FormLabel>
+                  <FormControl>
+                    <Input
+                      type={field.type ?? "text"}
+                      placeholder={field.placeholder}
+                      {...inputProps}
+                      value={inputProps.value ?? ""}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          ))}
+
+          <FormField
+            control={form.control}
+            name="instructions"
+            render={({ field }) => (
+              <FormItem className="md:col-span-2">
+                <FormLabel>Instrucciones de entrega (opcional)</FormLabel>
+                <FormControl>
+                  <textarea
+                    rows={3}
+                    placeholder="Portería, horario de entrega, referencias..."
+                    className="w-full rounded-md border bg-transparent px-3 py-2 text-sm shadow-xs outline-none focus-visible:ring-[3px] focus-visible:ring-ring/50"
+                    {...field}
+                    value={field.value ?? ""}
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <FormField
+          control={form.control}
+          name="shippingMethodId"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Método de envío</FormLabel>
+              {!hasDestination && (
+                <p className="text-xs text-muted-foreground">
+                  Ingresa ciudad y departamento para ver el costo exacto
+                </p>
+              )}
+              <div className="space-y-2">
+                {quotes.map((quote) => {
+                  const selected = field.value === quote.method.id;
+                  return (
+                    <button
+                      key={quote.method.id}
+                      type="button"
+                      disabled={!quote.available}
+                      onClick={() => field.onChange(quote.method.id)}
+                      className={cn(
+                        "flex w-full items-start gap-3 rounded-lg border p-4 text-left transition-colors disabled:cursor-not-allowed disabled:opacity-50",
+                        selected
+                          ? "border-primary bg-primary/5"
+                          : "hover:bg-muted/50"
+                      )}
+                      aria-pressed={selected}
+                    >
+                      <Truck className="h-5 w-5 mt-0.5 text-primary" />
+                      <div className="flex-1">
+                        <p className="font-medium text-sm">
+                          {quote.method.name}{" "}
+                          <span className="text-muted-foreground font-normal">
+                            · {quote.method.carrier}
+                          </span>
+                        </p>
+                        <p className="text-xs text-muted-foreground">
+                          {quote.available
+                            ? `${quote.method.description}. Llega aprox. el ${formatDate(
+                                quote.estimatedDelivery
+                              )}`
+                            : quote.unavailableReason}
+                        </p>
+                      </div>
+                      <div className="text-right text-sm">
+                        {quote.cost === 0 ? (
+                          <Badge variant="success">Gratis</Badge>
+                        ) : (
+                          <span className="font-medium">
+                            {formatPrice(quote.cost)}
+                          </span>
+                        )}
+                        {hasDestination && (
+                          <p className="text-xs text-muted-foreground">
+                            {getShippingZoneLabel(quote.zone)}
+                          </p>
+                        )}
+                      </div>
+                    </button>
+                  );
+                })}
+              </div>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="flex justify-between">
+          <Button type="button" variant="outline" onClick={onBack}>
+            <ArrowLeft className="h-4 w-4" />
+            Volver
+          </Button>
+          <Button type="submit">
+            Continuar al pago
+            <ArrowRight className="h-4 w-4" />
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
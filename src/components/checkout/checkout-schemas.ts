@@ -0,0 +1,173 @@
+/**
+ * Esquemas de validación del checkout
+ *
+ * Separados de los componentes para mantener compatibilidad con React Fast Refresh.
+ * Cada paso del asistente valida su formulario con su propio esquema.
+ */
+
+import { z } from "zod";
+import { isValidColombianPhone } from "../../lib/utils";
+
+// Paso de envío: datos de contacto y dirección
+export const shippingSchema = z.object({
+  fullName: z
+    .string()
+    .trim()
+    .min(3, { message: "Ingresa el nombre completo del destinatario" }),
+  email: z
+    .string()
+    .trim()
+    .email({ message: "El formato del email no es válido" }),
+  phone: z.string().trim().refine(isValidColombianPhone, {
+    message: "Ingresa un teléfono colombiano válido",
+  }),
+  address1: z
+    .string()
+    .trim()
+    .min(5, { message: "La dirección es requerida" }),
+  address2: z.string().trim().optional(),
+  city: z.string().trim().min(2, { message: "La ciudad es requerida" }),
+  state: z
+    .string()
+    .trim()
+    .min(2, { message: "El departamento es requerido" }),
+  zipCode: z
+    .string()
+    .trim()
+    .regex(/^\d{6}$/, { message: "El código postal debe tener 6 dígitos" }),
+  country: z.string().trim().min(2, { message: "El país es requerido" }),
+  instructions: z
+    .string()
+    .trim()
+    .max(200, { message: "Máximo 200 caracteres" })
+    .optional(),
+  shippingMethodId: z
+    .string()
+    .min(1, { message: "Selecciona un método de envío" }),
+});
+
+export type ShippingFormValues = z.infer<typeof shippingSchema>;
+
+// Algoritmo de Luhn para validar números de tarjeta
+const isValidCardNumber = (value: string): boolean => {
+  const digits = value.replace(/\s/g, "");
+  if (!/^\d{13,19}$/.test(digits)) return false;
+
+  let sum = 0;
+  let shouldDouble = false;
+  for (let i = digits.length - 1; i >= 0; i--) {
+    let digit = Number(digits[i]);
+    if (shouldDouble) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+    shouldDouble = !shouldDouble;
+  }
+  return sum % 10 === 0;
+};
+
+// Verifica que la fecha MM/AA no esté vencida
+const isValidExpiry = (value: string): boolean => {
+  const match = /^(\d{2})\/(\d{2})$/.exec(value);
+  if (!match || !match[1] || !match[2]) return false;
+
+  const month = Number(match[1]);
+  const year = 2000 + Number(match[2]);
+  if (month < 1 || month > 12) return false;
+
+  const now = new Date();
+  return (
+    year > now.getFullYear() ||
+    (year === now.getFullYear() && month >= now.getMonth() + 1)
+  );
+};
+
+// Paso de pago: método y detalles según el método elegido
+export const paymentSchema = z
+  .object({
+    method: z.enum(["card", "pse", "cash", "transfer"], {
+      required_error: "Selecciona un método de pago",
+    }),
+    cardholder: z.string().trim().optional(),
+    cardNumber: z.string().trim().optional(),
+    expiry: z.string().trim().optional(),
+    cvv: z.string().trim().optional(),
+    bank: z.string().trim().optional(),
+    personType: z.enum(["natural", "juridica"]).optional(),
+  })
+  .superRefine((values, ctx) => {
+    if (values.method === "card") {
+      if (!values.cardholder || values.cardholder.length < 3) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["cardholder"],
+          message: "Ingresa el nombre como aparece en la tarjeta",
+        });
+      }
+      if (!values.cardNumber || !isValidCardNumber(values.cardNumber)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["cardNumber"],
+          message: "El número de tarjeta no es válido",
+        });
+      }
+      if (!values.expiry || !isValidExpiry(values.expiry)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["expiry"],
+          message: "Fecha inválida o vencida (MM/AA)",
+        });
+      }
+      if (!values.cvv || !/^\d{3,4}$/.test(values.cvv)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["cvv"],
+          message: "El CVV debe tener 3 o 4 dígitos",
+        });
+      }
+    }
+
+    if (values.method === "pse") {
+      if (!values.bank) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["bank"],
+          message: "Selecciona tu banco",
+        });
+      }
+      if (!values.personType) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["personType"],
+          message: "Selecciona el tipo de persona",
+        });
+      }
+    }
+  });
+
+export type PaymentFormValues = z.infer<typeof paymentSchema>;
+
+// Paso de revisión: aceptación de términos y notas del pedido
+export const reviewSchema = z.object({
+  acceptTerms: z.literal(true, {
+    errorMap: () => ({ message: "Debes aceptar los términos y condiciones" }),
+  }),
+  notes: z
+    .string()
+    .trim()
+    .max(500, { message: "Máximo 500 caracteres" })
+    .optional(),
+});
+
+export type ReviewFormValues = z.infer<typeof reviewSchema>;
+
+// Bancos disponibles para pagos PSE
+export const PSE_BANKS = [
+  "Bancolombia",
+  "Banco de Bogotá",
+  "Davivienda",
+  "BBVA Colombia",
+  "Banco de Occidente",
+  "Nequi",
+];
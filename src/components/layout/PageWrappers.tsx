@@ -1,8 +1,20 @@
-import { useNavigate, useParams, useSearchParams } from "react-router";
+import {
+  Navigate,
+  useNavigate,
+  useParams,
+  useSearchParams,
+} from "react-router";
 import { HomePage } from "../../page/HomePage";
 import { ProductsPage } from "../../page/ProductsPage";
 import { ProductDetailPage } from "../../page/ProductDetailPage";
 import { ProfilePage } from "@/page/ProfilePage";
+import { CheckoutPage } from "@/page/CheckoutPage";
+import { OrdersPage } from "@/page/OrdersPage";
+import { OrderDetailPage } from "@/page/OrderDetailPage";
+import { WishlistPage } from "@/page/WishlistPage";
+import { SharedWishlistPage } from "@/page/SharedWishlistPage";
+import { ComparePage } from "@/page/ComparePage";
+import { useCatalogUrlFilters } from "@/hooks/use-catalog-url";
 
 // Wrapper para HomePage con navegación
 export function HomePageWrapper() {
@@ -19,67 +31,29 @@ export function HomePageWrapper() {
   );
 }
 
-// Wrapper para ProductsPage con navegación y parámetros
+// Wrapper para ProductsPage con los filtros guardados en la URL
 export function ProductsPageWrapper() {
   const navigate = useNavigate();
-  const [searchParams, setSearchParams] = useSearchParams();
-  const initialCategory = searchParams.get("categoria") || undefined;
-
-  const handleCategoryChange = (category?: string) => {
-    console.log(
-      "🔄 ProductsPageWrapper: handleCategoryChange recibió:",
-      category
-    );
-
-    if (category) {
-      setSearchParams({ categoria: category });
-    } else {
-      setSearchParams({});
-    }
-  };
+  const [filters, setFilters] = useCatalogUrlFilters();
 
   return (
     <ProductsPage
-      initialCategory={initialCategory}
+      filters={filters}
+      onFiltersChange={setFilters}
       onNavigateToProduct={(productId) => navigate(`/producto/${productId}`)}
       onNavigateBack={() => navigate("/")}
-      onCategoryChange={handleCategoryChange}
     />
   );
 }
 
-// Wrapper para ProductsPage con categoría específica
+// Ruta de categoría: alias de /productos?categoria=...
 export function CategoryPageWrapper() {
-  const navigate = useNavigate();
   const { categoria } = useParams();
+  const [searchParams] = useSearchParams();
+  const params = new URLSearchParams(searchParams);
+  if (categoria) params.set("categoria", categoria);
 
-  const handleCategoryChange = (category?: string) => {
-    console.log(
-      "🔄 CategoryPageWrapper: handleCategoryChange recibió:",
-      category
-    );
-    console.log("🔄 CategoryPageWrapper: categoria param:", categoria);
-
-    if (category) {
-      console.log(
-        "🔄 CategoryPageWrapper: Navegando a /productos?categoria=",
-        category
-      );
-      navigate(`/productos?categoria=${category}`);
-    } else {
-      console.log("🔄 CategoryPageWrapper: Navegando a /productos");
-      navigate("/productos");
-    }
-  };
-
-  return (
-    <ProductsPage
-      initialCategory={categoria}
-      onNavigateToProduct={(productId) => navigate(`/producto/${productId}`)}
-      onNavigateBack={() => navigate("/")}
-      onCategoryChange={handleCategoryChange}
-    />
-  );
+  return <Navigate to={`/productos?${params}`} replace />;
 }
 
 // Página de producto individual
@@ -118,5 +92,84 @@ export function ProductPageWrapper() {
 export function ProfilePageWrapper() {
   const navigate = useNavigate();
 
-  return <ProfilePage onNavigateBack={() => navigate("/")} />;
+  return (
+    <ProfilePage
+      onNavigateBack={() => navigate("/")}
+      onNavigateToOrders={() => navigate("/perfil/pedidos")}
+    />
+  );
+}
+
+export function CheckoutPageWrapper() {
+  const navigate = useNavigate();
+
+  return (
+    <CheckoutPage
+      onNavigateBack={() => navigate(-1)}
+      onNavigateToProducts={() => navigate("/productos")}
+      onNavigateToOrder={(orderId) => navigate(`/pedido/${orderId}`)}
+    />
+  );
+}
+
+export function OrdersPageWrapper() {
+  const navigate = useNavigate();
+
+  return (
+    <OrdersPage
+      onNavigateBack={() => navigate("/perfil")}
+      onNavigateToOrder={(orderId) => navigate(`/pedido/${orderId}`)}
+      onNavigateToProducts={() => navigate("/productos")}
+    />
+  );
+}
+
+export function OrderDetailPageWrapper() {
+  const navigate = useNavigate();
+  const { id } = useParams();
+
+  return (
+    <OrderDetailPage
+      orderId={id ?? ""}
+      onNavigateBack={() => navigate(-1)}
+      onNavigateToProduct={(productId) => navigate(`/producto/${productId}`)}
+    />
+  );
+}
+
+export function WishlistPageWrapper() {
+  const navigate = useNavigate();
+
+  return (
+    <WishlistPage
+      onNavigateBack={() => navigate(-1)}
+      onNavigateToProduct={(productId) => navigate(`/producto/${productId}`)}
+      onNavigateToProducts={() => navigate("/productos")}
+    />
+  );
+}
+
+export function SharedWishlistPageWrapper() {
+  const navigate = useNavigate();
+  const { shareId } = useParams();
+
+  return (
+    <SharedWishlistPage
+      shareId={shareId ?? ""}
+      onNavigateToProduct={(productId) => navigate(`/producto/${productId}`)}
+      onNavigateToProducts={() => navigate("/productos")}
+    />
+  );
+}
+
+export function ComparePageWrapper() {
+  const navigate = useNavigate();
+
+  return (
+    <ComparePage
+      onNavigateBack={() => navigate(-1)}
+      onNavigateToProduct={(productId) => navigate(`/producto/${productId}`)}
+      onNavigateToProducts={() => navigate("/productos")}
+    />
+  );
 }
@@ -0,0 +1,351 @@
+/**
+ * SearchBar - Buscador del header con autocompletado
+ *
+ * CONCEPTOS CLAVE:
+ * 1. Autocomplete - Sugerencias de productos, categorías y marcas al escribir
+ * 2. Recent Searches - Últimas búsquedas guardadas en el navegador
+ * 3. Keyboard Navigation - Flechas, Enter y Escape sobre las opciones
+ * 4. Spelling Correction - "¿Quisiste decir...?" si no hay resultados
+ * 5. ARIA Combobox - Roles y atributos para lectores de pantalla
+ */
+
+import React, { useId, useMemo, useRef, useState } from "react";
+import {
+  Clock,
+  Package,
+  Search,
+  Sparkles,
+  Tag,
+  LayoutGrid,
+  X,
+} from "lucide-react";
+
+import { Input } from "../ui/input";
+
+import { useSearchSuggestions } from "../../hooks/use-products";
+import { useRecentSearches } from "../../hooks/use-search";
+import { categoriesData } from "../../hooks/use-categories";
+import { cn } from "../../lib/utils";
+
+import type { ProductCategory } from "../../types/product";
+import { SEARCH_CONSTANTS, type SearchSuggestion } from "../../types/search";
+
+/**
+ * Opción del desplegable: sugerencia del catálogo o búsqueda de texto
+ */
+type SearchOption =
+  | { kind: "suggestion"; suggestion: SearchSuggestion }
+  | { kind: "recent" | "correction" | "query"; query: string };
+
+interface SearchOptionGroup {
+  title: string;
+  options: SearchOption[];
+}
+
+/**
+ * Props del SearchBar
+ */
+interface SearchBarProps {
+  onSearch: (query: string) => void;
+  onSelectProduct: (productId: string) => void;
+  onSelectCategory: (category: ProductCategory, query: string) => void; // Categoría dentro de la búsqueda
+  onSelectBrand: (brand: string, query: string) => void; // Marca dentro de la búsqueda
+}
+
+/**
+ * Nombre visible de una sugerencia (las categorías usan su nombre en español)
+ */
+const getSuggestionLabel = (suggestion: SearchSuggestion) =>
+  suggestion.type === "category"
+    ? categoriesData.find((c) => c.id === suggestion.category)?.name ??
+      suggestion.label
+    : suggestion.label;
+
+const SUGGESTION_ICONS = {
+  product: Package,
+  category: LayoutGrid,
+  brand: Tag,
+} as const;
+
+/**
+ * Contenido de una opción del desplegable
+ */
+function SearchOptionContent({ option }: { option: SearchOption }) {
+  if (option.kind === "suggestion") {
+    const { suggestion } = option;
+    const Icon = SUGGESTION_ICONS[suggestion.type];
+    return (
+      <>
+        <Icon className="h-4 w-4 text-gray-400 shrink-0" />
+        <span className="flex-1 truncate">
+          {getSuggestionLabel(suggestion)}
+        </span>
+        {suggestion.count !== undefined && (
+          <span className="text-xs text-gray-500">{suggestion.count}</span>
+        )}
+      </>
+    );
+  }
+
+  if (option.kind === "recent") {
+    return (
+      <>
+        <Clock className="h-4 w-4 text-gray-400 shrink-0" />
+        <span className="flex-1 truncate">{option.query}</span>
+      </>
+    );
+  }
+
+  if (option.kind === "correction") {
+    return (
+      <>
+        <Sparkles className="h-4 w-4 text-primary shrink-0" />
+        <span className="flex-1 truncate">
+          ¿Quisiste decir <strong>{option.query}</strong>?
+        </span>
+      </>
+    );
+  }
+
+  return (
+    <>
+      <Search className="h-4 w-4 text-gray-400 shrink-0" />
+      <span className="flex-1 truncate">
+        Buscar "<strong>{option.query}</strong>"
+      </span>
+    </>
+  );
+}
+
+/**
+ * Componente principal SearchBar
+ */
+export function SearchBar({
+  onSearch,
+  onSelectProduct,
+  onSelectCategory,
+  onSelectBrand,
+}: SearchBarProps) {
+  const [searchQuery, setSearchQuery] = useState("");
+  const [isOpen, setIsOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(-1);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const listboxId = useId();
+
+  const query = searchQuery.trim();
+  const isTyping = query.length >= SEARCH_CONSTANTS.MIN_QUERY_LENGTH;
+
+  const { data: suggestions } = useSearchSuggestions(query);
+  const { recentSearches, addRecentSearch, removeRecentSearch } =
+    useRecentSearches();
+
+  /**
+   * Grupos de opciones: búsquedas recientes con el campo vacío,
+   * sugerencias del catálogo mientras se escribe
+   */
+  const groups = useMemo<SearchOptionGroup[]>(() => {
+    if (!isTyping) {
+      return [
+        {
+          title: "Búsquedas recientes",
+          options: recentSearches.map((recent) => ({
+            kind: "recent" as const,
+            query: recent,
+          })),
+        },
+      ];
+    }
+
+    const toOptions = (items: SearchSuggestion[] = []) =>
+      items.map((suggestion) => ({
+        kind: "suggestion" as const,
+        suggestion,
+      }));
+
+    return [
+      {
+        title: "",
+        options: [
+          ...(suggestions?.didYouMean
+            ? [{ kind: "correction" as const, query: suggestions.didYouMean }]
+            : []),
+          { kind: "query" as const, query },
+        ],
+      },
+      { title: "Productos", options: toOptions(suggestions?.products) },
+      { title: "Categorías", options: toOptions(suggestions?.categories) },
+      { title: "Marcas", options: toOptions(suggestions?.brands) },
+    ];
+  }, [isTyping, query, recentSearches, suggestions]);
+
+  const options = groups.flatMap((group) => group.options);
+  const isExpanded = isOpen && options.length > 0;
+
+  const close = () => {
+    setIsOpen(false);
+    setActiveIndex(-1);
+  };
+
+  /**
+   * Busca un texto: lo guarda en recientes y va a los resultados
+   */
+  const search = (text: string) => {
+    const trimmed = text.trim();
+    if (!trimmed) return;
+    addRecentSearch(trimmed);
+    setSearchQuery(trimmed);
+    close();
+    inputRef.current?.blur();
+    onSearch(trimmed);
+  };
+
+  /**
+   * Ejecuta la opción elegida del desplegable
+   */
+  const selectOption = (option: SearchOption) => {
+    if (option.kind !== "suggestion") {
+      search(option.query);
+      return;
+    }
+
+    const { suggestion } = option;
+    addRecentSearch(query);
+    setSearchQuery("");
+    close();
+    inputRef.current?.blur();
+    if (suggestion.productId) {
+      onSelectProduct(suggestion.productId);
+    } else if (suggestion.category) {
+      // Mismos productos que cuenta la sugerencia: el texto y la categoría
+      onSelectCategory(suggestion.category, query);
+    } else if (suggestion.type === "brand") {
+      // Mismos productos que cuenta la sugerencia: el texto y la marca
+      onSelectBrand(suggestion.value, query);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const activeOption = options[activeIndex];
+    if (isExpanded && activeOption) {
+      selectOption(activeOption);
+    } else {
+      search(searchQuery);
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+      e.preventDefault();
+      if (!isOpen) {
+        setIsOpen(true);
+        return;
+      }
+      if (options.length === 0) return;
+      // El ciclo incluye el -1 (ninguna opción activa, solo el texto)
+      const step = e.key === "ArrowDown" ? 1 : -1;
+      const positions = options.length + 1;
+      setActiveIndex(
+        (current) => ((current + 1 + step + positions) % positions) - 1
+      );
+    } else if (e.key === "Escape") {
+      close();
+    }
+  };
+
+  return (
+    <div className="flex-1 max-w-2xl mx-4">
+      <form onSubmit={handleSubmit} className="relative" role="search">
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+          <Input
+            ref={inputRef}
+            type="text"
+            role="combobox"
+            aria-label="Buscar productos"
+            aria-autocomplete="list"
+            aria-expanded={isExpanded}
+            aria-controls={listboxId}
+            aria-activedescendant={
+              isExpanded && activeIndex >= 0
+                ? `${listboxId}-${activeIndex}`
+                : undefined
+            }
+            placeholder="Buscar productos..."
+            value={searchQuery}
+            onChange={(e) => {
+              setSearchQuery(e.target.value);
+              setIsOpen(true);
+              setActiveIndex(-1);
+            }}
+            onFocus={() => setIsOpen(true)}
+            onBlur={close}
+            onKeyDown={handleKeyDown}
+            className="pl-10 pr-4 py-2 w-full bg-gray-700 border-gray-600 text-white placeholder-gray-400 focus:border-primary focus:ring-primary"
+          />
+        </div>
+
+        {/* Desplegable de sugerencias */}
+        {isExpanded && (
+          <div
+            id={listboxId}
+            role="listbox"
+            aria-label="Sugerencias de búsqueda"
+            className="absolute top-full left-0 right-0 mt-1 z-50 max-h-96 overflow-y-auto rounded-lg border bg-white py-1 text-gray-900 shadow-lg"
+            // Evitar que el input pierda el foco al hacer clic en una opción
+            onMouseDown={(e) => e.preventDefault()}
+          >
+            {groups.map(
+              (group, groupIndex) =>
+                group.options.length > 0 && (
+                  <div key={group.title || groupIndex} role="group">
+                    {group.title && (
+                      <div className="px-3 pt-2 pb-1 text-xs font-semibold uppercase text-gray-500">
+                        {group.title}
+                      </div>
+                    )}
+                    {group.options.map((option) => {
+                      const index = options.indexOf(option);
+                      return (
+                        <div
+                          key={`${option.kind}-${
+                            option.kind === "suggestion"
+                              ? `${option.suggestion.type}-${option.suggestion.value}`
+                              : option.query
+                          }`}
+                          id={`${listboxId}-${index}`}
+                          role="option"
+                          aria-selected={index === activeIndex}
+                          onClick={() => selectOption(option)}
+                          onMouseEnter={() => setActiveIndex(index)}
+                          className={cn(
+                            "flex items-center gap-3 px-3 py-2 text-sm cursor-pointer",
+                            index === activeIndex && "bg-gray-100"
+                          )}
+                        >
+                          <SearchOptionContent option={option} />
+                          {option.kind === "recent" && (
+                            <button
+                              type="button"
+                              aria-label={`Quitar "${option.query}" de recientes`}
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                removeRecentSearch(option.query);
+                              }}
+                              className="p-1 rounded text-gray-400 hover:text-gray-700"
+                            >
+                              <X className="h-3 w-3" />
+                            </button>
+                          )}
+                        </div>
+                      );
+                    })}
+                  </div>
+                )
+            )}
+          </div>
+        )}
+      </form>
+    </div>
+  );
+}
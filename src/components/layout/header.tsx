@@ -6,10 +6,10 @@
 
 import React, { useState } from "react";
 import { motion, AnimatePresence } from "framer-motion";
+import { useNavigate } from "react-router";
 import {
   ShoppingCart,
   User,
-  Search,
   Menu,
   X,
   Heart,
@@ -20,13 +20,16 @@ import {
 } from "lucide-react";
 
 import { Button } from "../ui/button";
-import { Input } from "../ui/input";
 import { Badge } from "../ui/badge";
 import { CartDrawer } from "../cart/CartDrawer";
+import { SearchBar } from "./SearchBar";
 
 import { useCart, useCartDrawer } from "../../hooks/use-cart";
 import { useAuth } from "../../hooks/use-auth";
+import { useWishlist } from "../../hooks/use-wishlist";
+import { serializeProductSearchParams } from "../../lib/catalog-url";
 import { cn } from "../../lib/utils";
+import type { ProductCategory } from "../../types/product";
 
 // Importar componentes de autenticación
 import { AuthModal } from "../auth/AuthModal";
@@ -70,41 +73,6 @@ function CartButton({ itemCount, onOpenCart }: CartButtonProps) {
   );
 }
 
-/**
- * Componente de Búsqueda
- */
-interface SearchBarProps {
-  onSearch: (query: string) => void;
-}
-
-function SearchBar({ onSearch }: SearchBarProps) {
-  const [searchQuery, setSearchQuery] = useState("");
-
-  const handleSubmit = (e: React.FormEvent) => {
-    e.preventDefault();
-    if (searchQuery.trim()) {
-      onSearch(searchQuery.trim());
-    }
-  };
-
-  return (
-    <div className="flex-1 max-w-2xl mx-4">
-      <form onSubmit={handleSubmit} className="relative">
-        <div className="relative">
-          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
-          <Input
-            type="text"
-            placeholder="Buscar productos..."
-            value={searchQuery}
-            onChange={(e) => setSearchQuery(e.target.value)}
-            className="pl-10 pr-4 py-2 w-full bg-gray-700 border-gray-600 text-white placeholder-gray-400 focus:border-primary focus:ring-primary"
-          />
-        </div>
-      </form>
-    </div>
-  );
-}
-
 /**
  * Componente Principal del Header
  */
@@ -117,19 +85,28 @@ const Header: React.FC<HeaderProps> = ({ className }) => {
 
   // Hooks
   const { getTotalItems } = useCart();
+  const { count: wishlistCount } = useWishlist();
   const {
     isOpen: isCartOpen,
     openDrawer: openCart,
     closeDrawer: closeCart,
   } = useCartDrawer();
   const { user, isAuthenticated, logout } = useAuth();
+  const navigate = useNavigate();
 
   // Estados
   const totalItems = getTotalItems();
 
-  const handleSearch = (query: string) => {
-    console.log("Buscando:", query);
-    // Aquí implementarías la lógica de búsqueda
+  const searchBarProps = {
+    onSearch: (query: string) =>
+      navigate(`/productos?q=${encodeURIComponent(query)}`),
+    onSelectProduct: (productId: string) => navigate(`/producto/${productId}`),
+    onSelectCategory: (category: ProductCategory, query: string) =>
+      navigate(
+        `/productos?${serializeProductSearchParams({ query, category })}`
+      ),
+    onSelectBrand: (brand: string, query: string) =>
+      navigate(`/productos?${serializeProductSearchParams({ query, brand })}`),
   };
 
   const handleLogin = () => {
@@ -146,6 +123,11 @@ const Header: React.FC<HeaderProps> = ({ className }) => {
     setIsAuthModalOpen(false);
   };
 
+  const handleMobileNavigate = (path: string) => {
+    setIsMobileMenuOpen(false);
+    navigate(path);
+  };
+
   return (
     <>
       <header className={cn("bg-gray-800 text-white shadow-lg", className)}>
@@ -165,7 +147,7 @@ const Header: React.FC<HeaderProps> = ({ className }) => {
 
             {/* Barra de búsqueda - Desktop */}
             <div className="hidden md:block flex-1">
-              <SearchBar onSearch={handleSearch} />
+              <SearchBar {...searchBarProps} />
             </div>
 
             {/* Acciones del usuario */}
@@ -182,14 +164,21 @@ const Header: React.FC<HeaderProps> = ({ className }) => {
               )}
 
               {/* Lista de deseos */}
-              {isAuthenticated && (
-                <button
-                  className="p-2 rounded-lg hover:bg-gray-700 transition-colors"
-                  aria-label="Lista de deseos"
-                >
-                  <Heart className="h-5 w-5" />
-                </button>
-              )}
+              <button
+                onClick={() => navigate("/favoritos")}
+                className="relative p-2 rounded-lg hover:bg-gray-700 transition-colors"
+                aria-label={`Lista de deseos - ${wishlistCount} productos`}
+              >
+                <Heart className="h-5 w-5" />
+                {wishlistCount > 0 && (
+                  <Badge
+                    variant="destructive"
+                    className="absolute -top-1 -right-1 h-4 w-4 flex items-center justify-center p-0 text-[10px]"
+                  >
+                    {wishlistCount > 99 ? "99+" : wishlistCount}
+                  </Badge>
+                )}
+              </button>
 
               {/* Carrito */}
               <CartButton itemCount={totalItems} onOpenCart={openCart} />
@@ -197,9 +186,9 @@ const Header: React.FC<HeaderProps> = ({ className }) => {
               {/* Usuario */}
               {isAuthenticated && user ? (
                 <UserMenu
-                  onProfileClick={() => console.log("Perfil")}
-                  onOrdersClick={() => console.log("Pedidos")}
-                  onWishlistClick={() => console.log("Lista de deseos")}
+                  onProfileClick={() => navigate("/perfil")}
+                  onOrdersClick={() => navigate("/perfil/pedidos")}
+                  onWishlistClick={() => navigate("/favoritos")}
                   onSettingsClick={() => console.log("Configuración")}
                 />
               ) : (
@@ -239,7 +228,7 @@ const Header: React.FC<HeaderProps> = ({ className }) => {
 
           {/* Barra de búsqueda móvil */}
           <div className="md:hidden pb-4">
-            <SearchBar onSearch={handleSearch} />
+            <SearchBar {...searchBarProps} />
           </div>
         </div>
 
@@ -272,15 +261,24 @@ const Header: React.FC<HeaderProps> = ({ className }) => {
                   </div>
                 ) : (
                   <>
-                    <button className="w-full flex items-center space-x-3 p-3 rounded-lg hover:bg-gray-600 transition-colors">
+                    <button
+                      onClick={() => handleMobileNavigate("/perfil")}
+                      className="w-full flex items-center space-x-3 p-3 rounded-lg hover:bg-gray-600 transition-colors"
+                    >
                       <User className="h-5 w-5" />
                       <span>Mi Perfil</span>
                     </button>
-                    <button className="w-full flex items-center space-x-3 p-3 rounded-lg hover:bg-gray-600 transition-colors">
+                    <button
+                      onClick={() => handleMobileNavigate("/perfil/pedidos")}
+                      className="w-full flex items-center space-x-3 p-3 rounded-lg hover:bg-gray-600 transition-colors"
+                    >
                       <Package className="h-5 w-5" />
                       <span>Mis Pedidos</span>
                     </button>
-                    <button className="w-full flex items-center space-x-3 p-3 rounded-lg hover:bg-gray-600 transition-colors">
+                    <button
+                      onClick={() => handleMobileNavigate("/favoritos")}
+                      className="w-full flex items-center space-x-3 p-3 rounded-lg hover:bg-gray-600 transition-colors"
+                    >
                       <Heart className="h-5 w-5" />
                       <span>Lista de Deseos</span>
                     </button>
@@ -11,7 +11,10 @@ import { Outlet } from "react-router";
 import { AuthProvider } from "../../contexts/auth-context";
 import { CartProvider } from "../../contexts/cart-context";
 import { UserProvider } from "../../contexts/user-context";
+import { WishlistProvider } from "../../contexts/wishlist-context";
 import { ThemeProvider } from "../../contexts/theme-context";
+import { CompareProvider } from "../../contexts/compare-context";
+import { CompareTray } from "../product/CompareTray";
 import Header from "./header";
 import Footer from "./footer";
 
@@ -40,14 +43,19 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
         <AuthProvider>
           <UserProvider>
             <CartProvider>
-              <div className="flex flex-col min-h-screen bg-background text-foreground">
-                <Header />
-                <main className="flex-1">
-                  {/* Si hay children, los usa; si no, usa Outlet para React Router */}
-                  {children || <Outlet />}
-                </main>
-                <Footer />
-              </div>
+              <WishlistProvider>
+                <CompareProvider>
+                  <div className="flex flex-col min-h-screen bg-background text-foreground">
+                    <Header />
+                    <main className="flex-1">
+                      {/* Si hay children, los usa; si no, usa Outlet para React Router */}
+                      {children || <Outlet />}
+                    </main>
+                    <Footer />
+                    <CompareTray />
+                  </div>
+                </CompareProvider>
+              </WishlistProvider>
             </CartProvider>
           </UserProvider>
         </AuthProvider>
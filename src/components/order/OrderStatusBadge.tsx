@@ -0,0 +1,32 @@
+/**
+ * Badge con el estado de una orden
+ */
+
+import { Badge } from "../ui/badge";
+import { ORDER_STATUS_LABELS, type OrderStatus } from "../../types/order";
+
+// Variante visual para cada estado
+const statusVariants: Record<
+  OrderStatus,
+  "warning" | "info" | "secondary" | "default" | "success" | "destructive"
+> = {
+  pending: "warning",
+  confirmed: "info",
+  processing: "secondary",
+  shipped: "default",
+  delivered: "success",
+  cancelled: "destructive",
+};
+
+interface OrderStatusBadgeProps {
+  status: OrderStatus;
+  className?: string;
+}
+
+export function OrderStatusBadge({ status, className }: OrderStatusBadgeProps) {
+  return (
+    <Badge variant={statusVariants[status]} className={className}>
+      {ORDER_STATUS_LABELS[status]}
+    </Badge>
+  );
+}
@@ -17,7 +17,7 @@ import { Badge } from "../ui/badge";
 import { Button } from "../ui/button";
 
 import type { ProductCategory } from "../../types/product";
-import { useFakeStoreCategories } from "../../hooks/use-fakestore";
+import { useCatalogCategories } from "../../hooks/use-products";
 import { categoriesData } from "../../hooks/use-categories";
 import { cn } from "../../lib/utils";
 
@@ -260,21 +260,25 @@ export function CompactCategories({
   activeCategory,
   className,
 }: CompactCategoriesProps) {
-  const { data: fakeStoreCategories = [] } = useFakeStoreCategories();
+  const { data: catalogCategories = [] } = useCatalogCategories();
   
   const handleClick = (categoryId: string) => {
     console.log("🔄 CompactCategories: Click en categoría:", categoryId);
     onCategoryClick?.(categoryId);
   };
 
-  // Mapear categorías de FakeStore a nuestro formato visual
-  const displayCategories = fakeStoreCategories.length > 0 
-    ? fakeStoreCategories.map(cat => ({
-        id: cat,
-        name: cat.charAt(0).toUpperCase() + cat.slice(1),
-        icon: categoriesData.find(c => c.id === cat)?.icon || categoriesData[0]?.icon
-      }))
-    : categoriesData;
+  // Categorías presentes en el catálogo con su nombre e icono
+  const displayCategories =
+    catalogCategories.length > 0
+      ? catalogCategories.map((id) => {
+          const data = categoriesData.find((c) => c.id === id);
+          return {
+            id,
+            name: data?.name ?? id.charAt(0).toUpperCase() + id.slice(1),
+            icon: data?.icon ?? categoriesData[0]?.icon,
+          };
+        })
+      : categoriesData;
 
   return (
     <div className={cn("flex flex-wrap gap-2", className)}>
@@ -0,0 +1,101 @@
+/**
+ * Componente CompareTray - Bandeja de productos a comparar
+ *
+ * CONCEPTOS CLAVE:
+ * 1. Persistent Tray - Barra fija visible en todas las páginas
+ * 2. Slot Layout - Un espacio por producto hasta el máximo permitido
+ * 3. Shared State - Lee y actualiza el contexto de comparación
+ */
+
+import { motion, AnimatePresence } from "framer-motion";
+import { useLocation, useNavigate } from "react-router";
+import { GitCompare, X } from "lucide-react";
+
+import { Button } from "../ui/button";
+
+import { useCompare } from "../../hooks/use-compare";
+import { truncateText } from "../../lib/utils";
+import { COMPARE_CONSTANTS } from "../../types/compare";
+
+// Ruta de la página de comparación
+const COMPARE_PATH = "/comparar";
+
+/**
+ * Componente principal CompareTray
+ */
+export function CompareTray() {
+  const { items, count, removeFromCompare, clearCompare } = useCompare();
+  const navigate = useNavigate();
+  const { pathname } = useLocation();
+
+  // En la página de comparación la bandeja sobra
+  const isVisible = count > 0 && pathname !== COMPARE_PATH;
+  const emptySlots = COMPARE_CONSTANTS.MAX_ITEMS - count;
+
+  return (
+    <AnimatePresence>
+      {isVisible && (
+        <motion.aside
+          initial={{ y: "100%" }}
+          animate={{ y: 0 }}
+          exit={{ y: "100%" }}
+          aria-label="Productos para comparar"
+          className="fixed bottom-0 inset-x-0 z-40 border-t bg-background/95 backdrop-blur-sm shadow-lg"
+        >
+          <div className="container mx-auto px-4 py-3 flex items-center gap-4">
+            {/* Productos elegidos */}
+            <div className="flex-1 flex gap-3 overflow-x-auto">
+              {items.map((product) => (
+                <div
+                  key={product.id}
+                  className="relative flex items-center gap-2 rounded-lg border bg-card p-2 pr-7 min-w-0 w-48 shrink-0"
+                >
+                  <img
+                    src={product.thumbnail}
+                    alt={product.name}
+                    className="h-10 w-10 rounded object-cover shrink-0"
+                  />
+                  <span className="text-xs font-medium leading-tight">
+                    {truncateText(product.name, 40)}
+                  </span>
+                  <button
+                    type="button"
+                    onClick={() => removeFromCompare(product.id)}
+                    className="absolute top-1 right-1 p-1 rounded text-muted-foreground hover:text-foreground"
+                    aria-label={`Quitar ${product.name} de la comparación`}
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                </div>
+              ))}
+              {Array.from({ length: emptySlots }, (_, i) => (
+                <div
+                  key={`empty-${i}`}
+                  className="hidden md:flex items-center justify-center rounded-lg border border-dashed text-xs text-muted-foreground w-48 shrink-0"
+                >
+                  Agrega un producto
+                </div>
+              ))}
+            </div>
+
+            {/* Acciones */}
+            <div className="flex items-center gap-2 shrink-0">
+              <Button variant="ghost" size="sm" onClick={clearCompare}>
+                Limpiar
+              </Button>
+              <Button
+                size="sm"
+                className="gap-2"
+                disabled={count < 2}
+                onClick={() => navigate(COMPARE_PATH)}
+              >
+                <GitCompare className="h-4 w-4" />
+                Comparar ({count})
+              </Button>
+            </div>
+          </div>
+        </motion.aside>
+      )}
+    </AnimatePresence>
+  );
+}
@@ -4,10 +4,11 @@
  * CONCEPTOS CLAVE:
  * 1. Component Composition - Elementos bien organizados y reutilizables
  * 2. Interactive Design - Hover effects y micro-interactions
- * 3. State Management - Integración con contextos de cart y user
+ * 3. State Management - Contextos de cart, wishlist y comparación
  * 4. Responsive Design - Se adapta a diferentes tamaños de pantalla
  * 5. Accessibility - ARIA labels y navegación por teclado
  * 6. Performance - Lazy loading de imágenes y optimizaciones
+ * 7. Quick Add - Selector de variantes antes de agregar al carrito
  */
 
 import React, { useState } from "react";
@@ -25,10 +26,20 @@ import { Button } from "../ui/button";
 import { Badge } from "../ui/badge";
 import { Card, CardContent, CardFooter } from "../ui/card";
 
+import { VariantSelector } from "./VariantSelector";
+
 import { useCart } from "../../hooks/use-cart";
-import { useUser } from "../../hooks/use-user";
+import { useWishlist } from "../../hooks/use-wishlist";
+import { useCompare } from "../../hooks/use-compare";
 
 import type { Product } from "../../types/product";
+import { COMPARE_CONSTANTS } from "../../types/compare";
+import {
+  getDefaultVariantSelection,
+  groupVariants,
+  resolveVariantSelection,
+  type VariantSelection,
+} from "../../lib/variants";
 import { formatPrice, truncateText } from "../../lib/utils";
 import { cn } from "../../lib/utils";
 
@@ -81,11 +92,14 @@ export function ProductCard({
 }: ProductCardProps) {
   const [isImageLoaded, setIsImageLoaded] = useState(false);
   const [isImageError, setIsImageError] = useState(false);
-  const [isFavorite, setIsFavorite] = useState(false);
+  // Selección de variantes abierta desde el botón de agregar
+  const [variantSelection, setVariantSelection] =
+    useState<VariantSelection | null>(null);
 
   // Hooks de contexto
   const { addToCart, getItemQuantity } = useCart();
-  const { auth } = useUser();
+  const { isInWishlist, toggleWishlist } = useWishlist();
+  const { isInCompare, toggleCompare, isFull: isCompareFull } = useCompare();
 
   // Configuración por tamaño
   const sizeConfig = {
@@ -115,45 +129,58 @@ export function ProductCard({
   const isInStock = product.stock > 0;
   const isLowStock = product.stock <= 5 && product.stock > 0;
   const itemQuantity = getItemQuantity(product.id);
-  const primaryImage = typeof product.images[0] === 'string' ? product.images[0] : product.thumbnail;
+  const isFavorite = isInWishlist(product.id);
+  const isComparing = isInCompare(product.id);
+  const hasVariants = groupVariants(product.variants).length > 0;
+  const variantResolution = variantSelection
+    ? resolveVariantSelection(product, variantSelection)
+    : null;
+  const primaryImage =
+    variantResolution?.image ??
+    (typeof product.images[0] === "string"
+      ? product.images[0]
+      : product.thumbnail);
 
   /**
    * Maneja el click en agregar al carrito
+   * Si el producto tiene variantes, primero se muestra el selector
    */
   const handleAddToCart = (e: React.MouseEvent) => {
     e.stopPropagation();
-    if (isInStock) {
-      addToCart({
-        product,
-        quantity: 1,
-      });
+    if (!isInStock) return;
+
+    if (hasVariants) {
+      setVariantSelection(getDefaultVariantSelection(product));
+      return;
     }
+
+    addToCart({
+      product,
+      quantity: 1,
+    });
   };
 
   /**
-   * Maneja el toggle de favoritos
+   * Agrega la combinación elegida en el selector rápido
    */
-  const handleToggleFavorite = async (e: React.MouseEvent) => {
+  const handleConfirmVariant = (e: React.MouseEvent) => {
     e.stopPropagation();
+    if (!variantResolution?.available) return;
 
-    if (!auth.isAuthenticated) {
-      // Redirect to login o mostrar modal
-      console.log("Usuario debe estar autenticado para agregar a favoritos");
-      return;
-    }
+    addToCart({
+      product,
+      quantity: 1,
+      selectedVariant: variantResolution.cartVariant,
+    });
+    setVariantSelection(null);
+  };
 
-    try {
-      // Simular API call para favoritos
-      if (isFavorite) {
-        console.log("Removiendo de favoritos:", product.id);
-        setIsFavorite(false);
-      } else {
-        console.log("Agregando a favoritos:", product.id);
-        setIsFavorite(true);
-      }
-    } catch (error) {
-      console.error("Error al manejar favoritos:", error);
-    }
+  /**
+   * Maneja el toggle de favoritos
+   */
+  const handleToggleFavorite = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    toggleWishlist(product);
   };
 
   /**
@@ -333,11 +360,69 @@ export function ProductCard({
               </span>
             </div>
           )}
+
+          {/* Toggle de comparación */}
+          {showQuickActions && (
+            <label
+              className={cn(
+                "mt-3 flex items-center gap-2 text-xs text-muted-foreground",
+                !isComparing && isCompareFull
+                  ? "cursor-not-allowed opacity-50"
+                  : "cursor-pointer hover:text-foreground"
+              )}
+              title={
+                !isComparing && isCompareFull
+                  ? `Puedes comparar hasta ${COMPARE_CONSTANTS.MAX_ITEMS} productos`
+                  : undefined
+              }
+              onClick={(e) => e.stopPropagation()}
+            >
+              <input
+                type="checkbox"
+                checked={isComparing}
+                disabled={!isComparing && isCompareFull}
+                onChange={() => toggleCompare(product)}
+                className="text-primary"
+              />
+              Comparar
+            </label>
+          )}
         </CardContent>
 
         {/* Footer con botón de acción */}
         <CardFooter className="pt-0 px-4 pb-4">
-          {itemQuantity > 0 ? (
+          {variantSelection && variantResolution ? (
+            <div className="w-full space-y-3">
+              <VariantSelector
+                product={product}
+                selection={variantSelection}
+                onChange={setVariantSelection}
+                size="sm"
+              />
+              <div className="flex gap-2">
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    setVariantSelection(null);
+                  }}
+                >
+                  Cancelar
+                </Button>
+                <Button
+                  size="sm"
+                  className="flex-1 gap-2"
+                  onClick={handleConfirmVariant}
+                  disabled={!variantResolution.available}
+                >
+                  <ShoppingCart className="h-4 w-4" />
+                  {variantResolution.unavailableReason ??
+                    `Agregar · ${formatPrice(variantResolution.price)}`}
+                </Button>
+              </div>
+            </div>
+          ) : itemQuantity > 0 ? (
             <div className="w-full flex items-center justify-between">
               <span className="text-sm text-muted-foreground">
                 En carrito: {itemQuantity}
@@ -424,9 +509,16 @@ export function ProductCardCompact({
   onProductClick?: (product: Product) => void;
 }) {
   const { addToCart } = useCart();
+  // Con variantes hay que elegir talla/color en el detalle
+  const needsVariant = groupVariants(product.variants).length > 0;
 
   const handleAddToCart = (e: React.MouseEvent) => {
     e.stopPropagation();
+    if (needsVariant) {
+      onProductClick?.(product);
+      return;
+    }
+
     addToCart({
       product,
       quantity: 1,
@@ -451,7 +543,12 @@ export function ProductCardCompact({
           <span className="font-bold text-primary">
             {formatPrice(product.price)}
           </span>
-          <Button size="sm" variant="ghost" onClick={handleAddToCart}>
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={handleAddToCart}
+            aria-label={needsVariant ? "Elegir opciones" : "Agregar al carrito"}
+          >
             <Plus className="h-3 w-3" />
           </Button>
         </div>
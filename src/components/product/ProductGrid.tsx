@@ -9,11 +9,31 @@
  * 5. Loading States - Estados de carga elegantes
  * 6. Empty States - Estados vacíos informativos
  * 7. View Modes - Cambio entre vista grid y lista
+ * 8. Spelling Correction - "¿Quisiste decir...?" si la búsqueda no encuentra
+ * 9. Controlled Filters - Los filtros pueden vivir fuera (ej. en la URL)
+ * 10. Infinite Scroll - Carga de páginas al acercarse al final
+ * 11. Virtualization - Solo se montan las filas visibles
  */
 
-import { useState, useMemo, useEffect } from "react";
+import {
+  useState,
+  useMemo,
+  useEffect,
+  useRef,
+  useCallback,
+  type Dispatch,
+  type SetStateAction,
+} from "react";
 import { motion, AnimatePresence } from "framer-motion";
-import { Search, Filter, Grid3X3, List, X } from "lucide-react";
+import {
+  Search,
+  Filter,
+  Grid3X3,
+  List,
+  X,
+  ChevronLeft,
+  ChevronRight,
+} from "lucide-react";
 
 import { Button } from "../ui/button";
 import { Input } from "../ui/input";
@@ -21,8 +41,13 @@ import { Badge } from "../ui/badge";
 import { Card, CardContent, CardHeader, CardTitle } from "../ui/card";
 import { ProductCardSkeleton } from "../ui/loading";
 
-import { ProductCard } from "./ProductCard";
-import { useFakeStoreProducts, useFakeStoreProductsByCategory } from "../../hooks/use-fakestore";
+import { VirtualProductGrid } from "./VirtualProductGrid";
+import {
+  useInfiniteProducts,
+  useProducts,
+  useSearchSuggestions,
+} from "../../hooks/use-products";
+import { categoriesData } from "../../hooks/use-categories";
 
 import type {
   ProductSearchParams,
@@ -30,20 +55,33 @@ import type {
   ProductSortOption,
   Product,
 } from "../../types/product";
-import { cn, debounce } from "../../lib/utils";
+import { cn, debounce, formatPrice } from "../../lib/utils";
 
 /**
  * Props del ProductGrid
  */
 interface ProductGridProps {
   initialFilters?: ProductSearchParams;
+  // Con este setter los filtros los controla el padre (ej. en la URL)
+  onFiltersChange?: Dispatch<SetStateAction<ProductSearchParams>>;
   showFilters?: boolean;
   showSearch?: boolean;
   showViewToggle?: boolean;
+  defaultLoadMode?: LoadMode;
   className?: string;
   onProductClick?: (product: Product) => void;
 }
 
+/**
+ * Forma de cargar más productos: páginas numeradas o scroll infinito
+ */
+type LoadMode = "pages" | "infinite";
+
+const loadModeOptions = [
+  { value: "pages" as const, label: "Paginación" },
+  { value: "infinite" as const, label: "Scroll infinito" },
+];
+
 /**
  * Opciones de ordenamiento disponibles
  */
@@ -57,39 +95,135 @@ const sortOptions = [
 ];
 
 /**
- * Categorías disponibles para FakeStore
+ * Nombre visible de una categoría del catálogo
  */
-const categoryOptions = [
-  { value: "electronics", label: "Electrónicos" },
-  { value: "jewelery", label: "Joyería" },
-  { value: "men's clothing", label: "Ropa de hombre" },
-  { value: "women's clothing", label: "Ropa de mujer" },
-];
+const getCategoryLabel = (category: ProductCategory) =>
+  categoriesData.find((c) => c.id === category)?.name ?? category;
 
 /**
- * Rangos de precio predefinidos
+ * Texto de un rango de precio (sin máximo = "o más")
  */
-const priceRanges = [
-  { min: 0, max: 50, label: "Menos de $50" },
-  { min: 50, max: 100, label: "$50 - $100" },
-  { min: 100, max: 500, label: "$100 - $500" },
-  { min: 500, max: 1000, label: "$500 - $1,000" },
-  { min: 1000, max: Infinity, label: "Más de $1,000" },
-];
+const getPriceRangeLabel = (min: number, max?: number) => {
+  if (max === undefined) return `Más de ${formatPrice(min)}`;
+  if (min === 0) return `Hasta ${formatPrice(max)}`;
+  return `${formatPrice(min)} - ${formatPrice(max)}`;
+};
+
+/**
+ * Número de etiquetas que muestra el panel de filtros
+ */
+const MAX_TAG_OPTIONS = 8;
+
+/**
+ * Opción de un filtro con su número de productos
+ * Las opciones sin productos se muestran deshabilitadas
+ */
+function FacetRadio({
+  name,
+  label,
+  count,
+  checked,
+  onSelect,
+}: {
+  name: string;
+  label: string;
+  count: number;
+  checked: boolean;
+  onSelect: () => void;
+}) {
+  const isDisabled = count === 0 && !checked;
+
+  return (
+    <label
+      className={cn(
+        "flex items-center space-x-2",
+        isDisabled ? "cursor-not-allowed opacity-50" : "cursor-pointer"
+      )}
+    >
+      <input
+        type="radio"
+        name={name}
+        checked={checked}
+        disabled={isDisabled}
+        onChange={(e) => {
+          if (e.target.checked) onSelect();
+        }}
+        className="text-primary"
+      />
+      <span className="text-sm flex-1">{label}</span>
+      <span className="text-xs text-muted-foreground">{count}</span>
+    </label>
+  );
+}
+
+/**
+ * Páginas a mostrar en la paginación: la primera, la última y las
+ * vecinas de la actual; null marca un salto
+ */
+const getPageNumbers = (current: number, total: number) => {
+  const pages: (number | null)[] = [];
+  for (let page = 1; page <= total; page++) {
+    if (page === 1 || page === total || Math.abs(page - current) <= 1) {
+      pages.push(page);
+    } else if (pages[pages.length - 1] !== null) {
+      pages.push(null);
+    }
+  }
+  return pages;
+};
+
+/**
+ * Marca invisible al final del listado: avisa cuando se acerca a la
+ * pantalla para cargar la siguiente página
+ */
+function LoadMoreTrigger({
+  onVisible,
+  disabled,
+}: {
+  onVisible: () => void;
+  disabled: boolean;
+}) {
+  const ref = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const element = ref.current;
+    if (!element || disabled) return;
+
+    const observer = new IntersectionObserver(
+      ([entry]) => {
+        if (entry?.isIntersecting) onVisible();
+      },
+      { rootMargin: "600px" } // Cargar antes de llegar al final
+    );
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [onVisible, disabled]);
+
+  return <div ref={ref} aria-hidden="true" className="h-px" />;
+}
 
 /**
  * Hook personalizado para manejar filtros con debounce
+ * Sin setter externo los filtros viven en el estado del componente; con
+ * él, initialFilters es la fuente de verdad y cada cambio se delega
  */
-function useProductFilters(initialFilters: ProductSearchParams = {}) {
-  const [filters, setFilters] = useState<ProductSearchParams>(initialFilters);
+function useProductFilters(
+  initialFilters: ProductSearchParams = {},
+  onFiltersChange?: Dispatch<SetStateAction<ProductSearchParams>>
+) {
+  const [localFilters, setLocalFilters] =
+    useState<ProductSearchParams>(initialFilters);
   const [searchQuery, setSearchQuery] = useState(initialFilters.query || "");
 
   // Sincronizar con cambios externos de initialFilters
   useEffect(() => {
-    setFilters(initialFilters);
+    setLocalFilters(initialFilters);
     setSearchQuery(initialFilters.query || "");
   }, [initialFilters]);
 
+  const filters = onFiltersChange ? initialFilters : localFilters;
+  const setFilters = onFiltersChange ?? setLocalFilters;
+
   // Memoizar el objeto de filtros para evitar re-renders innecesarios
   const memoizedFilters = useMemo(() => filters, [filters]);
 
@@ -100,7 +234,7 @@ function useProductFilters(initialFilters: ProductSearchParams = {}) {
         const query = args[0] as string;
         setFilters((prev) => ({ ...prev, query, page: 1 }));
       }, 300),
-    []
+    [setFilters]
   );
 
   const updateSearch = (query: string) => {
@@ -115,6 +249,11 @@ function useProductFilters(initialFilters: ProductSearchParams = {}) {
     setFilters((prev) => ({ ...prev, [key]: value, page: 1 }));
   };
 
+  // Cambia varios filtros en una sola actualización
+  const updateFilters = (changes: Partial<ProductSearchParams>) => {
+    setFilters((prev) => ({ ...prev, ...changes, page: 1 }));
+  };
+
   const removeFilter = (key: keyof ProductSearchParams) => {
     setFilters((prev) => {
       const newFilters = { ...prev };
@@ -123,6 +262,11 @@ function useProductFilters(initialFilters: ProductSearchParams = {}) {
     });
   };
 
+  // Cambiar de página conserva los filtros
+  const setPage = (page: number) => {
+    setFilters((prev) => ({ ...prev, page }));
+  };
+
   const clearAllFilters = () => {
     setFilters({ page: 1 });
     setSearchQuery("");
@@ -133,7 +277,9 @@ function useProductFilters(initialFilters: ProductSearchParams = {}) {
     searchQuery,
     updateSearch,
     updateFilter,
+    updateFilters,
     removeFilter,
+    setPage,
     clearAllFilters,
   };
 }
@@ -143,41 +289,92 @@ function useProductFilters(initialFilters: ProductSearchParams = {}) {
  */
 export function ProductGrid({
   initialFilters = {},
+  onFiltersChange,
   showFilters = true,
   showSearch = true,
   showViewToggle = true,
+  defaultLoadMode = "pages",
   className,
   onProductClick,
 }: ProductGridProps) {
   const [viewMode, setViewMode] = useState<"grid" | "list">("grid");
   const [isFiltersOpen, setIsFiltersOpen] = useState(false);
+  const [loadMode, setLoadMode] = useState<LoadMode>(defaultLoadMode);
 
   const {
     filters,
     searchQuery,
     updateSearch,
     updateFilter,
+    updateFilters,
     removeFilter,
+    setPage,
     clearAllFilters,
-  } = useProductFilters(initialFilters);
+  } = useProductFilters(initialFilters, onFiltersChange);
+
+  // Solo se consulta el modo de carga activo
+  const isInfinite = loadMode === "infinite";
 
-  // Query de productos usando FakeStore
-  const fakeStoreParams = {
-    limit: filters.limit || 20,
-    sort: filters.sort === 'price-asc' ? 'asc' as const : 'desc' as const,
+  // Página de productos con los filtros y el orden aplicados
+  const {
+    products: pageProducts,
+    facets: pageFacets,
+    total: pageTotal,
+    currentPage,
+    totalPages,
+    itemsPerPage,
+    isLoading: isPageLoading,
+    error: pageError,
+  } = useProducts(filters, { enabled: !isInfinite });
+
+  // Páginas acumuladas del modo scroll infinito
+  const {
+    products: infiniteProducts,
+    facets: infiniteFacets,
+    total: infiniteTotal,
+    isLoading: isInfiniteLoading,
+    error: infiniteError,
+    hasNextPage,
+    isFetchingNextPage,
+    fetchNextPage,
+  } = useInfiniteProducts(filters, { enabled: isInfinite });
+
+  const products = isInfinite ? infiniteProducts : pageProducts;
+  const facets = isInfinite ? infiniteFacets : pageFacets;
+  const total = isInfinite ? infiniteTotal : pageTotal;
+  const isLoading = isInfinite ? isInfiniteLoading : isPageLoading;
+  const error = isInfinite ? infiniteError : pageError;
+
+  const loadNextPage = useCallback(() => {
+    fetchNextPage();
+  }, [fetchNextPage]);
+
+  /**
+   * Cambia de página y vuelve al inicio del listado
+   */
+  const goToPage = (page: number) => {
+    setPage(page);
+    window.scrollTo({ top: 0, behavior: "smooth" });
+  };
+
+  // Corrección sugerida cuando la búsqueda no encuentra productos
+  const { data: suggestions } = useSearchSuggestions(filters.query ?? "");
+  const didYouMean = suggestions?.didYouMean;
+
+  /**
+   * Agrega o quita una etiqueta del filtro de etiquetas
+   */
+  const toggleTag = (tag: string) => {
+    const tags = filters.tags ?? [];
+    const nextTags = tags.includes(tag)
+      ? tags.filter((t) => t !== tag)
+      : [...tags, tag];
+    if (nextTags.length > 0) {
+      updateFilter("tags", nextTags);
+    } else {
+      removeFilter("tags");
+    }
   };
-  
-  // Always call both hooks to satisfy rules of hooks
-  const { data: allProducts = [], isLoading: isLoadingAll, error: errorAll } = useFakeStoreProducts(fakeStoreParams);
-  const { data: categoryProducts = [], isLoading: isLoadingCategory, error: errorCategory } = useFakeStoreProductsByCategory(
-    filters.category || 'electronics', // Always provide a category
-    fakeStoreParams
-  );
-  
-  // Choose which data to use based on filter
-  const products = filters.category ? categoryProducts : allProducts;
-  const isLoading = filters.category ? isLoadingCategory : isLoadingAll;
-  const error = filters.category ? errorCategory : errorAll;
 
   /**
    * Cuenta los filtros activos
@@ -190,6 +387,8 @@ export function ProductGrid({
       count++;
     if (filters.brand) count++;
     if (filters.rating !== undefined) count++;
+    if (filters.tags && filters.tags.length > 0) count++;
+    if (filters.inStock) count++;
     return count;
   }, [filters]);
 
@@ -215,12 +414,9 @@ export function ProductGrid({
     }
 
     if (filters.category) {
-      const categoryLabel = categoryOptions.find(
-        (c) => c.value === filters.category
-      )?.label;
       activeBadges.push(
         <Badge key="category" variant="secondary" className="gap-1">
-          {categoryLabel}
+          {getCategoryLabel(filters.category)}
           <X
             className="h-3 w-3 cursor-pointer"
             onClick={() => removeFilter("category")}
@@ -232,28 +428,72 @@ export function ProductGrid({
     if (filters.minPrice !== undefined || filters.maxPrice !== undefined) {
       const min = filters.minPrice || 0;
       const max = filters.maxPrice || Infinity;
-      const rangeLabel =
-        max === Infinity ? `Más de $${min}` : `$${min} - $${max}`;
-
       activeBadges.push(
         <Badge key="price" variant="secondary" className="gap-1">
-          {rangeLabel}
+          {getPriceRangeLabel(min, max === Infinity ? undefined : max)}
           <X
             className="h-3 w-3 cursor-pointer"
-            onClick={() => {
-              removeFilter("minPrice");
-              removeFilter("maxPrice");
-            }}
+            onClick={() =>
+              updateFilters({ minPrice: undefined, maxPrice: undefined })
+            }
+          />
+        </Badge>
+      );
+    }
+
+    if (filters.rating !== undefined) {
+      activeBadges.push(
+        <Badge key="rating" variant="secondary" className="gap-1">
+          {filters.rating}+ estrellas
+          <X
+            className="h-3 w-3 cursor-pointer"
+            onClick={() => removeFilter("rating")}
+          />
+        </Badge>
+      );
+    }
+
+    if (filters.brand) {
+      activeBadges.push(
+        <Badge key="brand" variant="secondary" className="gap-1">
+          {filters.brand}
+          <X
+            className="h-3 w-3 cursor-pointer"
+            onClick={() => removeFilter("brand")}
+          />
+        </Badge>
+      );
+    }
+
+    if (filters.inStock) {
+      activeBadges.push(
+        <Badge key="inStock" variant="secondary" className="gap-1">
+          Disponibles
+          <X
+            className="h-3 w-3 cursor-pointer"
+            onClick={() => removeFilter("inStock")}
           />
         </Badge>
       );
     }
 
+    filters.tags?.forEach((tag) => {
+      activeBadges.push(
+        <Badge key={`tag-${tag}`} variant="secondary" className="gap-1">
+          #{tag}
+          <X
+            className="h-3 w-3 cursor-pointer"
+            onClick={() => toggleTag(tag)}
+          />
+        </Badge>
+      );
+    });
+
     return activeBadges;
   };
 
   /**
-   * Renderiza el panel de filtros
+   * Renderiza el panel de filtros con las facetas de la búsqueda
    */
   const renderFiltersPanel = () => (
     <Card className="sticky top-4">
@@ -278,28 +518,15 @@ export function ProductGrid({
         <div>
           <h4 className="font-medium mb-3">Categorías</h4>
           <div className="space-y-2">
-            {categoryOptions.map((category) => (
-              <label
+            {facets?.categories.map((category) => (
+              <FacetRadio
                 key={category.value}
-                className="flex items-center space-x-2 cursor-pointer"
-              >
-                <input
-                  type="radio"
-                  name="category"
-                  value={category.value}
-                  checked={filters.category === category.value}
-                  onChange={(e) => {
-                    if (e.target.checked) {
-                      updateFilter(
-                        "category",
-                        category.value as ProductCategory
-                      );
-                    }
-                  }}
-                  className="text-primary"
-                />
-                <span className="text-sm">{category.label}</span>
-              </label>
+                name="category"
+                label={getCategoryLabel(category.value)}
+                count={category.count}
+                checked={filters.category === category.value}
+                onSelect={() => updateFilter("category", category.value)}
+              />
             ))}
           </div>
         </div>
@@ -308,34 +535,20 @@ export function ProductGrid({
         <div>
           <h4 className="font-medium mb-3">Precio</h4>
           <div className="space-y-2">
-            {priceRanges.map((range, index) => (
-              <label
-                key={index}
-                className="flex items-center space-x-2 cursor-pointer"
-              >
-                <input
-                  type="radio"
-                  name="price"
-                  checked={
-                    filters.minPrice === range.min &&
-                    (range.max === Infinity
-                      ? !filters.maxPrice
-                      : filters.maxPrice === range.max)
-                  }
-                  onChange={(e) => {
-                    if (e.target.checked) {
-                      updateFilter("minPrice", range.min);
-                      if (range.max !== Infinity) {
-                        updateFilter("maxPrice", range.max);
-                      } else {
-                        removeFilter("maxPrice");
-                      }
-                    }
-                  }}
-                  className="text-primary"
-                />
-                <span className="text-sm">{range.label}</span>
-              </label>
+            {facets?.priceRanges.map((range) => (
+              <FacetRadio
+                key={range.min}
+                name="price"
+                label={getPriceRangeLabel(range.min, range.max)}
+                count={range.count}
+                checked={
+                  filters.minPrice === range.min &&
+                  filters.maxPrice === range.max
+                }
+                onSelect={() =>
+                  updateFilters({ minPrice: range.min, maxPrice: range.max })
+                }
+              />
             ))}
           </div>
         </div>
@@ -344,28 +557,80 @@ export function ProductGrid({
         <div>
           <h4 className="font-medium mb-3">Valoración mínima</h4>
           <div className="space-y-2">
-            {[4, 3, 2, 1].map((rating) => (
-              <label
-                key={rating}
-                className="flex items-center space-x-2 cursor-pointer"
-              >
-                <input
-                  type="radio"
-                  name="rating"
-                  value={rating}
-                  checked={filters.rating === rating}
-                  onChange={(e) => {
-                    if (e.target.checked) {
-                      updateFilter("rating", rating);
-                    }
-                  }}
-                  className="text-primary"
-                />
-                <span className="text-sm">{rating}+ estrellas</span>
-              </label>
+            {facets?.ratings.map((rating) => (
+              <FacetRadio
+                key={rating.value}
+                name="rating"
+                label={`${rating.value}+ estrellas`}
+                count={rating.count}
+                checked={filters.rating === rating.value}
+                onSelect={() => updateFilter("rating", rating.value)}
+              />
             ))}
           </div>
         </div>
+
+        {/* Disponibilidad */}
+        <div>
+          <h4 className="font-medium mb-3">Disponibilidad</h4>
+          <label className="flex items-center space-x-2 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={!!filters.inStock}
+              onChange={(e) =>
+                e.target.checked
+                  ? updateFilter("inStock", true)
+                  : removeFilter("inStock")
+              }
+              className="text-primary"
+            />
+            <span className="text-sm">Solo productos disponibles</span>
+          </label>
+        </div>
+
+        {/* Marcas (solo si hay más de una) */}
+        {facets && facets.brands.length > 1 && (
+          <div>
+            <h4 className="font-medium mb-3">Marca</h4>
+            <div className="space-y-2">
+              {facets.brands.map((brand) => (
+                <FacetRadio
+                  key={brand.value}
+                  name="brand"
+                  label={brand.value}
+                  count={brand.count}
+                  checked={filters.brand === brand.value}
+                  onSelect={() => updateFilter("brand", brand.value)}
+                />
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Etiquetas más usadas */}
+        {facets && facets.tags.length > 0 && (
+          <div>
+            <h4 className="font-medium mb-3">Etiquetas</h4>
+            <div className="flex flex-wrap gap-2">
+              {facets.tags.slice(0, MAX_TAG_OPTIONS).map((tag) => {
+                const isSelected = !!filters.tags?.includes(tag.value);
+                return (
+                  <Button
+                    key={tag.value}
+                    size="sm"
+                    variant={isSelected ? "default" : "outline"}
+                    className="h-7 px-2 text-xs"
+                    disabled={tag.count === 0 && !isSelected}
+                    aria-pressed={isSelected}
+                    onClick={() => toggleTag(tag.value)}
+                  >
+                    {tag.value} ({tag.count})
+                  </Button>
+                );
+              })}
+            </div>
+          </div>
+        )}
       </CardContent>
     </Card>
   );
@@ -447,6 +712,20 @@ export function ProductGrid({
             ))}
           </select>
 
+          {/* Modo de carga */}
+          <select
+            value={loadMode}
+            onChange={(e) => setLoadMode(e.target.value as LoadMode)}
+            className="px-3 py-2 text-sm border rounded-md bg-background"
+            aria-label="Modo de carga de productos"
+          >
+            {loadModeOptions.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+
           {/* Toggle de vista */}
           {showViewToggle && (
             <div className="flex border rounded-md">
@@ -483,7 +762,15 @@ export function ProductGrid({
 
       {/* Resultados info */}
       <div className="flex items-center justify-between text-sm text-muted-foreground">
-        <span>Mostrando {products.length} productos</span>
+        <span>
+          {total === 0
+            ? "Sin resultados"
+            : isInfinite
+            ? `Mostrando ${products.length} de ${total} productos`
+            : `Mostrando ${(currentPage - 1) * itemsPerPage + 1}-${
+                (currentPage - 1) * itemsPerPage + products.length
+              } de ${total} productos`}
+        </span>
       </div>
 
       {/* Layout principal */}
@@ -519,30 +806,89 @@ export function ProductGrid({
               <p className="text-muted-foreground mb-4">
                 Intenta ajustar los filtros o términos de búsqueda.
               </p>
+              {didYouMean && (
+                <p className="mb-4">
+                  ¿Quisiste decir{" "}
+                  <button
+                    type="button"
+                    onClick={() => updateSearch(didYouMean)}
+                    className="font-medium text-primary hover:underline"
+                  >
+                    {didYouMean}
+                  </button>
+                  ?
+                </p>
+              )}
               <Button variant="outline" onClick={clearAllFilters}>
                 Limpiar filtros
               </Button>
             </div>
           ) : (
-            <motion.div
-              className={cn(
-                viewMode === "grid"
-                  ? "grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6"
-                  : "space-y-4"
-              )}
-              layout
+            <VirtualProductGrid
+              products={products}
+              viewMode={viewMode}
+              onProductClick={onProductClick}
+            />
+          )}
+
+          {/* Scroll infinito: siguiente página al llegar al final */}
+          {isInfinite && !isLoading && products.length > 0 && (
+            <div className="mt-4 text-center text-sm text-muted-foreground">
+              <LoadMoreTrigger
+                onVisible={loadNextPage}
+                disabled={!hasNextPage || isFetchingNextPage}
+              />
+              {isFetchingNextPage
+                ? "Cargando más productos..."
+                : !hasNextPage && "Ya viste todos los productos"}
+            </div>
+          )}
+
+          {/* Paginación */}
+          {!isInfinite && !isLoading && totalPages > 1 && (
+            <nav
+              aria-label="Paginación"
+              className="flex items-center justify-center gap-1 mt-8"
             >
-              <AnimatePresence>
-                {products.map((product: Product) => (
-                  <ProductCard
-                    key={product.id}
-                    product={product}
-                    onProductClick={onProductClick}
-                    size={viewMode === "list" ? "sm" : "md"}
-                  />
-                ))}
-              </AnimatePresence>
-            </motion.div>
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={currentPage <= 1}
+                onClick={() => goToPage(currentPage - 1)}
+                aria-label="Página anterior"
+              >
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              {getPageNumbers(currentPage, totalPages).map((page, index) =>
+                page === null ? (
+                  <span
+                    key={`gap-${index}`}
+                    className="px-2 text-muted-foreground"
+                  >
+                    …
+                  </span>
+                ) : (
+                  <Button
+                    key={page}
+                    variant={page === currentPage ? "default" : "outline"}
+                    size="sm"
+                    onClick={() => goToPage(page)}
+                    aria-current={page === currentPage ? "page" : undefined}
+                  >
+                    {page}
+                  </Button>
+                )
+              )}
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={currentPage >= totalPages}
+                onClick={() => goToPage(currentPage + 1)}
+                aria-label="Página siguiente"
+              >
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+            </nav>
           )}
         </div>
       </div>
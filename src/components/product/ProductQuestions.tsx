@@ -0,0 +1,341 @@
+/**
+ * Componente ProductQuestions - Preguntas y respuestas de un producto
+ *
+ * CONCEPTOS CLAVE:
+ * 1. Pre-sale Questions - Dudas de los clientes antes de comprar
+ * 2. Community Answers - Respuestas de otros usuarios y de la tienda
+ * 3. Upvotes - Las respuestas más votadas aparecen primero
+ * 4. Moderation - Los administradores ocultan o eliminan contenido
+ */
+
+import { useState } from "react";
+import {
+  Eye,
+  EyeOff,
+  MessageCircleQuestion,
+  ShieldCheck,
+  ThumbsUp,
+  Trash2,
+} from "lucide-react";
+
+import { Button } from "../ui/button";
+import { Badge } from "../ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "../ui/card";
+import { Spinner } from "../ui/loading";
+
+import { useAuth } from "../../hooks/use-auth";
+import {
+  useAnswerQuestion,
+  useAskQuestion,
+  useDeleteQuestion,
+  useModerateQuestion,
+  useProductQuestions,
+  useToggleAnswerUpvote,
+} from "../../hooks/use-questions";
+
+import { formatDate } from "../../lib/utils";
+import {
+  canModerateQA,
+  QA_CONSTANTS,
+  type ProductAnswer,
+  type ProductQuestion,
+  type QAStatus,
+} from "../../types/question";
+
+const textareaClassName =
+  "w-full rounded-md border bg-transparent px-3 py-2 text-sm shadow-xs outline-none focus-visible:ring-[3px] focus-visible:ring-ring/50";
+
+/**
+ * Campo de texto con botón de envío (preguntar o responder)
+ */
+function QAForm({
+  placeholder,
+  submitLabel,
+  maxLength,
+  isPending,
+  error,
+  onSubmit,
+  onCancel,
+}: {
+  placeholder: string;
+  submitLabel: string;
+  maxLength: number;
+  isPending: boolean;
+  error?: Error | null;
+  onSubmit: (body: string, reset: () => void) => void;
+  onCancel?: () => void;
+}) {
+  const [body, setBody] = useState("");
+
+  return (
+    <form
+      className="space-y-2"
+      onSubmit={(e) => {
+        e.preventDefault();
+        onSubmit(body, () => setBody(""));
+      }}
+    >
+      <textarea
+        rows={2}
+        value={body}
+        onChange={(e) => setBody(e.target.value)}
+        placeholder={placeholder}
+        maxLength={maxLength}
+        aria-label={placeholder}
+        className={textareaClassName}
+      />
+      {error && <p className="text-sm text-destructive">{error.message}</p>}
+      <div className="flex justify-end gap-2">
+        {onCancel && (
+          <Button type="button" size="sm" variant="ghost" onClick={onCancel}>
+            Cancelar
+          </Button>
+        )}
+        <Button type="submit" size="sm" disabled={isPending || !body.trim()}>
+          {submitLabel}
+        </Button>
+      </div>
+    </form>
+  );
+}
+
+/**
+ * Botón para ocultar o publicar contenido (administradores)
+ */
+function ModerationToggle({
+  status,
+  onChange,
+}: {
+  status: QAStatus;
+  onChange: (status: QAStatus) => void;
+}) {
+  const isHidden = status === "hidden";
+
+  return (
+    <Button
+      size="sm"
+      variant="ghost"
+      onClick={() => onChange(isHidden ? "published" : "hidden")}
+    >
+      {isHidden ? <Eye className="h-3 w-3" /> : <EyeOff className="h-3 w-3" />}
+      {isHidden ? "Publicar" : "Ocultar"}
+    </Button>
+  );
+}
+
+/**
+ * Respuesta con su voto y controles de moderación
+ */
+function AnswerItem({
+  question,
+  answer,
+}: {
+  question: ProductQuestion;
+  answer: ProductAnswer;
+}) {
+  const { user } = useAuth();
+  const toggleUpvote = useToggleAnswerUpvote();
+  const moderate = useModerateQuestion();
+
+  const isOwnAnswer = answer.userId === user?.id;
+  const hasVoted = !!user && answer.upvoters.includes(user.id);
+
+  return (
+    <li className="space-y-1 border-l-2 pl-3">
+      <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+        <span className="font-medium text-foreground">{answer.userName}</span>
+        {answer.isStaff && (
+          <Badge variant="info" className="text-xs">
+            <ShieldCheck className="h-3 w-3 mr-1" />
+            Tienda
+          </Badge>
+        )}
+        {answer.status === "hidden" && (
+          <Badge variant="muted" className="text-xs">
+            Oculta
+          </Badge>
+        )}
+        <span>{formatDate(answer.createdAt)}</span>
+      </div>
+      <p className="text-sm whitespace-pre-line">{answer.body}</p>
+      <div className="flex items-center gap-1">
+        <Button
+          size="sm"
+          variant={hasVoted ? "secondary" : "ghost"}
+          disabled={!user || isOwnAnswer || toggleUpvote.isPending}
+          onClick={() =>
+            toggleUpvote.mutate({
+              questionId: question.id,
+              answerId: answer.id,
+            })
+          }
+        >
+          <ThumbsUp className="h-3 w-3" />
+          {answer.upvoters.length}
+        </Button>
+        {canModerateQA(user) && (
+          <ModerationToggle
+            status={answer.status}
+            onChange={(status) =>
+              moderate.mutate({
+                questionId: question.id,
+                answerId: answer.id,
+                status,
+              })
+            }
+          />
+        )}
+      </div>
+    </li>
+  );
+}
+
+/**
+ * Pregunta con sus respuestas
+ */
+function QuestionItem({ question }: { question: ProductQuestion }) {
+  const { user } = useAuth();
+  const answerQuestion = useAnswerQuestion();
+  const moderate = useModerateQuestion();
+  const deleteQuestion = useDeleteQuestion();
+  const [isAnswering, setIsAnswering] = useState(false);
+
+  const isModerator = canModerateQA(user);
+  // Quien pregunta no se responde a sí mismo, salvo la tienda
+  const canAnswer = !!user && (question.userId !== user.id || isModerator);
+
+  return (
+    <li className="py-4 space-y-3">
+      <div>
+        <div className="flex flex-wrap items-start justify-between gap-2">
+          <p className="font-medium">{question.body}</p>
+          {question.status === "hidden" && (
+            <Badge variant="muted" className="text-xs">
+              Oculta
+            </Badge>
+          )}
+        </div>
+        <p className="text-xs text-muted-foreground">
+          {question.userName} · {formatDate(question.createdAt)}
+        </p>
+      </div>
+
+      {question.answers.length > 0 ? (
+        <ul className="space-y-3">
+          {question.answers.map((answer) => (
+            <AnswerItem key={answer.id} question={question} answer={answer} />
+          ))}
+        </ul>
+      ) : (
+        <p className="text-sm text-muted-foreground">
+          Aún no hay respuestas
+        </p>
+      )}
+
+      {isAnswering ? (
+        <QAForm
+          placeholder="Escribe tu respuesta"
+          submitLabel="Responder"
+          maxLength={QA_CONSTANTS.MAX_ANSWER_LENGTH}
+          isPending={answerQuestion.isPending}
+          error={answerQuestion.error}
+          onCancel={() => setIsAnswering(false)}
+          onSubmit={(body, reset) =>
+            answerQuestion.mutate(
+              { questionId: question.id, body },
+              {
+                onSuccess: () => {
+                  reset();
+                  setIsAnswering(false);
+                },
+              }
+            )
+          }
+        />
+      ) : (
+        <div className="flex flex-wrap gap-1">
+          {canAnswer && (
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => setIsAnswering(true)}
+            >
+              Responder
+            </Button>
+          )}
+          {isModerator && (
+            <>
+              <ModerationToggle
+                status={question.status}
+                onChange={(status) =>
+                  moderate.mutate({ questionId: question.id, status })
+                }
+              />
+              <Button
+                size="sm"
+                variant="ghost"
+                className="text-destructive hover:text-destructive"
+                disabled={deleteQuestion.isPending}
+                onClick={() => deleteQuestion.mutate(question.id)}
+              >
+                <Trash2 className="h-3 w-3" />
+                Eliminar
+              </Button>
+            </>
+          )}
+        </div>
+      )}
+    </li>
+  );
+}
+
+export function ProductQuestions({ productId }: { productId: string }) {
+  const { user } = useAuth();
+  const { data: questions = [], isLoading } = useProductQuestions(productId);
+  const askQuestion = useAskQuestion(productId);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <MessageCircleQuestion className="h-5 w-5" />
+          Preguntas y Respuestas ({questions.length})
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {user ? (
+          <QAForm
+            placeholder="¿Tienes dudas sobre tallas, compatibilidad o envío?"
+            submitLabel="Preguntar"
+            maxLength={QA_CONSTANTS.MAX_QUESTION_LENGTH}
+            isPending={askQuestion.isPending}
+            error={askQuestion.error}
+            onSubmit={(body, reset) =>
+              askQuestion.mutate(body, { onSuccess: reset })
+            }
+          />
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            Inicia sesión para hacer una pregunta
+          </p>
+        )}
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Spinner />
+          </div>
+        ) : questions.length === 0 ? (
+          <p className="text-center text-muted-foreground py-8">
+            Nadie ha preguntado todavía. ¡Haz la primera pregunta!
+          </p>
+        ) : (
+          <ul className="divide-y">
+            {questions.map((question) => (
+              <QuestionItem key={question.id} question={question} />
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
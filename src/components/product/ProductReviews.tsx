@@ -0,0 +1,416 @@
+/**
+ * Componente ProductReviews - Reseñas y calificaciones de un producto
+ *
+ * CONCEPTOS CLAVE:
+ * 1. Rating Histogram - Distribución de estrellas que también filtra
+ * 2. Sorting & Filtering - Orden, estrellas y compras verificadas
+ * 3. Review Form - Reseña del usuario autenticado
+ * 4. Helpful Votes - Votos "útil" de otros usuarios
+ */
+
+import { useState } from "react";
+import { BadgeCheck, Star, ThumbsUp, Users } from "lucide-react";
+
+import { Button } from "../ui/button";
+import { Badge } from "../ui/badge";
+import { Input } from "../ui/input";
+import { Card, CardContent, CardHeader, CardTitle } from "../ui/card";
+import { Spinner } from "../ui/loading";
+
+import { useAuth } from "../../hooks/use-auth";
+import {
+  useCreateReview,
+  useProductReviews,
+  useRatingSummary,
+  useToggleReviewHelpful,
+} from "../../hooks/use-reviews";
+
+import { cn, formatDate } from "../../lib/utils";
+import type { Product } from "../../types/product";
+import {
+  applyRatingSummary,
+  REVIEW_CONSTANTS,
+  REVIEW_SORT_LABELS,
+  type RatingSummary,
+  type ReviewFilters,
+  type ReviewSortOption,
+  type StoredReview,
+} from "../../types/review";
+
+/**
+ * Estrellas de una calificación
+ */
+function RatingStars({
+  rating,
+  className,
+}: {
+  rating: number;
+  className?: string;
+}) {
+  return (
+    <div className="flex items-center gap-0.5">
+      {Array.from({ length: REVIEW_CONSTANTS.MAX_RATING }, (_, i) => (
+        <Star
+          key={i}
+          className={cn(
+            "h-4 w-4",
+            i < Math.round(rating)
+              ? "fill-yellow-400 text-yellow-400"
+              : "text-muted-foreground",
+            className
+          )}
+        />
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Distribución de calificaciones; cada fila filtra por sus estrellas
+ */
+function RatingHistogram({
+  product,
+  summary,
+  selectedRating,
+  onSelectRating,
+}: {
+  product: Product;
+  summary: RatingSummary;
+  selectedRating?: number;
+  onSelectRating: (rating?: number) => void;
+}) {
+  const ratings = [5, 4, 3, 2, 1];
+  // Promedio y total calculados con las mismas reseñas que las barras
+  const { rating: average, reviewCount } = applyRatingSummary(
+    product,
+    summary
+  );
+
+  return (
+    <div className="grid gap-6 sm:grid-cols-[auto_1fr] sm:items-center">
+      <div className="text-center">
+        <div className="text-4xl font-bold">{average.toFixed(1)}</div>
+        <RatingStars rating={average} />
+        <div className="text-sm text-muted-foreground mt-1">
+          {reviewCount} calificaciones
+        </div>
+      </div>
+
+      <div className="space-y-1">
+        {ratings.map((rating) => {
+          const count = summary.histogram[rating] ?? 0;
+          const percentage =
+            summary.count > 0 ? (count / summary.count) * 100 : 0;
+          const isSelected = selectedRating === rating;
+
+          return (
+            <button
+              key={rating}
+              type="button"
+              disabled={count === 0}
+              onClick={() => onSelectRating(isSelected ? undefined : rating)}
+              className={cn(
+                "flex w-full items-center gap-2 rounded px-1 text-sm",
+                "hover:bg-muted disabled:cursor-default disabled:hover:bg-transparent",
+                isSelected && "bg-muted font-medium"
+              )}
+              aria-pressed={isSelected}
+            >
+              <span className="w-6 text-right">{rating}</span>
+              <Star className="h-3 w-3 fill-yellow-400 text-yellow-400" />
+              <div className="h-2 flex-1 overflow-hidden rounded-full bg-muted">
+                <div
+                  className="h-full bg-yellow-400"
+                  style={{ width: `${percentage}%` }}
+                />
+              </div>
+              <span className="w-8 text-right text-muted-foreground">
+                {count}
+              </span>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Formulario para escribir una reseña
+ */
+function ReviewForm({
+  productId,
+  onDone,
+}: {
+  productId: string;
+  onDone: () => void;
+}) {
+  const createReview = useCreateReview();
+  const [rating, setRating] = useState(0);
+  const [hoverRating, setHoverRating] = useState(0);
+  const [title, setTitle] = useState("");
+  const [comment, setComment] = useState("");
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    createReview.mutate(
+      { productId, rating, title, comment },
+      { onSuccess: onDone }
+    );
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4 rounded-lg border p-4">
+      <div>
+        <p className="text-sm font-medium mb-1">Tu calificación</p>
+        <div
+          className="flex gap-1"
+          role="radiogroup"
+          aria-label="Calificación"
+          onMouseLeave={() => setHoverRating(0)}
+        >
+          {Array.from({ length: REVIEW_CONSTANTS.MAX_RATING }, (_, i) => (
+            <button
+              key={i}
+              type="button"
+              role="radio"
+              aria-checked={rating === i + 1}
+              aria-label={`${i + 1} estrellas`}
+              onClick={() => setRating(i + 1)}
+              onMouseEnter={() => setHoverRating(i + 1)}
+            >
+              <Star
+                className={cn(
+                  "h-6 w-6",
+                  i < (hoverRating || rating)
+                    ? "fill-yellow-400 text-yellow-400"
+                    : "text-muted-foreground"
+                )}
+              />
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <Input
+        value={title}
+        onChange={(e) => setTitle(e.target.value)}
+        placeholder="Título de tu reseña"
+        maxLength={REVIEW_CONSTANTS.MAX_TITLE_LENGTH}
+        aria-label="Título"
+      />
+      <textarea
+        rows={4}
+        value={comment}
+        onChange={(e) => setComment(e.target.value)}
+        placeholder="¿Qué te pareció el producto?"
+        maxLength={REVIEW_CONSTANTS.MAX_COMMENT_LENGTH}
+        aria-label="Comentario"
+        className="w-full rounded-md border bg-transparent px-3 py-2 text-sm shadow-xs outline-none focus-visible:ring-[3px] focus-visible:ring-ring/50"
+      />
+
+      {createReview.error && (
+        <p className="text-sm text-destructive">
+          {createReview.error.message}
+        </p>
+      )}
+
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="ghost" onClick={onDone}>
+          Cancelar
+        </Button>
+        <Button type="submit" disabled={createReview.isPending}>
+          {createReview.isPending ? "Publicando..." : "Publicar reseña"}
+        </Button>
+      </div>
+    </form>
+  );
+}
+
+/**
+ * Reseña individual con su voto "útil"
+ */
+function ReviewItem({
+  review,
+  currentUserId,
+}: {
+  review: StoredReview;
+  currentUserId?: string;
+}) {
+  const toggleHelpful = useToggleReviewHelpful();
+  const isOwnReview = review.userId === currentUserId;
+  const hasVoted =
+    !!currentUserId && review.helpfulVoters.includes(currentUserId);
+
+  return (
+    <li className="py-4 space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <RatingStars rating={review.rating} />
+        <span className="font-medium">{review.title}</span>
+      </div>
+      <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+        <span>{review.userName}</span>
+        <span>·</span>
+        <span>{formatDate(review.date)}</span>
+        {review.verified && (
+          <Badge variant="success" className="text-xs">
+            <BadgeCheck className="h-3 w-3 mr-1" />
+            Compra verificada
+          </Badge>
+        )}
+      </div>
+      <p className="text-sm whitespace-pre-line">{review.comment}</p>
+      <Button
+        size="sm"
+        variant={hasVoted ? "secondary" : "ghost"}
+        disabled={!currentUserId || isOwnReview || toggleHelpful.isPending}
+        onClick={() => toggleHelpful.mutate(review.id)}
+        title={
+          !currentUserId
+            ? "Inicia sesión para votar"
+            : isOwnReview
+              ? "No puedes votar tu propia reseña"
+              : undefined
+        }
+      >
+        <ThumbsUp className="h-3 w-3" />
+        Útil ({review.helpful})
+      </Button>
+    </li>
+  );
+}
+
+export function ProductReviews({ product }: { product: Product }) {
+  const { user } = useAuth();
+  const [filters, setFilters] = useState<ReviewFilters>({ sortBy: "recent" });
+  const [showForm, setShowForm] = useState(false);
+
+  const { data: summary } = useRatingSummary(product.id);
+  const { data: reviews = [], isLoading } = useProductReviews(
+    product.id,
+    filters
+  );
+  const { data: allReviews = [] } = useProductReviews(product.id);
+
+  const hasReviewed = allReviews.some((review) => review.userId === user?.id);
+  const sortOptions = Object.entries(REVIEW_SORT_LABELS) as [
+    ReviewSortOption,
+    string,
+  ][];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Users className="h-5 w-5" />
+          Reseñas de Clientes ({summary?.count ?? 0})
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {summary && (
+          <RatingHistogram
+            product={product}
+            summary={summary}
+            selectedRating={filters.rating}
+            onSelectRating={(rating) =>
+              setFilters((prev) => ({ ...prev, rating }))
+            }
+          />
+        )}
+
+        {/* Escribir reseña */}
+        {!user ? (
+          <p className="text-sm text-muted-foreground">
+            Inicia sesión para escribir una reseña
+          </p>
+        ) : hasReviewed ? (
+          <p className="text-sm text-muted-foreground">
+            Ya escribiste una reseña para este producto
+          </p>
+        ) : showForm ? (
+          <ReviewForm
+            productId={product.id}
+            onDone={() => setShowForm(false)}
+          />
+        ) : (
+          <Button variant="outline" onClick={() => setShowForm(true)}>
+            Escribir una reseña
+          </Button>
+        )}
+
+        {/* Orden y filtros */}
+        {(summary?.count ?? 0) > 0 && (
+          <div className="flex flex-wrap items-center gap-3">
+            <select
+              value={filters.sortBy}
+              onChange={(e) =>
+                setFilters((prev) => ({
+                  ...prev,
+                  sortBy: e.target.value as ReviewSortOption,
+                }))
+              }
+              className="h-9 rounded-md border bg-transparent px-3 text-sm"
+              aria-label="Ordenar reseñas"
+            >
+              {sortOptions.map(([value, label]) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={!!filters.verifiedOnly}
+                onChange={(e) =>
+                  setFilters((prev) => ({
+                    ...prev,
+                    verifiedOnly: e.target.checked,
+                  }))
+                }
+              />
+              Solo compras verificadas
+            </label>
+            {filters.rating && (
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() =>
+                  setFilters((prev) => ({ ...prev, rating: undefined }))
+                }
+              >
+                Quitar filtro de {filters.rating} estrellas
+              </Button>
+            )}
+          </div>
+        )}
+
+        {/* Listado */}
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Spinner />
+          </div>
+        ) : reviews.length === 0 ? (
+          <div className="text-center py-8">
+            <Star className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+            <p className="text-muted-foreground">
+              {(summary?.count ?? 0) > 0
+                ? "Ninguna reseña coincide con los filtros"
+                : "Todavía no hay reseñas. ¡Sé el primero en opinar!"}
+            </p>
+          </div>
+        ) : (
+          <ul className="divide-y">
+            {reviews.map((review) => (
+              <ReviewItem
+                key={review.id}
+                review={review}
+                currentUserId={user?.id}
+              />
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
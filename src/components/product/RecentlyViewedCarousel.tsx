@@ -0,0 +1,95 @@
+/**
+ * Componente RecentlyViewedCarousel - Carrusel de productos vistos
+ *
+ * CONCEPTOS CLAVE:
+ * 1. Browsing History - Productos abiertos por el usuario, del más reciente
+ * 2. Carousel - Desplazamiento horizontal con flechas y gestos táctiles
+ * 3. Exclusion - Puede omitir el producto que se está viendo
+ * 4. Self Hiding - Sin historial el carrusel no se muestra
+ */
+
+import { History } from "lucide-react";
+
+import { ProductCard } from "./ProductCard";
+import { Button } from "../ui/button";
+import {
+  Carousel,
+  CarouselContent,
+  CarouselItem,
+  CarouselNext,
+  CarouselPrevious,
+} from "../ui/carousel";
+
+import { useRecentlyViewed } from "../../hooks/use-recently-viewed";
+import type { Product } from "../../types/product";
+
+/**
+ * Props del RecentlyViewedCarousel
+ */
+interface RecentlyViewedCarouselProps {
+  title?: string;
+  description?: string;
+  excludeProductId?: string; // Producto a omitir (el que se está viendo)
+  onProductClick?: (product: Product) => void;
+  className?: string;
+}
+
+/**
+ * Componente principal RecentlyViewedCarousel
+ */
+export function RecentlyViewedCarousel({
+  title = "Vistos recientemente",
+  description = "Retoma los productos que estuviste mirando",
+  excludeProductId,
+  onProductClick,
+  className,
+}: RecentlyViewedCarouselProps) {
+  const { products, clearRecentlyViewed } = useRecentlyViewed();
+
+  const visibleProducts = products.filter(
+    (product) => product.id !== excludeProductId
+  );
+
+  if (visibleProducts.length === 0) {
+    return null;
+  }
+
+  return (
+    <section aria-label={title} className={className}>
+      <Carousel opts={{ align: "start" }}>
+        {/* Encabezado con las flechas del carrusel */}
+        <div className="flex flex-wrap items-end justify-between gap-4 mb-6">
+          <div>
+            <h2 className="text-2xl font-bold mb-2 flex items-center gap-2">
+              <History className="h-6 w-6 text-primary" />
+              {title}
+            </h2>
+            <p className="text-muted-foreground">{description}</p>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button variant="ghost" size="sm" onClick={clearRecentlyViewed}>
+              Borrar historial
+            </Button>
+            <CarouselPrevious className="static translate-x-0 translate-y-0" />
+            <CarouselNext className="static translate-x-0 translate-y-0" />
+          </div>
+        </div>
+
+        <CarouselContent>
+          {visibleProducts.map((product) => (
+            <CarouselItem
+              key={product.id}
+              className="basis-full sm:basis-1/2 lg:basis-1/3 xl:basis-1/4"
+            >
+              <ProductCard
+                product={product}
+                onProductClick={onProductClick}
+                size="sm"
+              />
+            </CarouselItem>
+          ))}
+        </CarouselContent>
+      </Carousel>
+    </section>
+  );
+}
@@ -0,0 +1,105 @@
+/**
+ * Componente VariantSelector - Selector de variantes de producto
+ *
+ * Muestra un grupo de opciones por cada nombre de variante (color,
+ * talla, etc.) y deshabilita las opciones sin stock para la
+ * combinación ya elegida.
+ */
+
+import { cn } from "../../lib/utils";
+import {
+  groupVariants,
+  isVariantOptionAvailable,
+  type VariantSelection,
+} from "../../lib/variants";
+import type { Product } from "../../types/product";
+
+interface VariantSelectorProps {
+  product: Product;
+  selection: VariantSelection;
+  onChange: (selection: VariantSelection) => void;
+  size?: "sm" | "md";
+  className?: string;
+}
+
+export function VariantSelector({
+  product,
+  selection,
+  onChange,
+  size = "md",
+  className,
+}: VariantSelectorProps) {
+  const groups = groupVariants(product.variants);
+
+  if (groups.length === 0) return null;
+
+  return (
+    <div className={cn(size === "sm" ? "space-y-2" : "space-y-4", className)}>
+      {groups.map((group) => {
+        const selected = group.options.find(
+          (v) => v.id === selection[group.name]
+        );
+
+        return (
+          <div key={group.name}>
+            <p
+              className={cn(
+                "font-medium mb-2",
+                size === "sm" ? "text-xs" : "text-sm"
+              )}
+            >
+              {group.name}
+              {selected && (
+                <span className="font-normal text-muted-foreground">
+                  : {selected.value}
+                </span>
+              )}
+            </p>
+            <div
+              role="radiogroup"
+              aria-label={group.name}
+              className="flex flex-wrap gap-2"
+            >
+              {group.options.map((variant) => {
+                const isSelected = selected?.id === variant.id;
+                const isAvailable = isVariantOptionAvailable(
+                  product,
+                  selection,
+                  variant
+                );
+
+                return (
+                  <button
+                    key={variant.id}
+                    type="button"
+                    role="radio"
+                    aria-checked={isSelected}
+                    disabled={!isAvailable}
+                    title={isAvailable ? variant.value : "Agotado"}
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      onChange({ ...selection, [group.name]: variant.id });
+                    }}
+                    className={cn(
+                      "rounded-md border transition-colors",
+                      size === "sm"
+                        ? "px-2 py-0.5 text-xs"
+                        : "px-3 py-1.5 text-sm",
+                      isSelected
+                        ? "border-primary bg-primary text-primary-foreground"
+                        : "hover:border-primary",
+                      !isAvailable &&
+                        "cursor-not-allowed opacity-40 line-through"
+                    )}
+                  >
+                    {variant.value}
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
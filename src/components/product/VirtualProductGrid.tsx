@@ -0,0 +1,119 @@
+/**
+ * Componente VirtualProductGrid - Grid y lista de productos virtualizados
+ *
+ * CONCEPTOS CLAVE:
+ * 1. Windowing - Solo se montan las filas cercanas a la pantalla
+ * 2. Responsive Columns - Columnas según el ancho, como el grid normal
+ * 3. Spacers - Espacio vacío en lugar de las filas no montadas
+ */
+
+import { useEffect, useMemo, useState } from "react";
+
+import { ProductCard } from "./ProductCard";
+import { useVirtualRows } from "../../hooks/use-virtual-rows";
+import { cn } from "../../lib/utils";
+
+import type { Product } from "../../types/product";
+
+/**
+ * Props del VirtualProductGrid
+ */
+interface VirtualProductGridProps {
+  products: Product[];
+  viewMode: "grid" | "list";
+  onProductClick?: (product: Product) => void;
+}
+
+// Alto estimado de una fila antes de medirla (px, incluye el espacio)
+const ESTIMATED_ROW_HEIGHT = {
+  grid: 480,
+  list: 420,
+} as const;
+
+// Clases de columnas (literales para que Tailwind las genere)
+const GRID_COLUMN_CLASSES = [
+  "grid-cols-1",
+  "grid-cols-2",
+  "grid-cols-3",
+  "grid-cols-4",
+];
+
+/**
+ * Columnas del grid según el ancho de la ventana
+ * Mismos puntos de quiebre que sm / lg / xl de Tailwind
+ */
+const getGridColumns = (width: number) =>
+  width >= 1280 ? 4 : width >= 1024 ? 3 : width >= 640 ? 2 : 1;
+
+/**
+ * Hook con el número de columnas para el ancho actual
+ */
+function useGridColumns(viewMode: "grid" | "list") {
+  const [width, setWidth] = useState(() => window.innerWidth);
+
+  useEffect(() => {
+    const handleResize = () => setWidth(window.innerWidth);
+    window.addEventListener("resize", handleResize);
+    return () => window.removeEventListener("resize", handleResize);
+  }, []);
+
+  return viewMode === "grid" ? getGridColumns(width) : 1;
+}
+
+/**
+ * Componente principal VirtualProductGrid
+ */
+export function VirtualProductGrid({
+  products,
+  viewMode,
+  onProductClick,
+}: VirtualProductGridProps) {
+  const columns = useGridColumns(viewMode);
+
+  // Productos agrupados en filas del ancho del grid
+  const rows = useMemo(() => {
+    const result: Product[][] = [];
+    for (let i = 0; i < products.length; i += columns) {
+      result.push(products.slice(i, i + columns));
+    }
+    return result;
+  }, [products, columns]);
+
+  const {
+    containerRef,
+    measureRow,
+    startIndex,
+    endIndex,
+    paddingTop,
+    paddingBottom,
+  } = useVirtualRows({
+    count: rows.length,
+    estimateRowHeight: ESTIMATED_ROW_HEIGHT[viewMode],
+    layoutKey: `${viewMode}-${columns}`,
+  });
+
+  return (
+    <div ref={containerRef} style={{ paddingTop, paddingBottom }}>
+      {rows.slice(startIndex, endIndex).map((row, index) => (
+        <div
+          key={startIndex + index}
+          ref={index === 0 ? measureRow : undefined}
+          className={cn(
+            "grid",
+            viewMode === "grid" ? "gap-6 pb-6" : "pb-4",
+            GRID_COLUMN_CLASSES[columns - 1]
+          )}
+        >
+          {row.map((product) => (
+            <ProductCard
+              key={product.id}
+              product={product}
+              onProductClick={onProductClick}
+              size={viewMode === "list" ? "sm" : "md"}
+            />
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+}
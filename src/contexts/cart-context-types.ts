@@ -6,7 +6,15 @@
  */
 
 import { createContext } from "react";
-import type { CartState, AddToCartPayload } from "../types/cart";
+import type {
+  CartState,
+  CartItem,
+  AddToCartPayload,
+  CouponEvaluation,
+  CartExpiryNotice,
+  CartItemIssue,
+  ShippingInfo,
+} from "../types/cart";
 
 // Interface del contexto
 export interface CartContextValue {
@@ -19,13 +27,30 @@ export interface CartContextValue {
   removeFromCart: (itemId: string) => void;
   updateQuantity: (itemId: string, quantity: number) => void;
   clearCart: () => void;
-  applyCoupon: (coupon: any) => Promise<void> | void;
+  applyCoupon: (code: string) => Promise<CouponEvaluation>; // Valida y aplica un código
   removeCoupon: (couponCode: string) => void;
+  setShipping: (shippingInfo: ShippingInfo) => void; // Dirección y método elegidos
 
   // Estado de error
   error: string | null;
   clearError: () => void;
 
+  // Aviso de carrito vencido (actualizado o vaciado al restaurar)
+  expiryNotice: CartExpiryNotice | null;
+  dismissExpiryNotice: () => void;
+
+  // Revalidación de precios y stock contra el catálogo
+  issues: CartItemIssue[]; // Cambios pendientes de aceptar
+  isRevalidating: boolean;
+  revalidateCart: () => Promise<CartItemIssue[]>;
+  acceptItemChanges: (itemIds?: string[]) => void; // Todos si se omite
+
+  // Guardados para después (no cuentan en el resumen)
+  savedItems: CartItem[];
+  saveForLater: (itemId: string) => void; // Del carrito a guardados
+  moveToCart: (itemId: string) => void; // De guardados al carrito
+  removeSavedItem: (itemId: string) => void;
+
   // Utilidades
   getItemQuantity: (productId: string) => number;
   isInCart: (productId: string) => boolean;
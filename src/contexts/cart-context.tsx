@@ -1,23 +1,46 @@
 /**
  * Proveedor del Carrito de Compras
  *
- * Proporciona funcionalidad completa de carrito con persistencia,
- * cálculos automáticos y manejo de estado optimizado.
+ * Proporciona funcionalidad completa de carrito con persistencia
+ * (sincronizada entre pestañas y, para usuarios con sesión, con el
+ * carrito del servidor), cálculos automáticos y manejo de estado
+ * optimizado.
  */
 
-import { useReducer, useEffect, useState } from "react";
+import { useReducer, useEffect, useRef, useState, useCallback } from "react";
 import type { ReactNode } from "react";
+import { useQueryClient, type QueryClient } from "@tanstack/react-query";
 import type {
   CartState,
   CartItem,
+  CartExpiryNotice,
+  CartItemIssue,
   AddToCartPayload,
   Coupon,
+  CouponEvaluation,
+  ShippingInfo,
 } from "../types/cart";
 import {
   CART_CONSTANTS,
+  DEFAULT_SHIPPING_METHOD,
   calculateCartSummary,
+  createCartItem,
   generateCartItemId,
 } from "../types/cart";
+import { applyCouponStack } from "../lib/coupon-rules";
+import { quoteShippingMethod, requoteShippingInfo } from "../lib/shipping";
+import { calculateCartTax } from "../lib/tax";
+import {
+  applyItemIssues,
+  detectItemIssues,
+  pruneItemIssues,
+  type CatalogSnapshot,
+} from "../lib/cart-revalidation";
+import { fetchFreshProduct } from "../hooks/use-products";
+import { couponService } from "../services/coupon.service";
+import { cartSyncService } from "../services/cart-sync.service";
+import type { FakeStoreCartProduct } from "../types/fakestore";
+import { useAuth } from "../hooks/use-auth";
 import { CartContext, type CartContextValue } from "./cart-context-types";
 
 // Tipos de acciones del carrito
@@ -28,7 +51,17 @@ type CartAction =
   | { type: "CLEAR_CART" }
   | { type: "APPLY_COUPON"; payload: { coupon: Coupon } }
   | { type: "REMOVE_COUPON"; payload: { couponCode: string } }
-  | { type: "RESTORE_CART"; payload: { cart: CartState } };
+  | { type: "SET_SHIPPING"; payload: { shippingInfo: ShippingInfo } }
+  | { type: "RESTORE_CART"; payload: { cart: CartState } }
+  | { type: "MERGE_CART"; payload: { guestCart: CartState } }
+  | { type: "SYNC_CART"; payload: { cart: CartState } }
+  | { type: "HYDRATE_CART"; payload: { items: CartItem[] } }
+  | { type: "SAVE_FOR_LATER"; payload: { itemId: string } }
+  | { type: "MOVE_TO_CART"; payload: { itemId: string } }
+  | { type: "REMOVE_SAVED_ITEM"; payload: { itemId: string } }
+  | { type: "SET_SAVED_ITEMS"; payload: { items: CartItem[] } }
+  | { type: "SET_ITEM_ISSUES"; payload: { issues: CartItemIssue[] } }
+  | { type: "ACCEPT_ITEM_CHANGES"; payload: { itemIds?: string[] } };
 
 // Estado inicial del carrito
 const initialCartState: CartState = {
@@ -37,8 +70,12 @@ const initialCartState: CartState = {
     subtotal: 0,
     shipping: 0,
     tax: 0,
+    taxLines: [],
+    taxBreakdown: [],
+    pricesIncludeTax: false,
     discount: 0,
     couponDiscount: 0,
+    couponBreakdown: [],
     total: 0,
     savings: 0,
     itemCount: 0,
@@ -49,11 +86,197 @@ const initialCartState: CartState = {
   sessionId: crypto.randomUUID(),
 };
 
+/**
+ * Recalcula el resumen del carrito aplicando la política de cupones
+ * contra los items actuales (un cupón que deja de cumplir sus reglas
+ * se conserva, pero no descuenta), re-cotizando el envío elegido
+ * (sin envío elegido, se estima el método por defecto) y calculando
+ * el IVA sobre el valor neto de cada item. Cada cambio renueva el
+ * vencimiento de la sesión del carrito
+ */
+function withSummary(state: CartState, items: CartItem[]): CartState {
+  const appliedCoupons = state.appliedCoupons || [];
+  const shippingInfo = state.shippingInfo
+    ? requoteShippingInfo(state.shippingInfo, items)
+    : undefined;
+  const shippingCost =
+    shippingInfo?.cost ??
+    quoteShippingMethod(DEFAULT_SHIPPING_METHOD, { items }).cost;
+  const { itemDiscounts, ...adjustments } = applyCouponStack(
+    appliedCoupons,
+    items,
+    shippingCost
+  );
+  const taxes = calculateCartTax(items, itemDiscounts);
+
+  return {
+    ...state,
+    items,
+    appliedCoupon: appliedCoupons[0],
+    shippingInfo,
+    issues: pruneItemIssues(state.issues ?? [], items),
+    summary: calculateCartSummary(items, {
+      ...adjustments,
+      ...taxes,
+      shippingCost,
+    }),
+    lastUpdated: new Date().toISOString(),
+    expiresAt: new Date(
+      Date.now() + CART_CONSTANTS.SESSION_TIMEOUT * 60 * 1000
+    ).toISOString(),
+  };
+}
+
+/**
+ * Forma en que se guarda el carrito en localStorage
+ * Los guardados para después se persisten aparte
+ */
+function serializeCart(cart: CartState): string {
+  return JSON.stringify({ ...cart, savedForLater: undefined });
+}
+
+/**
+ * Aplica el vencimiento de sesión a un carrito guardado
+ * Un carrito vencido se actualiza (sin cupones ni envío elegido, que
+ * deben volver a validarse) y, si lleva demasiado tiempo vencido,
+ * se vacía
+ * @returns Carrito resultante y el aviso para el usuario, si aplica
+ */
+function resolveCartExpiry(
+  cart: CartState,
+  now: number = Date.now()
+): { cart: CartState; notice: CartExpiryNotice | null } {
+  if (cart.items.length === 0) return { cart, notice: null };
+
+  // Carritos guardados antes de existir expiresAt vencen según lastUpdated
+  const expiresAt = cart.expiresAt
+    ? new Date(cart.expiresAt).getTime()
+    : new Date(cart.lastUpdated).getTime() +
+      CART_CONSTANTS.SESSION_TIMEOUT * 60 * 1000;
+  if (Number.isNaN(expiresAt) || expiresAt > now) {
+    return { cart, notice: null };
+  }
+
+  const expiredAt = new Date(expiresAt).toISOString();
+
+  if (now - expiresAt > CART_CONSTANTS.EXPIRED_CART_RETENTION * 60 * 1000) {
+    return {
+      cart: {
+        ...initialCartState,
+        sessionId: crypto.randomUUID(),
+        userId: cart.userId,
+        lastUpdated: new Date(now).toISOString(),
+      },
+      notice: {
+        type: "purged",
+        message:
+          "Vaciamos tu carrito porque estuvo inactivo por mucho tiempo",
+        expiredAt,
+      },
+    };
+  }
+
+  return {
+    // Actualizar el carrito es un cambio real: abre una sesión nueva
+    cart: {
+      ...cart,
+      appliedCoupons: [],
+      shippingInfo: undefined,
+      lastUpdated: new Date(now).toISOString(),
+      expiresAt: undefined,
+    },
+    notice: {
+      type: "refreshed",
+      message:
+        cart.appliedCoupons.length > 0
+          ? "Tu carrito estuvo inactivo: actualizamos los totales y quitamos los cupones aplicados"
+          : "Tu carrito estuvo inactivo: actualizamos los totales",
+      expiredAt,
+    },
+  };
+}
+
+/**
+ * Fusiona los items de dos carritos sin duplicar productos/variantes
+ * Las cantidades se suman respetando el máximo por item y el precio
+ * se conserva del item que ya estaba en el carrito del usuario
+ */
+function mergeCartItems(
+  userItems: CartItem[],
+  guestItems: CartItem[]
+): CartItem[] {
+  const merged = new Map<string, CartItem>();
+
+  [...userItems, ...guestItems].forEach((item) => {
+    const itemId = generateCartItemId(
+      item.productId,
+      item.selectedVariant?.id
+    );
+    const existing = merged.get(itemId);
+    const quantity = Math.min(
+      (existing?.quantity ?? 0) + item.quantity,
+      CART_CONSTANTS.MAX_QUANTITY_PER_ITEM
+    );
+    const base = existing ?? item;
+    const totalPrice = base.unitPrice * quantity;
+
+    merged.set(itemId, {
+      ...base,
+      id: itemId,
+      quantity,
+      totalPrice,
+      subtotal: totalPrice, // Alias para totalPrice
+    });
+  });
+
+  return [...merged.values()].slice(0, CART_CONSTANTS.MAX_ITEMS);
+}
+
+/**
+ * Reconstruye los items a partir del carrito del servidor
+ * Los productos que ya estaban en el carrito local conservan su variante
+ * y su precio; los demás se consultan en el catálogo
+ */
+async function resolveServerCartItems(
+  products: FakeStoreCartProduct[],
+  localItems: CartItem[],
+  queryClient: QueryClient
+): Promise<CartItem[]> {
+  const resolved = await Promise.all(
+    products.map(async ({ productId, quantity }) => {
+      const matches = localItems.filter(
+        (item) => item.productId === String(productId)
+      );
+      const localQuantity = matches.reduce((sum, i) => sum + i.quantity, 0);
+      if (localQuantity === quantity) return matches;
+
+      const [first] = matches;
+      if (first) {
+        const totalPrice = first.unitPrice * quantity;
+        return [{ ...first, quantity, totalPrice, subtotal: totalPrice }];
+      }
+
+      try {
+        const product = await fetchFreshProduct(
+          queryClient,
+          String(productId)
+        );
+        return product ? [createCartItem({ product, quantity })] : [];
+      } catch (error) {
+        console.error("Error loading server cart product:", error);
+        return [];
+      }
+    })
+  );
+
+  return resolved.flat();
+}
+
 // Reducer del carrito
 function cartReducer(state: CartState, action: CartAction): CartState {
   switch (action.type) {
     case "ADD_ITEM": {
-      const { product, quantity, selectedVariant, notes } = action.payload;
+      const { product, quantity, selectedVariant } = action.payload;
 
       // Generar ID único para el item
       const itemId = generateCartItemId(product.id, selectedVariant?.id);
@@ -85,26 +308,7 @@ function cartReducer(state: CartState, action: CartAction): CartState {
         });
       } else {
         // Agregar nuevo item
-        const unitPrice = selectedVariant?.additionalPrice
-          ? product.price + selectedVariant.additionalPrice
-          : product.price;
-
-        const newItem: CartItem = {
-          id: itemId,
-          productId: product.id,
-          product,
-          quantity,
-          selectedVariant,
-          variant: selectedVariant,
-          unitPrice,
-          priceAtAddTime: unitPrice,
-          totalPrice: unitPrice * quantity,
-          subtotal: unitPrice * quantity,
-          addedAt: new Date().toISOString(),
-          notes,
-        };
-
-        newItems = [...state.items, newItem];
+        newItems = [...state.items, createCartItem(action.payload)];
       }
 
       // Limitar número máximo de items
@@ -112,27 +316,16 @@ function cartReducer(state: CartState, action: CartAction): CartState {
         newItems = newItems.slice(0, CART_CONSTANTS.MAX_ITEMS);
       }
 
-      const newSummary = calculateCartSummary(newItems);
-
-      return {
-        ...state,
-        items: newItems,
-        summary: newSummary,
-        lastUpdated: new Date().toISOString(),
-      };
+      // El producto puede venir de un snapshot (favoritos, historial), así
+      // que agregarlo no cuenta como revalidación contra el catálogo
+      return withSummary(state, newItems);
     }
 
     case "REMOVE_ITEM": {
       const { itemId } = action.payload;
       const newItems = state.items.filter((item) => item.id !== itemId);
-      const newSummary = calculateCartSummary(newItems);
 
-      return {
-        ...state,
-        items: newItems,
-        summary: newSummary,
-        lastUpdated: new Date().toISOString(),
-      };
+      return withSummary(state, newItems);
     }
 
     case "UPDATE_QUANTITY": {
@@ -141,14 +334,8 @@ function cartReducer(state: CartState, action: CartAction): CartState {
       if (quantity <= 0) {
         // Si la cantidad es 0 o menor, remover el item
         const newItems = state.items.filter((item) => item.id !== itemId);
-        const newSummary = calculateCartSummary(newItems);
 
-        return {
-          ...state,
-          items: newItems,
-          summary: newSummary,
-          lastUpdated: new Date().toISOString(),
-        };
+        return withSummary(state, newItems);
       }
 
       const newItems = state.items.map((item) => {
@@ -168,52 +355,32 @@ function cartReducer(state: CartState, action: CartAction): CartState {
         return item;
       });
 
-      const newSummary = calculateCartSummary(newItems);
-
-      return {
-        ...state,
-        items: newItems,
-        summary: newSummary,
-        lastUpdated: new Date().toISOString(),
-      };
+      return withSummary(state, newItems);
     }
 
     case "CLEAR_CART": {
+      // Vaciar es el cambio más reciente: las demás pestañas y el
+      // servidor deben adoptarlo en lugar de devolver el carrito anterior
       return {
         ...initialCartState,
         sessionId: state.sessionId,
+        userId: state.userId,
+        savedForLater: state.savedForLater,
+        lastUpdated: new Date().toISOString(),
+        expiresAt: undefined,
       };
     }
 
     case "APPLY_COUPON": {
       const { coupon } = action.payload;
-      const newSummary = calculateCartSummary(state.items);
-
-      // Calcular descuento del cupón
-      let couponDiscount = 0;
-      if (coupon.type === "percentage") {
-        couponDiscount = (newSummary.subtotal * coupon.value) / 100;
-        if (coupon.maxDiscount) {
-          couponDiscount = Math.min(couponDiscount, coupon.maxDiscount);
-        }
-      } else if (coupon.type === "fixed") {
-        couponDiscount = coupon.value;
-      }
 
-      return {
-        ...state,
-        summary: {
-          ...newSummary,
-          couponDiscount,
-          total:
-            newSummary.subtotal +
-            newSummary.shipping +
-            newSummary.tax -
-            couponDiscount,
+      return withSummary(
+        {
+          ...state,
+          appliedCoupons: [...(state.appliedCoupons || []), coupon],
         },
-        appliedCoupons: [...(state.appliedCoupons || []), coupon],
-        lastUpdated: new Date().toISOString(),
-      };
+        state.items
+      );
     }
 
     case "REMOVE_COUPON": {
@@ -221,34 +388,230 @@ function cartReducer(state: CartState, action: CartAction): CartState {
       const newAppliedCoupons = (state.appliedCoupons || []).filter(
         (c) => c.code !== couponCode
       );
-      const newSummary = calculateCartSummary(state.items);
 
+      return withSummary(
+        { ...state, appliedCoupons: newAppliedCoupons },
+        state.items
+      );
+    }
+
+    case "SET_SHIPPING": {
+      const { shippingInfo } = action.payload;
+
+      return withSummary({ ...state, shippingInfo }, state.items);
+    }
+
+    case "RESTORE_CART": {
+      const { cart } = action.payload;
+      // Re-evaluar cupones guardados (pueden haber vencido) y marcar
+      // el carrito para revalidar precios y stock
+      const restored = withSummary(
+        {
+          ...initialCartState,
+          ...cart,
+          appliedCoupons: cart.appliedCoupons || [],
+          lastRevalidated: undefined,
+          // La lista de guardados tiene su propia persistencia
+          savedForLater: state.savedForLater,
+        },
+        cart.items || []
+      );
+      // Abrir o recargar la pestaña no es actividad: se conservan las
+      // fechas guardadas para que el vencimiento por inactividad siga
       return {
-        ...state,
-        summary: newSummary,
-        appliedCoupons: newAppliedCoupons,
-        lastUpdated: new Date().toISOString(),
+        ...restored,
+        lastUpdated: cart.lastUpdated ?? restored.lastUpdated,
+        expiresAt: cart.expiresAt ?? restored.expiresAt,
       };
     }
 
-    case "RESTORE_CART": {
+    case "MERGE_CART": {
+      const { guestCart } = action.payload;
+      // Unir cupones sin repetir; la política de combinación se
+      // re-valida después contra el historial del usuario
+      const couponCodes = new Set(state.appliedCoupons.map((c) => c.code));
+      const appliedCoupons = [
+        ...state.appliedCoupons,
+        ...(guestCart.appliedCoupons || []).filter(
+          (c) => !couponCodes.has(c.code)
+        ),
+      ];
+
+      return withSummary(
+        { ...state, appliedCoupons },
+        mergeCartItems(state.items, guestCart.items)
+      );
+    }
+
+    case "SYNC_CART": {
       const { cart } = action.payload;
+      // El carrito de otra pestaña ya trae su resumen calculado; se
+      // conserva su lastUpdated para no volver a difundirlo
       return {
-        ...initialCartState,
         ...cart,
-        appliedCoupons: cart.appliedCoupons || [],
-        lastUpdated: new Date().toISOString(),
+        userId: state.userId,
+        savedForLater: state.savedForLater,
+      };
+    }
+
+    case "HYDRATE_CART": {
+      const { items } = action.payload;
+      // Los items del servidor pueden venir de otro dispositivo: se
+      // revalidan precios y stock
+      return withSummary({ ...state, lastRevalidated: undefined }, items);
+    }
+
+    case "SAVE_FOR_LATER": {
+      const { itemId } = action.payload;
+      const item = state.items.find((i) => i.id === itemId);
+      if (!item) return state;
+
+      // Si ya estaba guardado, se reemplaza por la versión del carrito
+      const savedForLater = [
+        item,
+        ...(state.savedForLater ?? []).filter((i) => i.id !== itemId),
+      ].slice(0, CART_CONSTANTS.MAX_SAVED_FOR_LATER);
+
+      return withSummary(
+        { ...state, savedForLater },
+        state.items.filter((i) => i.id !== itemId)
+      );
+    }
+
+    case "MOVE_TO_CART": {
+      const { itemId } = action.payload;
+      const item = state.savedForLater?.find((i) => i.id === itemId);
+      if (!item) return state;
+
+      const withItem = cartReducer(state, {
+        type: "ADD_ITEM",
+        payload: {
+          product: item.product,
+          quantity: item.quantity,
+          selectedVariant: item.selectedVariant,
+          notes: item.notes,
+        },
+      });
+
+      // Sin espacio en el carrito, el item sigue guardado
+      if (!withItem.items.some((i) => i.id === itemId)) return state;
+
+      // El precio guardado puede estar desactualizado: se revalida
+      return {
+        ...withItem,
+        savedForLater: withItem.savedForLater?.filter((i) => i.id !== itemId),
+        lastRevalidated: undefined,
+      };
+    }
+
+    case "REMOVE_SAVED_ITEM": {
+      const { itemId } = action.payload;
+
+      return {
+        ...state,
+        savedForLater: state.savedForLater?.filter((i) => i.id !== itemId),
       };
     }
 
+    case "SET_SAVED_ITEMS": {
+      const { items } = action.payload;
+
+      return { ...state, savedForLater: items };
+    }
+
+    case "SET_ITEM_ISSUES": {
+      const { issues } = action.payload;
+
+      return {
+        ...state,
+        issues: pruneItemIssues(issues, state.items),
+        lastRevalidated: new Date().toISOString(),
+      };
+    }
+
+    case "ACCEPT_ITEM_CHANGES": {
+      const { itemIds } = action.payload;
+      const issues = state.issues ?? [];
+      const accepted = itemIds
+        ? issues.filter((issue) => itemIds.includes(issue.itemId))
+        : issues;
+
+      return withSummary(
+        {
+          ...state,
+          issues: issues.filter((issue) => !accepted.includes(issue)),
+        },
+        applyItemIssues(state.items, accepted)
+      );
+    }
+
     default:
       return state;
   }
 }
 
-// Clave para localStorage
+// Clave para localStorage: una por usuario y otra para invitados
 const CART_STORAGE_KEY = "demo-tienda-cart";
 
+const getCartStorageKey = (userId?: string): string =>
+  userId ? `${CART_STORAGE_KEY}-${userId}` : CART_STORAGE_KEY;
+
+// Clave de la lista de guardados para después (no vence con el carrito)
+const SAVED_FOR_LATER_STORAGE_KEY = "demo-tienda-saved-for-later";
+
+const getSavedForLaterStorageKey = (userId?: string): string =>
+  userId
+    ? `${SAVED_FOR_LATER_STORAGE_KEY}-${userId}`
+    : SAVED_FOR_LATER_STORAGE_KEY;
+
+/**
+ * Convierte el JSON guardado en un carrito completo
+ * Lanza un error si el JSON está corrupto
+ */
+function parseSavedCart(savedCart: string, userId?: string): CartState {
+  const parsedCart = JSON.parse(savedCart);
+  // Asegurar que el carrito tenga todas las propiedades necesarias
+  return {
+    ...initialCartState,
+    ...parsedCart,
+    appliedCoupons: parsedCart.appliedCoupons || [],
+    userId,
+  };
+}
+
+/**
+ * Lee el carrito guardado de un usuario (o del invitado)
+ */
+function loadSavedCart(userId?: string): CartState | null {
+  const storageKey = getCartStorageKey(userId);
+  try {
+    const savedCart = localStorage.getItem(storageKey);
+    if (!savedCart) return null;
+
+    return parseSavedCart(savedCart, userId);
+  } catch (error) {
+    console.error("Error loading cart from localStorage:", error);
+    // Limpiar localStorage corrupto
+    localStorage.removeItem(storageKey);
+    return null;
+  }
+}
+
+/**
+ * Lee la lista de guardados para después de un usuario (o del invitado)
+ */
+function loadSavedForLater(userId?: string): CartItem[] {
+  const storageKey = getSavedForLaterStorageKey(userId);
+  try {
+    const savedItems = localStorage.getItem(storageKey);
+    return savedItems ? JSON.parse(savedItems) : [];
+  } catch (error) {
+    console.error("Error loading saved items from localStorage:", error);
+    localStorage.removeItem(storageKey);
+    return [];
+  }
+}
+
 // Proveedor del contexto
 interface CartProviderProps {
   children: ReactNode;
@@ -257,35 +620,279 @@ interface CartProviderProps {
 export function CartProvider({ children }: CartProviderProps) {
   const [cart, dispatch] = useReducer(cartReducer, initialCartState);
   const [error, setError] = useState<string | null>(null);
+  const [expiryNotice, setExpiryNotice] = useState<CartExpiryNotice | null>(
+    null
+  );
+  const { user, isLoading: isAuthLoading } = useAuth();
+  const userId = user?.id;
+
+  // Dueño del carrito cargado: undefined = sin cargar, null = invitado
+  const loadedOwnerRef = useRef<string | null | undefined>(undefined);
+  const cartRef = useRef(cart);
+  const couponCheckPendingRef = useRef(false);
+  // Usuario cuyo carrito ya se comparó con el del servidor
+  const serverSyncedOwnerRef = useRef<string | null>(null);
+  // lastUpdated del último carrito recibido de otra pestaña
+  const syncedVersionRef = useRef<string | null>(null);
+  const [isRevalidating, setIsRevalidating] = useState(false);
+  const queryClient = useQueryClient();
+
+  /**
+   * Compara los items con el catálogo actual y guarda los cambios
+   * detectados (precio, stock o producto inexistente)
+   */
+  const revalidateCart = useCallback(async (): Promise<CartItemIssue[]> => {
+    const { items } = cartRef.current;
+    if (items.length === 0) return [];
+
+    setIsRevalidating(true);
+    try {
+      const productIds = [...new Set(items.map((item) => item.productId))];
+      const entries = await Promise.all(
+        productIds.map(async (productId) => {
+          try {
+            const product = await fetchFreshProduct(queryClient, productId);
+            return [productId, product] as const;
+          } catch (error) {
+            // Sin conexión con el catálogo no se marca el item
+            console.error("Error revalidating cart product:", error);
+            return [productId, undefined] as const;
+          }
+        })
+      );
+
+      const catalog: CatalogSnapshot = new Map(entries);
+      const issues = detectItemIssues(cartRef.current.items, catalog);
+      dispatch({ type: "SET_ITEM_ISSUES", payload: { issues } });
+      return issues;
+    } finally {
+      setIsRevalidating(false);
+    }
+  }, [queryClient]);
 
-  // Cargar carrito del localStorage al inicializar
+  // Cargar el carrito del usuario (o del invitado) cuando cambia la sesión
   useEffect(() => {
-    try {
-      const savedCart = localStorage.getItem(CART_STORAGE_KEY);
-      if (savedCart) {
-        const parsedCart = JSON.parse(savedCart);
-        // Asegurar que el carrito tenga todas las propiedades necesarias
-        const validatedCart = {
-          ...initialCartState,
-          ...parsedCart,
-          appliedCoupons: parsedCart.appliedCoupons || [],
-        };
-        dispatch({ type: "RESTORE_CART", payload: { cart: validatedCart } });
+    if (isAuthLoading) return;
+
+    const owner = userId ?? null;
+    const previousOwner = loadedOwnerRef.current;
+    if (previousOwner === owner) return;
+    loadedOwnerRef.current = owner;
+
+    const savedCart = loadSavedCart(userId);
+    const guestCart = cartRef.current;
+    const { cart: restoredCart, notice } = resolveCartExpiry(
+      savedCart ?? { ...initialCartState, userId }
+    );
+
+    dispatch({ type: "RESTORE_CART", payload: { cart: restoredCart } });
+    setExpiryNotice(notice);
+
+    let savedItems = loadSavedForLater(userId);
+
+    // Al iniciar sesión, el carrito de invitado se fusiona con el del usuario
+    if (previousOwner === null && userId) {
+      if (guestCart.items.length > 0 || guestCart.appliedCoupons.length > 0) {
+        dispatch({ type: "MERGE_CART", payload: { guestCart } });
+        couponCheckPendingRef.current = true;
       }
-    } catch (error) {
-      console.error("Error loading cart from localStorage:", error);
-      // Limpiar localStorage corrupto
-      localStorage.removeItem(CART_STORAGE_KEY);
+      localStorage.removeItem(getCartStorageKey());
+
+      const savedIds = new Set(savedItems.map((item) => item.id));
+      savedItems = [
+        ...savedItems,
+        ...(guestCart.savedForLater ?? []).filter(
+          (item) => !savedIds.has(item.id)
+        ),
+      ].slice(0, CART_CONSTANTS.MAX_SAVED_FOR_LATER);
+      localStorage.removeItem(getSavedForLaterStorageKey());
     }
-  }, []);
+
+    dispatch({ type: "SET_SAVED_ITEMS", payload: { items: savedItems } });
+
+    // Hidratar desde el carrito del servidor si es más reciente que el
+    // local; si no, el local se envía al servidor
+    serverSyncedOwnerRef.current = null;
+    const serverUserId = Number(userId);
+    if (!userId || Number.isNaN(serverUserId)) return;
+
+    const localUpdatedAt = savedCart
+      ? new Date(savedCart.lastUpdated).getTime()
+      : 0;
+    const guestItems = previousOwner === null ? guestCart.items : [];
+
+    cartSyncService
+      .fetchUserCart(serverUserId)
+      .then(async (serverCart) => {
+        if (loadedOwnerRef.current !== userId || !serverCart) return;
+        if (new Date(serverCart.updatedAt).getTime() <= localUpdatedAt) return;
+
+        const items = await resolveServerCartItems(
+          serverCart.products,
+          savedCart?.items ?? [],
+          queryClient
+        );
+        if (loadedOwnerRef.current !== userId) return;
+        dispatch({
+          type: "HYDRATE_CART",
+          payload: { items: mergeCartItems(items, guestItems) },
+        });
+      })
+      .catch((error) => {
+        console.error("Error loading cart from server:", error);
+      })
+      .finally(() => {
+        if (loadedOwnerRef.current !== userId) return;
+        serverSyncedOwnerRef.current = userId;
+        const { items, lastUpdated } = cartRef.current;
+        cartSyncService.scheduleSync(serverUserId, items, lastUpdated);
+      });
+  }, [userId, isAuthLoading, queryClient]);
 
   // Guardar carrito en localStorage cuando cambie
   useEffect(() => {
+    cartRef.current = cart;
+    // No sobrescribir lo guardado antes de cargarlo
+    if (loadedOwnerRef.current === undefined) return;
+    // Lo recibido de otra pestaña ya está guardado
+    if (cart.lastUpdated === syncedVersionRef.current) return;
+
     try {
-      localStorage.setItem(CART_STORAGE_KEY, JSON.stringify(cart));
+      localStorage.setItem(getCartStorageKey(cart.userId), serializeCart(cart));
     } catch (error) {
       console.error("Error saving cart to localStorage:", error);
     }
+
+    // Reflejar el carrito en el servidor una vez comparado con el suyo
+    if (cart.userId && serverSyncedOwnerRef.current === cart.userId) {
+      cartSyncService.scheduleSync(
+        Number(cart.userId),
+        cart.items,
+        cart.lastUpdated
+      );
+    }
+  }, [cart]);
+
+  // Guardar la lista de guardados para después cuando cambie
+  useEffect(() => {
+    if (loadedOwnerRef.current === undefined || !cart.savedForLater) return;
+
+    try {
+      localStorage.setItem(
+        getSavedForLaterStorageKey(cart.userId),
+        JSON.stringify(cart.savedForLater)
+      );
+    } catch (error) {
+      console.error("Error saving saved items to localStorage:", error);
+    }
+  }, [cart.savedForLater, cart.userId]);
+
+  // Sincronizar con los cambios que hacen otras pestañas
+  // El evento storage solo llega a las demás pestañas del mismo origen
+  useEffect(() => {
+    if (isAuthLoading) return;
+    const storageKey = getCartStorageKey(userId);
+    const savedForLaterKey = getSavedForLaterStorageKey(userId);
+
+    const handleStorage = (event: StorageEvent) => {
+      if (!event.newValue) return;
+      if (loadedOwnerRef.current !== (userId ?? null)) return;
+
+      if (event.key === savedForLaterKey) {
+        try {
+          const items: CartItem[] = JSON.parse(event.newValue);
+          dispatch({ type: "SET_SAVED_ITEMS", payload: { items } });
+        } catch (error) {
+          console.error("Error syncing saved items from another tab:", error);
+        }
+        return;
+      }
+      if (event.key !== storageKey) return;
+
+      let remoteCart: CartState;
+      try {
+        remoteCart = parseSavedCart(event.newValue, userId);
+      } catch (error) {
+        console.error("Error syncing cart from another tab:", error);
+        return;
+      }
+
+      // Gana el cambio más reciente; si el local es más nuevo, se vuelve
+      // a guardar para que las demás pestañas lo adopten
+      const localCart = cartRef.current;
+      const remoteTime = new Date(remoteCart.lastUpdated).getTime();
+      const localTime = new Date(localCart.lastUpdated).getTime();
+
+      if (remoteTime > localTime) {
+        syncedVersionRef.current = remoteCart.lastUpdated;
+        dispatch({ type: "SYNC_CART", payload: { cart: remoteCart } });
+      } else if (remoteTime < localTime) {
+        try {
+          localStorage.setItem(storageKey, serializeCart(localCart));
+        } catch (error) {
+          console.error("Error saving cart to localStorage:", error);
+        }
+      }
+    };
+
+    window.addEventListener("storage", handleStorage);
+    return () => window.removeEventListener("storage", handleStorage);
+  }, [userId, isAuthLoading]);
+
+  // Vencer la sesión del carrito si la pestaña sigue abierta sin actividad
+  useEffect(() => {
+    if (!cart.expiresAt || cart.items.length === 0) return;
+
+    const timeout = new Date(cart.expiresAt).getTime() - Date.now();
+    const timer = setTimeout(() => {
+      const { cart: resolvedCart, notice } = resolveCartExpiry(
+        cartRef.current
+      );
+      if (notice) {
+        dispatch({ type: "RESTORE_CART", payload: { cart: resolvedCart } });
+        setExpiryNotice(notice);
+      }
+    }, Math.max(timeout, 0) + 1000);
+
+    return () => clearTimeout(timer);
+  }, [cart.expiresAt, cart.items.length]);
+
+  // Revalidar precios y stock del carrito restaurado
+  useEffect(() => {
+    if (cart.items.length > 0 && !cart.lastRevalidated) {
+      revalidateCart();
+    }
+  }, [cart.items.length, cart.lastRevalidated, revalidateCart]);
+
+  // Re-validar los cupones fusionados contra el historial del usuario
+  useEffect(() => {
+    if (!couponCheckPendingRef.current || !cart.userId) return;
+    couponCheckPendingRef.current = false;
+    if (cart.appliedCoupons.length === 0) return;
+
+    couponService
+      .revalidateCoupons(cart.appliedCoupons, {
+        items: cart.items,
+        userId: cart.userId,
+      })
+      .then((rejections) => {
+        rejections.forEach((rejection) =>
+          dispatch({
+            type: "REMOVE_COUPON",
+            payload: { couponCode: rejection.couponCode },
+          })
+        );
+        const [first] = rejections;
+        if (first) {
+          setError(`Quitamos el cupón ${first.couponCode}: ${first.message}`);
+        }
+      })
+      .catch((error) => {
+        console.error("Error revalidating coupons:", error);
+        setError("No pudimos validar los cupones de tu carrito");
+        // Reintentar con el próximo cambio del carrito
+        couponCheckPendingRef.current = true;
+      });
   }, [cart]);
 
   // Funciones del contexto
@@ -322,35 +929,56 @@ export function CartProvider({ children }: CartProviderProps) {
     return cart.summary.total;
   };
 
-  const applyCoupon = async (coupon: Coupon) => {
-    try {
-      setError(null);
-      // Validar cupón
-      if (!coupon.isActive || !coupon.active) {
-        throw new Error("El cupón no está activo");
-      }
+  const applyCoupon = async (code: string): Promise<CouponEvaluation> => {
+    setError(null);
 
-      if (
-        coupon.minOrderAmount &&
-        cart.summary.subtotal < coupon.minOrderAmount
-      ) {
-        throw new Error(`Compra mínima requerida: $${coupon.minOrderAmount}`);
-      }
+    const evaluation = await couponService.validateCoupon(code, {
+      items: cart.items,
+      appliedCoupons: cart.appliedCoupons || [],
+      userId: user?.id,
+    });
 
-      dispatch({ type: "APPLY_COUPON", payload: { coupon } });
-    } catch (err) {
-      setError(err instanceof Error ? err.message : "Error al aplicar cupón");
+    if (evaluation.valid) {
+      dispatch({ type: "APPLY_COUPON", payload: { coupon: evaluation.coupon } });
+    } else {
+      setError(evaluation.rejection.message);
     }
+
+    return evaluation;
   };
 
   const removeCoupon = (couponCode: string) => {
     dispatch({ type: "REMOVE_COUPON", payload: { couponCode } });
   };
 
+  const setShipping = (shippingInfo: ShippingInfo) => {
+    dispatch({ type: "SET_SHIPPING", payload: { shippingInfo } });
+  };
+
   const clearError = () => {
     setError(null);
   };
 
+  const dismissExpiryNotice = () => {
+    setExpiryNotice(null);
+  };
+
+  const acceptItemChanges = (itemIds?: string[]) => {
+    dispatch({ type: "ACCEPT_ITEM_CHANGES", payload: { itemIds } });
+  };
+
+  const saveForLater = (itemId: string) => {
+    dispatch({ type: "SAVE_FOR_LATER", payload: { itemId } });
+  };
+
+  const moveToCart = (itemId: string) => {
+    dispatch({ type: "MOVE_TO_CART", payload: { itemId } });
+  };
+
+  const removeSavedItem = (itemId: string) => {
+    dispatch({ type: "REMOVE_SAVED_ITEM", payload: { itemId } });
+  };
+
   const value: CartContextValue = {
     cart,
     state: cart, // Alias para cart
@@ -364,8 +992,19 @@ export function CartProvider({ children }: CartProviderProps) {
     getTotalPrice,
     applyCoupon,
     removeCoupon,
+    setShipping,
     error,
     clearError,
+    expiryNotice,
+    dismissExpiryNotice,
+    issues: cart.issues ?? [],
+    isRevalidating,
+    revalidateCart,
+    acceptItemChanges,
+    savedItems: cart.savedForLater ?? [],
+    saveForLater,
+    moveToCart,
+    removeSavedItem,
   };
 
   return <CartContext.Provider value={value}>{children}</CartContext.Provider>;
@@ -0,0 +1,31 @@
+/**
+ * Contexto y tipos de la Comparación de Productos
+ *
+ * Este archivo contiene solo el contexto y las interfaces,
+ * separado de los componentes para mantener compatibilidad con React Fast Refresh.
+ */
+
+import { createContext } from "react";
+import type { Product } from "../types/product";
+
+// Interface del contexto
+export interface CompareContextValue {
+  // Estado
+  items: Product[];
+  count: number;
+  isFull: boolean; // Si ya se alcanzó el máximo de productos
+
+  // Acciones
+  addToCompare: (product: Product) => void; // Sin efecto si está lleno
+  removeFromCompare: (productId: string) => void;
+  toggleCompare: (product: Product) => void;
+  clearCompare: () => void;
+
+  // Utilidades
+  isInCompare: (productId: string) => boolean;
+}
+
+// Crear contexto
+export const CompareContext = createContext<CompareContextValue | undefined>(
+  undefined
+);
@@ -0,0 +1,119 @@
+/**
+ * Proveedor de la Comparación de Productos
+ *
+ * Guarda en localStorage los productos elegidos para comparar (hasta
+ * COMPARE_CONSTANTS.MAX_ITEMS), así la bandeja sigue igual al recargar
+ * o al cambiar de página.
+ */
+
+import { useCallback, useEffect, useState } from "react";
+import type { ReactNode } from "react";
+import type { Product } from "../types/product";
+import { COMPARE_CONSTANTS, type CompareState } from "../types/compare";
+import {
+  CompareContext,
+  type CompareContextValue,
+} from "./compare-context-types";
+
+// Clave para localStorage
+const COMPARE_STORAGE_KEY = "demo-tienda-compare";
+
+const createEmptyCompare = (): CompareState => ({
+  items: [],
+  lastUpdated: new Date().toISOString(),
+});
+
+/**
+ * Lee la comparación guardada
+ */
+function loadSavedCompare(): CompareState {
+  try {
+    const savedCompare = localStorage.getItem(COMPARE_STORAGE_KEY);
+    if (!savedCompare) return createEmptyCompare();
+
+    const parsed: CompareState = JSON.parse(savedCompare);
+    return {
+      ...parsed,
+      items: parsed.items.slice(0, COMPARE_CONSTANTS.MAX_ITEMS),
+    };
+  } catch (error) {
+    console.error("Error loading compare list from localStorage:", error);
+    localStorage.removeItem(COMPARE_STORAGE_KEY);
+    return createEmptyCompare();
+  }
+}
+
+// Proveedor del contexto
+interface CompareProviderProps {
+  children: ReactNode;
+}
+
+export function CompareProvider({ children }: CompareProviderProps) {
+  const [compare, setCompare] = useState<CompareState>(loadSavedCompare);
+
+  // Guardar la comparación en localStorage cuando cambie
+  useEffect(() => {
+    try {
+      localStorage.setItem(COMPARE_STORAGE_KEY, JSON.stringify(compare));
+    } catch (error) {
+      console.error("Error saving compare list to localStorage:", error);
+    }
+  }, [compare]);
+
+  const updateItems = useCallback(
+    (update: (items: Product[]) => Product[]) => {
+      setCompare((prev) => ({
+        items: update(prev.items),
+        lastUpdated: new Date().toISOString(),
+      }));
+    },
+    []
+  );
+
+  // Funciones del contexto
+  const addToCompare = (product: Product) => {
+    updateItems((items) =>
+      items.some((item) => item.id === product.id) ||
+      items.length >= COMPARE_CONSTANTS.MAX_ITEMS
+        ? items
+        : [...items, product]
+    );
+  };
+
+  const removeFromCompare = (productId: string) => {
+    updateItems((items) => items.filter((item) => item.id !== productId));
+  };
+
+  const isInCompare = (productId: string): boolean => {
+    return compare.items.some((item) => item.id === productId);
+  };
+
+  const toggleCompare = (product: Product) => {
+    if (isInCompare(product.id)) {
+      removeFromCompare(product.id);
+    } else {
+      addToCompare(product);
+    }
+  };
+
+  const clearCompare = () => {
+    updateItems(() => []);
+  };
+
+  const value: CompareContextValue = {
+    items: compare.items,
+    count: compare.items.length,
+    isFull: compare.items.length >= COMPARE_CONSTANTS.MAX_ITEMS,
+    addToCompare,
+    removeFromCompare,
+    toggleCompare,
+    clearCompare,
+    isInCompare,
+  };
+
+  return (
+    <CompareContext.Provider value={value}>{children}</CompareContext.Provider>
+  );
+}
+
+export default CompareProvider;
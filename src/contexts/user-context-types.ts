@@ -6,7 +6,7 @@
  */
 
 import { createContext } from "react";
-import type { User } from "../types/user";
+import type { PrivacySettings, User } from "../types/user";
 
 // Estado de autenticación
 export interface AuthState {
@@ -31,6 +31,10 @@ export interface UserContextValue {
     lastName: string
   ) => Promise<void>;
 
+  // Privacidad de la cuenta con sesión (null sin sesión)
+  privacy: PrivacySettings | null;
+  updatePrivacy: (changes: Partial<PrivacySettings>) => void;
+
   // Utilidades
   isAuthenticated: () => boolean;
   getCurrentUser: () => User | null;
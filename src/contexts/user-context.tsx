@@ -7,7 +7,12 @@
 
 import { useState, useEffect } from "react";
 import type { ReactNode } from "react";
-import type { User } from "../types/user";
+import {
+  DEFAULT_PRIVACY_SETTINGS,
+  type PrivacySettings,
+  type User,
+} from "../types/user";
+import { useAuth } from "../hooks/use-auth";
 import {
   UserContext,
   type AuthState,
@@ -22,6 +27,28 @@ const initialAuthState: AuthState = {
   error: null,
 };
 
+// Clave para localStorage: privacidad de cada cuenta
+const PRIVACY_STORAGE_KEY = "demo-tienda-privacy";
+
+const getPrivacyStorageKey = (accountId: string): string =>
+  `${PRIVACY_STORAGE_KEY}-${accountId}`;
+
+/**
+ * Lee la privacidad guardada de una cuenta
+ */
+function loadSavedPrivacy(
+  accountId: string,
+  fallback: PrivacySettings
+): PrivacySettings {
+  try {
+    const saved = localStorage.getItem(getPrivacyStorageKey(accountId));
+    return saved ? { ...fallback, ...JSON.parse(saved) } : fallback;
+  } catch (error) {
+    console.error("Error loading privacy settings from localStorage:", error);
+    return fallback;
+  }
+}
+
 // Usuario demo para testing
 const demoUser: User = {
   id: "demo-user-1",
@@ -62,14 +89,7 @@ const demoUser: User = {
     },
   ],
   paymentMethods: [],
-  privacy: {
-    shareProfile: false,
-    shareOrders: false,
-    allowMarketing: true,
-    allowNotifications: true,
-    shareReviews: true,
-    shareWishlist: false,
-  },
+  privacy: DEFAULT_PRIVACY_SETTINGS,
   notifications: {
     email: {
       orderUpdates: true,
@@ -90,16 +110,17 @@ const demoUser: User = {
       delivery: true,
     },
   },
+  // Las estadísticas de compra se calculan a partir de las órdenes reales
+  // (ver useOrderStats); aquí solo se guarda el punto de partida
   stats: {
-    totalOrders: 12,
-    totalSpent: 850000,
-    averageOrderValue: 70833,
-    favoriteCategory: "electronics",
+    totalOrders: 0,
+    totalSpent: 0,
+    averageOrderValue: 0,
+    favoriteCategory: "",
     joinDate: "2023-06-15T00:00:00Z",
-    lastOrderDate: "2024-01-15T00:00:00Z",
-    loyaltyPoints: 425,
-    reviewsCount: 8,
-    wishlistCount: 15,
+    loyaltyPoints: 0,
+    reviewsCount: 0,
+    wishlistCount: 0,
   },
   authMethods: ["email"],
   twoFactorEnabled: false,
@@ -119,6 +140,28 @@ interface UserProviderProps {
 
 export function UserProvider({ children }: UserProviderProps) {
   const [auth, setAuth] = useState<AuthState>(initialAuthState);
+  const { user: sessionUser } = useAuth();
+
+  // Cuenta dueña de la privacidad: el usuario de este contexto o, si no
+  // hay, el de la sesión
+  const accountId = auth.user?.id ?? sessionUser?.id;
+  const [privacyState, setPrivacyState] = useState<{
+    accountId?: string;
+    settings: PrivacySettings | null;
+  }>({ settings: null });
+
+  // Al cambiar de cuenta se carga su propia privacidad
+  if (privacyState.accountId !== accountId) {
+    setPrivacyState({
+      accountId,
+      settings: accountId
+        ? loadSavedPrivacy(
+            accountId,
+            auth.user?.privacy ?? DEFAULT_PRIVACY_SETTINGS
+          )
+        : null,
+    });
+  }
 
   // Simular carga inicial del usuario
   useEffect(() => {
@@ -221,11 +264,7 @@ export function UserProvider({ children }: UserProviderProps) {
         },
         stats: {
           ...demoUser.stats,
-          totalOrders: 0,
-          totalSpent: 0,
-          averageOrderValue: 0,
-          reviewsCount: 0,
-          wishlistCount: 0,
+          joinDate: new Date().toISOString(),
         },
         createdAt: new Date().toISOString(),
         updatedAt: new Date().toISOString(),
@@ -247,6 +286,27 @@ export function UserProvider({ children }: UserProviderProps) {
     }
   };
 
+  // Actualizar la privacidad de la cuenta con sesión
+  const updatePrivacy = (changes: Partial<PrivacySettings>) => {
+    const current = privacyState.settings;
+    if (!accountId || !current) return;
+
+    const settings = { ...current, ...changes };
+    setPrivacyState({ accountId, settings });
+    setAuth((prev) =>
+      prev.user ? { ...prev, user: { ...prev.user, privacy: settings } } : prev
+    );
+
+    try {
+      localStorage.setItem(
+        getPrivacyStorageKey(accountId),
+        JSON.stringify(settings)
+      );
+    } catch (error) {
+      console.error("Error saving privacy settings to localStorage:", error);
+    }
+  };
+
   // Utilidades
   const isAuthenticated = (): boolean => {
     return auth.isAuthenticated;
@@ -285,6 +345,8 @@ export function UserProvider({ children }: UserProviderProps) {
     login,
     logout,
     register,
+    privacy: privacyState.settings,
+    updatePrivacy,
     isAuthenticated,
     getCurrentUser,
     checkPermission,
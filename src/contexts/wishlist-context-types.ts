@@ -0,0 +1,37 @@
+/**
+ * Contexto y tipos de la Lista de Deseos
+ *
+ * Este archivo contiene solo el contexto y las interfaces,
+ * separado de los componentes para mantener compatibilidad con React Fast Refresh.
+ */
+
+import { createContext } from "react";
+import type { Product } from "../types/product";
+import type { WishlistItem } from "../types/wishlist";
+
+// Interface del contexto
+export interface WishlistContextValue {
+  // Estado
+  items: WishlistItem[];
+  count: number;
+
+  // Acciones
+  addToWishlist: (product: Product) => void;
+  removeFromWishlist: (productId: string) => void;
+  toggleWishlist: (product: Product) => void;
+  clearWishlist: () => void;
+  moveToCart: (productId: string) => Promise<void>; // Agrega al carrito (datos actuales) y lo quita de la lista
+
+  // Compartir por enlace público (PrivacySettings.shareWishlist)
+  shareWishlist: boolean;
+  setShareWishlist: (enabled: boolean) => void;
+  shareUrl: string | null; // Enlace público si la lista se comparte
+
+  // Utilidades
+  isInWishlist: (productId: string) => boolean;
+}
+
+// Crear contexto
+export const WishlistContext = createContext<WishlistContextValue | undefined>(
+  undefined
+);
@@ -0,0 +1,256 @@
+/**
+ * Proveedor de la Lista de Deseos
+ *
+ * Guarda los productos favoritos de cada usuario (o del invitado) en
+ * localStorage, fusiona la lista del invitado al iniciar sesión y
+ * publica la lista cuando el usuario decide compartirla.
+ */
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { ReactNode } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import type { Product } from "../types/product";
+import {
+  WISHLIST_CONSTANTS,
+  createWishlistItem,
+  getSharedWishlistPath,
+  type WishlistState,
+} from "../types/wishlist";
+import { wishlistService } from "../services/wishlist.service";
+import { groupVariants } from "../lib/variants";
+import { useAuth } from "../hooks/use-auth";
+import { useCart } from "../hooks/use-cart";
+import { useUser } from "../hooks/use-user";
+import { fetchFreshProduct } from "../hooks/use-products";
+import {
+  WishlistContext,
+  type WishlistContextValue,
+} from "./wishlist-context-types";
+
+// Clave para localStorage: una por usuario y otra para invitados
+const WISHLIST_STORAGE_KEY = "demo-tienda-wishlist";
+
+const getWishlistStorageKey = (userId?: string): string =>
+  userId ? `${WISHLIST_STORAGE_KEY}-${userId}` : WISHLIST_STORAGE_KEY;
+
+const createEmptyWishlist = (userId?: string): WishlistState => ({
+  items: [],
+  userId,
+  lastUpdated: new Date().toISOString(),
+});
+
+/**
+ * Lee la lista guardada de un usuario (o del invitado)
+ */
+function loadSavedWishlist(userId?: string): WishlistState {
+  const storageKey = getWishlistStorageKey(userId);
+  try {
+    const savedWishlist = localStorage.getItem(storageKey);
+    if (!savedWishlist) return createEmptyWishlist(userId);
+
+    return {
+      ...createEmptyWishlist(userId),
+      ...JSON.parse(savedWishlist),
+      userId,
+    };
+  } catch (error) {
+    console.error("Error loading wishlist from localStorage:", error);
+    localStorage.removeItem(storageKey);
+    return createEmptyWishlist(userId);
+  }
+}
+
+// Proveedor del contexto
+interface WishlistProviderProps {
+  children: ReactNode;
+}
+
+export function WishlistProvider({ children }: WishlistProviderProps) {
+  const [wishlist, setWishlist] = useState<WishlistState>(() =>
+    createEmptyWishlist()
+  );
+  const { user, isLoading: isAuthLoading } = useAuth();
+  const { addToCart } = useCart();
+  const queryClient = useQueryClient();
+  const { privacy, updatePrivacy } = useUser();
+  const userId = user?.id;
+  // Compartir la lista es una opción de privacidad de la cuenta
+  const shareWishlist = !!userId && !!privacy?.shareWishlist;
+  const ownerName = user?.name ?? "";
+
+  // Dueño de la lista cargada: undefined = sin cargar, null = invitado
+  const loadedOwnerRef = useRef<string | null | undefined>(undefined);
+  const wishlistRef = useRef(wishlist);
+
+  // Cargar la lista del usuario (o del invitado) cuando cambia la sesión
+  useEffect(() => {
+    if (isAuthLoading) return;
+
+    const owner = userId ?? null;
+    const previousOwner = loadedOwnerRef.current;
+    if (previousOwner === owner) return;
+    loadedOwnerRef.current = owner;
+
+    const guestWishlist = wishlistRef.current;
+    let restored = loadSavedWishlist(userId);
+
+    // Al iniciar sesión, los favoritos del invitado pasan a la cuenta
+    if (previousOwner === null && userId) {
+      const savedIds = new Set(restored.items.map((item) => item.productId));
+      restored = {
+        ...restored,
+        items: [
+          ...guestWishlist.items.filter(
+            (item) => !savedIds.has(item.productId)
+          ),
+          ...restored.items,
+        ].slice(0, WISHLIST_CONSTANTS.MAX_ITEMS),
+        lastUpdated: new Date().toISOString(),
+      };
+      localStorage.removeItem(getWishlistStorageKey());
+    }
+
+    setWishlist(restored);
+  }, [userId, isAuthLoading]);
+
+  // Guardar la lista en localStorage cuando cambie
+  useEffect(() => {
+    wishlistRef.current = wishlist;
+    // No sobrescribir lo guardado antes de cargarlo
+    if (loadedOwnerRef.current === undefined) return;
+
+    try {
+      localStorage.setItem(
+        getWishlistStorageKey(wishlist.userId),
+        JSON.stringify(wishlist)
+      );
+    } catch (error) {
+      console.error("Error saving wishlist to localStorage:", error);
+    }
+  }, [wishlist]);
+
+  // Mantener actualizada la versión pública mientras se comparta y
+  // retirarla en cuanto la privacidad de la cuenta deje de permitirlo
+  const privacyLoaded = privacy !== null;
+  useEffect(() => {
+    if (!wishlist.shareId || !wishlist.userId || wishlist.userId !== userId) {
+      return;
+    }
+    if (shareWishlist) {
+      wishlistService.publishWishlist(
+        wishlist.shareId,
+        ownerName,
+        wishlist.items
+      );
+    } else if (privacyLoaded) {
+      wishlistService.unpublishWishlist(wishlist.shareId);
+    }
+  }, [
+    wishlist.userId,
+    userId,
+    shareWishlist,
+    privacyLoaded,
+    wishlist.shareId,
+    wishlist.items,
+    ownerName,
+  ]);
+
+  const updateItems = useCallback(
+    (update: (items: WishlistState["items"]) => WishlistState["items"]) => {
+      setWishlist((prev) => ({
+        ...prev,
+        items: update(prev.items),
+        lastUpdated: new Date().toISOString(),
+      }));
+    },
+    []
+  );
+
+  // Funciones del contexto
+  const addToWishlist = (product: Product) => {
+    updateItems((items) =>
+      items.some((item) => item.productId === product.id)
+        ? items
+        : [createWishlistItem(product), ...items].slice(
+            0,
+            WISHLIST_CONSTANTS.MAX_ITEMS
+          )
+    );
+  };
+
+  const removeFromWishlist = (productId: string) => {
+    updateItems((items) =>
+      items.filter((item) => item.productId !== productId)
+    );
+  };
+
+  const isInWishlist = (productId: string): boolean => {
+    return wishlist.items.some((item) => item.productId === productId);
+  };
+
+  const toggleWishlist = (product: Product) => {
+    if (isInWishlist(product.id)) {
+      removeFromWishlist(product.id);
+    } else {
+      addToWishlist(product);
+    }
+  };
+
+  const clearWishlist = () => {
+    updateItems(() => []);
+  };
+
+  const moveToCart = async (productId: string) => {
+    const item = wishlist.items.find((i) => i.productId === productId);
+    // Con variantes hay que elegir talla/color en el detalle
+    if (!item || groupVariants(item.product.variants).length > 0) return;
+
+    // El snapshot guardado puede tener precio o stock viejos
+    try {
+      const product = await fetchFreshProduct(queryClient, productId);
+      if (!product || product.stock <= 0) return;
+
+      addToCart({ product, quantity: 1 });
+      removeFromWishlist(productId);
+    } catch (error) {
+      console.error("Error moving wishlist item to cart:", error);
+    }
+  };
+
+  const setShareWishlist = (enabled: boolean) => {
+    // Solo las listas de usuarios con sesión se pueden compartir
+    if (!wishlist.userId) return;
+
+    updatePrivacy({ shareWishlist: enabled });
+    setWishlist((prev) =>
+      prev.shareId ? prev : { ...prev, shareId: crypto.randomUUID() }
+    );
+  };
+
+  const shareUrl =
+    wishlist.userId && shareWishlist && wishlist.shareId
+      ? `${window.location.origin}${getSharedWishlistPath(wishlist.shareId)}`
+      : null;
+
+  const value: WishlistContextValue = {
+    items: wishlist.items,
+    count: wishlist.items.length,
+    addToWishlist,
+    removeFromWishlist,
+    toggleWishlist,
+    clearWishlist,
+    moveToCart,
+    shareWishlist,
+    setShareWishlist,
+    shareUrl,
+    isInWishlist,
+  };
+
+  return (
+    <WishlistContext.Provider value={value}>
+      {children}
+    </WishlistContext.Provider>
+  );
+}
+
+export default WishlistProvider;
@@ -7,15 +7,34 @@
 // Hooks del carrito
 export { useCart, useCartDrawer, useCartStats, useCartItem } from "./use-cart";
 
+// Hooks de la lista de deseos
+export { useWishlist, useSharedWishlist } from "./use-wishlist";
+
+// Hooks de la comparación de productos
+export { useCompare, useCompareProducts } from "./use-compare";
+
 // Hooks de productos
 export {
   useProducts,
+  useInfiniteProducts,
   useProduct,
   useFeaturedProducts,
   useNewProducts,
   useSaleProducts,
+  useProductsByCategory,
+  useCatalogCategories,
+  useSearchSuggestions,
 } from "./use-products";
 
+// Hooks del buscador
+export { useRecentSearches } from "./use-search";
+
+// Hooks de los productos vistos recientemente
+export { useRecentlyViewed } from "./use-recently-viewed";
+
+// Hooks de los filtros del catálogo en la URL
+export { useCatalogUrlFilters } from "./use-catalog-url";
+
 // Hooks de categorías
 export { useCategoriesData } from "./use-categories";
 
@@ -34,3 +53,36 @@ export {
   useFakeStoreFeaturedProducts,
   useFakeStoreHealthCheck,
 } from "./use-fakestore";
+
+// Hooks del checkout
+export { useCheckout } from "./use-checkout";
+
+// Hooks de envío
+export { useShippingQuotes } from "./use-shipping";
+
+// Hooks de órdenes
+export {
+  useOrders,
+  useOrder,
+  useCancelOrder,
+  useOrderStats,
+} from "./use-orders";
+
+// Hooks de reseñas
+export {
+  useProductReviews,
+  useRatingSummary,
+  useUserReviewCount,
+  useCreateReview,
+  useToggleReviewHelpful,
+} from "./use-reviews";
+
+// Hooks de preguntas y respuestas
+export {
+  useProductQuestions,
+  useAskQuestion,
+  useAnswerQuestion,
+  useToggleAnswerUpvote,
+  useModerateQuestion,
+  useDeleteQuestion,
+} from "./use-questions";
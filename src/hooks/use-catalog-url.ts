@@ -0,0 +1,42 @@
+/**
+ * Hook de los filtros del catálogo guardados en la URL
+ *
+ * Funciona como useState, pero el estado vive en el query string: cada
+ * cambio crea una entrada en el historial, así el botón atrás recupera
+ * la vista anterior y el enlace se puede compartir.
+ */
+
+import { useCallback, useMemo } from "react";
+import { useSearchParams } from "react-router";
+import type { SetStateAction } from "react";
+import type { ProductSearchParams } from "../types/product";
+import {
+  parseProductSearchParams,
+  serializeProductSearchParams,
+} from "../lib/catalog-url";
+
+// Hook para leer y actualizar los filtros del catálogo en la URL
+export function useCatalogUrlFilters() {
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  const filters = useMemo(
+    () => parseProductSearchParams(searchParams),
+    [searchParams]
+  );
+
+  const setFilters = useCallback(
+    (action: SetStateAction<ProductSearchParams>) => {
+      // Los cambios con función se calculan sobre los filtros de la URL
+      setSearchParams((current) =>
+        serializeProductSearchParams(
+          typeof action === "function"
+            ? action(parseProductSearchParams(current))
+            : action
+        )
+      );
+    },
+    [setSearchParams]
+  );
+
+  return [filters, setFilters] as const;
+}
@@ -0,0 +1,273 @@
+/**
+ * Hook del proceso de checkout
+ *
+ * Maneja el asistente de compra paso a paso (carrito → envío → pago →
+ * revisión → confirmación), valida el avance entre pasos y persiste el
+ * progreso en localStorage para que una recarga no lo pierda.
+ */
+
+import { useCallback, useEffect, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { useCart } from "./use-cart";
+import { useAuth } from "./use-auth";
+import { ORDER_QUERY_KEYS } from "./use-orders";
+import { checkoutService, CheckoutError } from "../services/checkout.service";
+import {
+  CHECKOUT_STEPS,
+  type CheckoutData,
+  type CheckoutState,
+  type CheckoutStep,
+} from "../types/cart";
+
+// Clave para localStorage: una por usuario y otra para invitados
+const CHECKOUT_STORAGE_KEY = "demo-tienda-checkout";
+
+const getCheckoutStorageKey = (userId?: string): string =>
+  userId ? `${CHECKOUT_STORAGE_KEY}-${userId}` : CHECKOUT_STORAGE_KEY;
+
+// Estado inicial del checkout
+const createInitialCheckoutState = (): CheckoutState => ({
+  step: "cart",
+  data: {},
+  errors: {},
+  isProcessing: false,
+  completedSteps: [],
+  updatedAt: new Date().toISOString(),
+});
+
+// Cargar el progreso guardado (si existe y es válido)
+const loadCheckoutState = (storageKey: string): CheckoutState => {
+  try {
+    const saved = localStorage.getItem(storageKey);
+    if (saved) {
+      const parsed = JSON.parse(saved) as Partial<CheckoutState>;
+      if (parsed.step && CHECKOUT_STEPS.includes(parsed.step)) {
+        return {
+          ...createInitialCheckoutState(),
+          ...parsed,
+          // Nunca restaurar un procesamiento a medias
+          isProcessing: false,
+          errors: {},
+        };
+      }
+    }
+  } catch (error) {
+    console.error("Error loading checkout from localStorage:", error);
+    localStorage.removeItem(storageKey);
+  }
+  return createInitialCheckoutState();
+};
+
+const stepIndex = (step: CheckoutStep) => CHECKOUT_STEPS.indexOf(step);
+
+export function useCheckout() {
+  const { cart, clearCart, revalidateCart } = useCart();
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const storageKey = getCheckoutStorageKey(user?.id);
+  const [state, setState] = useState<CheckoutState>(() =>
+    loadCheckoutState(storageKey)
+  );
+  const [loadedKey, setLoadedKey] = useState(storageKey);
+
+  // Al cambiar de usuario se carga su propio progreso, así los datos de
+  // una cuenta no aparecen en la siguiente
+  if (loadedKey !== storageKey) {
+    setLoadedKey(storageKey);
+    setState(loadCheckoutState(storageKey));
+  }
+
+  // Guardar progreso cuando cambie
+  // Una compra terminada no se guarda: la próxima visita empieza de cero
+  useEffect(() => {
+    try {
+      if (state.confirmation) {
+        localStorage.removeItem(loadedKey);
+      } else {
+        localStorage.setItem(loadedKey, JSON.stringify(state));
+      }
+    } catch (error) {
+      console.error("Error saving checkout to localStorage:", error);
+    }
+  }, [state, loadedKey]);
+
+  /**
+   * Un paso es accesible si todos los anteriores fueron completados
+   */
+  const canAccessStep = useCallback(
+    (step: CheckoutStep): boolean => {
+      if (step === "complete") return !!state.confirmation;
+      if (state.confirmation) return false;
+
+      return CHECKOUT_STEPS.slice(0, stepIndex(step)).every((previous) =>
+        state.completedSteps.includes(previous)
+      );
+    },
+    [state.completedSteps, state.confirmation]
+  );
+
+  const goToStep = useCallback(
+    (step: CheckoutStep) => {
+      if (!canAccessStep(step)) return;
+      setState((prev) => ({
+        ...prev,
+        step,
+        errors: {},
+        updatedAt: new Date().toISOString(),
+      }));
+    },
+    [canAccessStep]
+  );
+
+  /**
+   * Marca el paso actual como válido, guarda sus datos y avanza
+   */
+  const completeStep = useCallback(
+    (step: CheckoutStep, data: Partial<CheckoutData> = {}) => {
+      setState((prev) => {
+        const next = CHECKOUT_STEPS[stepIndex(step) + 1] ?? step;
+        return {
+          ...prev,
+          data: { ...prev.data, ...data },
+          completedSteps: prev.completedSteps.includes(step)
+            ? prev.completedSteps
+            : [...prev.completedSteps, step],
+          step: next === "complete" ? step : next,
+          errors: {},
+          updatedAt: new Date().toISOString(),
+        };
+      });
+    },
+    []
+  );
+
+  const goBack = useCallback(() => {
+    setState((prev) => {
+      const previous = CHECKOUT_STEPS[stepIndex(prev.step) - 1];
+      if (!previous || prev.step === "complete") return prev;
+      return {
+        ...prev,
+        step: previous,
+        errors: {},
+        updatedAt: new Date().toISOString(),
+      };
+    });
+  }, []);
+
+  const resetCheckout = useCallback(() => {
+    setState(createInitialCheckoutState());
+  }, []);
+
+  /**
+   * Construye la orden con el estado actual del carrito y la envía
+   */
+  const placeOrder = useCallback(
+    async (review: Pick<CheckoutData, "notes"> = {}) => {
+      const { shipping, customer, payment, billing } = state.data;
+
+      if (cart.items.length === 0) {
+        setState((prev) => ({
+          ...prev,
+          step: "cart",
+          errors: { cart: "Tu carrito está vacío" },
+        }));
+        return;
+      }
+
+      if (!shipping || !customer || !payment) {
+        setState((prev) => ({
+          ...prev,
+          errors: { review: "Completa los pasos anteriores" },
+        }));
+        return;
+      }
+
+      const checkoutData: CheckoutData = {
+        items: cart.items,
+        summary: cart.summary,
+        // El carrito re-cotiza el envío si cambiaron los items
+        shipping: {
+          ...(cart.shippingInfo ?? shipping),
+          cost: cart.summary.shipping,
+        },
+        coupon: cart.appliedCoupons[0],
+        coupons: cart.appliedCoupons,
+        customer,
+        billing,
+        payment,
+        notes: review.notes,
+      };
+
+      setState((prev) => ({ ...prev, isProcessing: true, errors: {} }));
+
+      // Confirmar precios y stock contra el catálogo antes de cobrar
+      const issues = await revalidateCart();
+      if (issues.length > 0) {
+        setState((prev) => ({
+          ...prev,
+          step: "cart",
+          isProcessing: false,
+          errors: {
+            cart: "Algunos productos cambiaron de precio o disponibilidad. Revisa los cambios para continuar",
+          },
+        }));
+        return;
+      }
+
+      try {
+        const confirmation = await checkoutService.placeOrder(
+          checkoutData,
+          user?.id
+        );
+        clearCart();
+        queryClient.invalidateQueries({ queryKey: ORDER_QUERY_KEYS.all });
+        setState((prev) => ({
+          ...prev,
+          data: checkoutData,
+          step: "complete",
+          completedSteps: CHECKOUT_STEPS.filter((s) => s !== "complete"),
+          isProcessing: false,
+          confirmation,
+          updatedAt: new Date().toISOString(),
+        }));
+      } catch (error) {
+        const step =
+          error instanceof CheckoutError && error.step ? error.step : "review";
+        const message =
+          error instanceof Error ? error.message : "Error al procesar el pago";
+        setState((prev) => ({
+          ...prev,
+          step,
+          isProcessing: false,
+          errors: { [step]: message },
+        }));
+      }
+    },
+    [
+      cart.items,
+      cart.summary,
+      cart.appliedCoupons,
+      cart.shippingInfo,
+      clearCart,
+      queryClient,
+      revalidateCart,
+      state.data,
+      user?.id,
+    ]
+  );
+
+  return {
+    state,
+    step: state.step,
+    data: state.data,
+    errors: state.errors,
+    isProcessing: state.isProcessing,
+    confirmation: state.confirmation,
+    canAccessStep,
+    goToStep,
+    completeStep,
+    goBack,
+    placeOrder,
+    resetCheckout,
+  };
+}
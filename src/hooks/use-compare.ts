@@ -0,0 +1,42 @@
+/**
+ * Hooks de la Comparación de Productos
+ *
+ * Acceso a los productos elegidos para comparar y a sus datos
+ * actualizados del catálogo.
+ */
+
+import { useContext } from "react";
+import { useQueries } from "@tanstack/react-query";
+import { CompareContext } from "../contexts/compare-context-types";
+import { catalogService } from "../services/catalog.service";
+import { PRODUCT_QUERY_KEYS } from "./use-products";
+
+// Hook para usar el contexto de la comparación
+export function useCompare() {
+  const context = useContext(CompareContext);
+
+  if (context === undefined) {
+    throw new Error("useCompare must be used within a CompareProvider");
+  }
+
+  return context;
+}
+
+// Hook con los productos a comparar actualizados desde el catálogo
+// Mientras carga (o si falla) se usa el snapshot guardado en la bandeja
+export function useCompareProducts() {
+  const { items } = useCompare();
+
+  const queries = useQueries({
+    queries: items.map((item) => ({
+      queryKey: PRODUCT_QUERY_KEYS.detail(item.id),
+      queryFn: () => catalogService.getProductById(item.id),
+      staleTime: 10 * 60 * 1000, // 10 minutos
+    })),
+  });
+
+  return {
+    products: items.map((item, index) => queries[index]?.data ?? item),
+    isLoading: queries.some((query) => query.isLoading),
+  };
+}
@@ -22,6 +22,10 @@ export const FAKESTORE_QUERY_KEYS = {
   product: (id: number) => ["fakestore", "products", id] as const,
   productsByCategory: (category: string) =>
     ["fakestore", "products", "category", category] as const,
+  productsAll: (params?: ProductsQueryParams) =>
+    ["fakestore", "products", "all", params] as const,
+  productsInfinite: (params?: ProductsQueryParams) =>
+    ["fakestore", "products", "infinite", params] as const,
 
   // Categorías
   categories: ["fakestore", "categories"] as const,
@@ -79,19 +83,36 @@ export const useFakeStoreProductsByCategory = (
   });
 };
 
-export const useFakeStoreProductsInfinite = (params?: ProductsQueryParams) => {
+// FakeStore no pagina con offset, solo acepta `limit`: la lista completa se
+// pide una vez y queda en caché, y cada página toma su parte de ella
+export const useFakeStoreProductsInfinite = (
+  params?: ProductsQueryParams,
+  { enabled = true }: { enabled?: boolean } = {}
+) => {
+  const queryClient = useQueryClient();
+  const pageSize = params?.limit || 10;
+  const listParams = { ...params, limit: undefined };
+
   return useInfiniteQuery({
-    queryKey: FAKESTORE_QUERY_KEYS.products,
-    queryFn: () =>
-      FakeStoreService.getProducts({ ...params, limit: params?.limit || 10 }),
+    queryKey: FAKESTORE_QUERY_KEYS.productsInfinite(params),
+    queryFn: async ({ pageParam }) => {
+      const products = await queryClient.ensureQueryData({
+        queryKey: FAKESTORE_QUERY_KEYS.productsAll(listParams),
+        queryFn: () => FakeStoreService.getProducts(listParams),
+        staleTime: 1000 * 60 * 5, // 5 minutos
+      });
+      const start = (pageParam - 1) * pageSize;
+      return products.slice(start, start + pageSize);
+    },
     getNextPageParam: (lastPage, pages) =>
-      lastPage.length > 0 ? pages.length + 1 : undefined,
+      lastPage.length === pageSize ? pages.length + 1 : undefined,
     initialPageParam: 1,
     staleTime: 1000 * 60 * 5, // 5 minutos
     gcTime: 1000 * 60 * 10, // 10 minutos,
     retry: 3,
     select: (data) =>
       data.pages.flatMap((page) => page.map(mapFakeStoreProduct)),
+    enabled,
   });
 };
 
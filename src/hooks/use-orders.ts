@@ -0,0 +1,104 @@
+/**
+ * Hooks de órdenes
+ *
+ * Consultan el historial de pedidos del usuario autenticado con React Query
+ * y derivan sus estadísticas de compra.
+ */
+
+import { useMemo } from "react";
+import {
+  keepPreviousData,
+  useMutation,
+  useQuery,
+  useQueryClient,
+} from "@tanstack/react-query";
+import { useAuth } from "./use-auth";
+import { useWishlist } from "./use-wishlist";
+import { useUserReviewCount } from "./use-reviews";
+import { orderService, OrderError } from "../services/order.service";
+import {
+  calculateOrderStats,
+  isActiveOrder,
+  type OrderFilters,
+} from "../types/order";
+import type { UserStats } from "../types/user";
+
+export const ORDER_QUERY_KEYS = {
+  all: ["orders"] as const,
+  list: (userId: string, filters: OrderFilters) =>
+    ["orders", "list", userId, filters] as const,
+  detail: (orderId: string, userId: string) =>
+    ["orders", "detail", orderId, userId] as const,
+} as const;
+
+export const useOrders = (filters: OrderFilters = {}) => {
+  const { user } = useAuth();
+  const userId = user?.id ?? "";
+
+  return useQuery({
+    queryKey: ORDER_QUERY_KEYS.list(userId, filters),
+    queryFn: () => orderService.getOrders(userId, filters),
+    enabled: !!user,
+    staleTime: 1000 * 30, // 30 segundos
+    placeholderData: keepPreviousData,
+  });
+};
+
+export const useOrder = (orderId: string) => {
+  const { user } = useAuth();
+  const userId = user?.id ?? "";
+
+  return useQuery({
+    queryKey: ORDER_QUERY_KEYS.detail(orderId, userId),
+    queryFn: () => orderService.getOrderById(orderId, user?.id),
+    enabled: !!orderId,
+    retry: (failureCount, error) =>
+      !(error instanceof OrderError) && failureCount < 2,
+  });
+};
+
+export const useCancelOrder = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (orderId: string) => orderService.cancelOrder(orderId, user?.id),
+    onSuccess: (order) => {
+      queryClient.setQueryData(
+        ORDER_QUERY_KEYS.detail(order.id, user?.id ?? ""),
+        order
+      );
+      queryClient.invalidateQueries({ queryKey: ORDER_QUERY_KEYS.all });
+    },
+    onError: (error: OrderError) => {
+      console.error("Error cancelling order:", error);
+    },
+  });
+};
+
+/**
+ * Estadísticas del usuario calculadas a partir de sus órdenes reales
+ */
+export const useOrderStats = () => {
+  const { user } = useAuth();
+  const { data: orders = [], isLoading } = useOrders();
+  const { count: wishlistCount } = useWishlist();
+  const { data: reviewsCount = 0 } = useUserReviewCount();
+
+  const stats = useMemo<UserStats>(
+    () => ({
+      ...calculateOrderStats(orders),
+      joinDate: user?.createdAt ?? "",
+      reviewsCount,
+      wishlistCount,
+    }),
+    [orders, user?.createdAt, reviewsCount, wishlistCount]
+  );
+
+  const activeOrders = useMemo(
+    () => orders.filter(isActiveOrder).length,
+    [orders]
+  );
+
+  return { stats, activeOrders, isLoading };
+};
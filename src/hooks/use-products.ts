@@ -6,134 +6,75 @@
  */
 
 import { useState, useMemo, useCallback, useEffect } from "react";
-import { useQuery } from "@tanstack/react-query";
+import {
+  useInfiniteQuery,
+  useQuery,
+  useQueryClient,
+  type QueryClient,
+} from "@tanstack/react-query";
 import type {
   Product,
   ProductCategory,
   ProductSearchParams,
   ProductSortOption,
 } from "../types/product";
-import productsData from "../data/products.json";
-
-// Simulamos una función de API
-const fetchProducts = async (
-  params: ProductSearchParams = {}
-): Promise<Product[]> => {
-  // Simular delay de API
-  await new Promise((resolve) => setTimeout(resolve, 300));
-
-  // Agregar title como alias de name a todos los productos
-  let filteredProducts = [...productsData].map((product) => ({
-    ...product,
-    title: product.name, // Agregar title como alias de name
-  })) as Product[];
-
-  // Filtrar por categoría
-  if (params.category) {
-    filteredProducts = filteredProducts.filter(
-      (p) => p.category === params.category
-    );
-  }
-
-  // Filtrar por término de búsqueda
-  if (params.query) {
-    const searchTerm = params.query.toLowerCase();
-    filteredProducts = filteredProducts.filter(
-      (p) =>
-        p.name.toLowerCase().includes(searchTerm) ||
-        p.description.toLowerCase().includes(searchTerm) ||
-        p.tags.some((tag) => tag.toLowerCase().includes(searchTerm))
-    );
-  }
-
-  // Filtrar por rango de precio
-  if (params.minPrice !== undefined) {
-    filteredProducts = filteredProducts.filter(
-      (p) => p.price >= params.minPrice!
-    );
-  }
-  if (params.maxPrice !== undefined) {
-    filteredProducts = filteredProducts.filter(
-      (p) => p.price <= params.maxPrice!
-    );
-  }
-
-  // Filtrar por stock
-  if (params.inStock) {
-    filteredProducts = filteredProducts.filter((p) => p.inStock);
-  }
-
-  // Filtrar por tags
-  if (params.tags && params.tags.length > 0) {
-    filteredProducts = filteredProducts.filter((p) =>
-      params.tags!.some((tag) => p.tags.includes(tag))
-    );
-  }
-
-  // Filtrar productos destacados
-  if (params.featured) {
-    filteredProducts = filteredProducts.filter((p) => p.featured);
-  }
-
-  // Filtrar productos en oferta
-  if (params.onSale) {
-    filteredProducts = filteredProducts.filter((p) => p.onSale);
-  }
-
-  // Filtrar por calificación mínima
-  if (params.rating) {
-    filteredProducts = filteredProducts.filter(
-      (p) => p.rating >= params.rating!
-    );
-  }
-
-  // Filtrar por marca
-  if (params.brand) {
-    filteredProducts = filteredProducts.filter((p) => p.brand === params.brand);
-  }
-
-  // Ordenar productos
-  if (params.sort) {
-    filteredProducts = sortProducts(filteredProducts, params.sort);
-  }
-
-  return filteredProducts;
+import { SEARCH_CONSTANTS } from "../types/search";
+import { catalogService } from "../services/catalog.service";
+import {
+  getProductFacets,
+  getQueryScores,
+  queryProducts,
+} from "../lib/catalog";
+import { getSearchSuggestions, getSpellingSuggestion } from "../lib/search";
+
+export const PRODUCT_QUERY_KEYS = {
+  all: ["products"] as const,
+  catalog: ["products", "catalog"] as const,
+  search: (params: ProductSearchParams) =>
+    ["products", "search", params] as const,
+  infinite: (params: ProductSearchParams) =>
+    ["products", "infinite", params] as const,
+  detail: (productId: string) => ["products", "detail", productId] as const,
+} as const;
+
+// Opciones de la consulta del catálogo completo
+const catalogQueryOptions = {
+  queryKey: PRODUCT_QUERY_KEYS.catalog,
+  queryFn: () => catalogService.getProducts(),
+  staleTime: 5 * 60 * 1000, // 5 minutos
 };
 
-// Función para ordenar productos
-const sortProducts = (
-  products: Product[],
-  sortOption: ProductSortOption
-): Product[] => {
-  const sorted = [...products];
-
-  switch (sortOption) {
-    case "price-asc":
-      return sorted.sort((a, b) => a.price - b.price);
-    case "price-desc":
-      return sorted.sort((a, b) => b.price - a.price);
-    case "name-asc":
-      return sorted.sort((a, b) => a.name.localeCompare(b.name));
-    case "name-desc":
-      return sorted.sort((a, b) => b.name.localeCompare(a.name));
-    case "date-desc":
-      return sorted.sort(
-        (a, b) =>
-          new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
-      );
-    case "rating-desc":
-      return sorted.sort((a, b) => b.rating - a.rating);
-    case "popularity-desc":
-      return sorted.sort((a, b) => b.reviewCount - a.reviewCount);
-    default:
-      return sorted;
-  }
-};
+/**
+ * Consulta compartida del catálogo completo
+ * Cada hook deriva sus productos con `select`, así todas las páginas
+ * aplican los mismos filtros sobre una sola petición
+ */
+function useCatalog<T>(select: (products: Product[]) => T, enabled = true) {
+  return useQuery({ ...catalogQueryOptions, select, enabled });
+}
+
+// Productos por página si la búsqueda no indica otro valor
+const DEFAULT_PAGE_SIZE = 12;
+
+/**
+ * Búsqueda completa sobre el catálogo: coincidencias ordenadas y facetas
+ * El texto se puntúa una sola vez para ambas
+ */
+function searchCatalog(products: Product[], params: ProductSearchParams) {
+  const scores = getQueryScores(products, params);
+  return {
+    matches: queryProducts(products, params, scores),
+    facets: getProductFacets(products, params, scores),
+  };
+}
 
 /**
  * Hook principal para manejar productos
  */
-export function useProducts(initialParams: ProductSearchParams = {}) {
+export function useProducts(
+  initialParams: ProductSearchParams = {},
+  { enabled = true }: { enabled?: boolean } = {}
+) {
   const [searchParams, setSearchParams] =
     useState<ProductSearchParams>(initialParams);
 
@@ -142,28 +83,30 @@ export function useProducts(initialParams: ProductSearchParams = {}) {
     setSearchParams(initialParams);
   }, [initialParams]);
 
-  // Query para obtener productos
-  const {
-    data: products = [],
-    isLoading,
-    error,
-    refetch,
-  } = useQuery({
-    queryKey: ["products", searchParams],
-    queryFn: () => fetchProducts(searchParams),
-    staleTime: 5 * 60 * 1000, // 5 minutos
-  });
+  // Productos del catálogo filtrados y ordenados, con sus facetas
+  // Deshabilitado no calcula nada aunque el catálogo esté en caché
+  const selectSearch = useCallback(
+    (data: Product[]) => (enabled ? searchCatalog(data, searchParams) : null),
+    [searchParams, enabled]
+  );
+  const { data, isLoading, error, refetch } = useCatalog(
+    selectSearch,
+    enabled
+  );
+  const products = useMemo(() => data?.matches ?? [], [data]);
+  const facets = data?.facets;
 
   // Paginación
-  const itemsPerPage = searchParams.limit || 12;
-  const currentPage = searchParams.page || 1;
+  const itemsPerPage = searchParams.limit || DEFAULT_PAGE_SIZE;
+  const totalPages = Math.ceil(products.length / itemsPerPage);
+  // Una página fuera de rango (ej. de un enlace viejo) muestra la última
+  const currentPage = Math.min(searchParams.page || 1, Math.max(totalPages, 1));
 
   const paginatedProducts = useMemo(() => {
     const startIndex = (currentPage - 1) * itemsPerPage;
     return products.slice(startIndex, startIndex + itemsPerPage);
   }, [products, currentPage, itemsPerPage]);
 
-  const totalPages = Math.ceil(products.length / itemsPerPage);
   const hasNextPage = currentPage < totalPages;
   const hasPreviousPage = currentPage > 1;
 
@@ -322,6 +265,7 @@ export function useProducts(initialParams: ProductSearchParams = {}) {
     error,
 
     // Paginación
+    total: products.length,
     currentPage,
     totalPages,
     hasNextPage,
@@ -343,6 +287,7 @@ export function useProducts(initialParams: ProductSearchParams = {}) {
 
     // Estadísticas y datos auxiliares
     stats,
+    facets,
     availableCategories,
     availableBrands,
     availableTags,
@@ -354,53 +299,177 @@ export function useProducts(initialParams: ProductSearchParams = {}) {
   };
 }
 
+/**
+ * Hook para el listado con scroll infinito
+ * La búsqueda (orden y facetas) se calcula una vez por combinación de
+ * filtros y cada página solo toma su parte; cambiar un filtro empieza de
+ * nuevo desde la primera página
+ */
+export function useInfiniteProducts(
+  params: ProductSearchParams = {},
+  { enabled = true }: { enabled?: boolean } = {}
+) {
+  const queryClient = useQueryClient();
+  // La página la maneja la consulta, no los filtros
+  const filters = useMemo(() => ({ ...params, page: undefined }), [params]);
+  const pageSize = filters.limit || DEFAULT_PAGE_SIZE;
+
+  const searchOptions = {
+    queryKey: PRODUCT_QUERY_KEYS.search(filters),
+    queryFn: async () =>
+      searchCatalog(
+        await queryClient.ensureQueryData(catalogQueryOptions),
+        filters
+      ),
+    staleTime: catalogQueryOptions.staleTime,
+  };
+  const search = useQuery({ ...searchOptions, enabled });
+
+  const pages = useInfiniteQuery({
+    queryKey: PRODUCT_QUERY_KEYS.infinite(filters),
+    queryFn: async ({ pageParam }) => {
+      const { matches } = await queryClient.ensureQueryData(searchOptions);
+      const start = (pageParam - 1) * pageSize;
+      return {
+        products: matches.slice(start, start + pageSize),
+        hasNext: start + pageSize < matches.length,
+      };
+    },
+    initialPageParam: 1,
+    getNextPageParam: (lastPage, _pages, lastPageParam) =>
+      lastPage.hasNext ? lastPageParam + 1 : undefined,
+    enabled,
+  });
+
+  const products = useMemo(
+    () => pages.data?.pages.flatMap((page) => page.products) ?? [],
+    [pages.data]
+  );
+
+  return {
+    products,
+    facets: search.data?.facets,
+    total: search.data?.matches.length ?? products.length,
+    isLoading: pages.isLoading,
+    error: pages.error ?? search.error,
+    hasNextPage: pages.hasNextPage,
+    isFetchingNextPage: pages.isFetchingNextPage,
+    fetchNextPage: pages.fetchNextPage,
+  };
+}
+
 /**
  * Hook para obtener un producto específico
  */
 export function useProduct(productId: string) {
   return useQuery({
-    queryKey: ["product", productId],
-    queryFn: async () => {
-      const products = await fetchProducts();
-      return products.find((p) => p.id === productId) || null;
-    },
+    queryKey: PRODUCT_QUERY_KEYS.detail(productId),
+    queryFn: () => catalogService.getProductById(productId),
     enabled: !!productId,
     staleTime: 10 * 60 * 1000, // 10 minutos
   });
 }
 
+/**
+ * Consulta un producto ignorando la caché (revalidación del carrito)
+ * Comparte la clave de useProduct, así ambos quedan al día
+ */
+export function fetchFreshProduct(
+  queryClient: QueryClient,
+  productId: string
+): Promise<Product | null> {
+  return queryClient.fetchQuery({
+    queryKey: PRODUCT_QUERY_KEYS.detail(productId),
+    queryFn: () => catalogService.getProductById(productId),
+    staleTime: 0,
+  });
+}
+
 /**
  * Hook para productos destacados
  */
 export function useFeaturedProducts(limit: number = 8) {
-  return useQuery({
-    queryKey: ["featured-products", limit],
-    queryFn: () => fetchProducts({ featured: true }),
-    select: (data) => data.slice(0, limit),
-    staleTime: 15 * 60 * 1000, // 15 minutos
-  });
+  return useCatalog(
+    useCallback(
+      (data: Product[]) =>
+        queryProducts(data, { featured: true }).slice(0, limit),
+      [limit]
+    )
+  );
 }
 
 /**
  * Hook para nuevos productos
  */
 export function useNewProducts(limit: number = 8) {
-  return useQuery({
-    queryKey: ["new-products", limit],
-    queryFn: () => fetchProducts({ sort: "date-desc" }),
-    select: (data) => data.slice(0, limit),
-    staleTime: 10 * 60 * 1000, // 10 minutos
-  });
+  return useCatalog(
+    useCallback(
+      (data: Product[]) =>
+        queryProducts(data, { sort: "date-desc" }).slice(0, limit),
+      [limit]
+    )
+  );
 }
 
 /**
  * Hook para productos en oferta
  */
 export function useSaleProducts(limit: number = 8) {
-  return useQuery({
-    queryKey: ["sale-products", limit],
-    queryFn: () => fetchProducts({ onSale: true }),
-    select: (data) => data.slice(0, limit),
-    staleTime: 5 * 60 * 1000, // 5 minutos
-  });
+  return useCatalog(
+    useCallback(
+      (data: Product[]) => queryProducts(data, { onSale: true }).slice(0, limit),
+      [limit]
+    )
+  );
+}
+
+/**
+ * Hook para productos de una categoría
+ */
+export function useProductsByCategory(
+  category: ProductCategory,
+  limit?: number
+) {
+  return useCatalog(
+    useCallback(
+      (data: Product[]) =>
+        queryProducts(data, { category }).slice(0, limit ?? data.length),
+      [category, limit]
+    )
+  );
+}
+
+/**
+ * Hook para las categorías presentes en el catálogo
+ */
+export function useCatalogCategories() {
+  return useCatalog(
+    useCallback(
+      (data: Product[]) => [...new Set(data.map((p) => p.category))],
+      []
+    )
+  );
+}
+
+/**
+ * Hook para las sugerencias del buscador mientras se escribe
+ * Incluye la corrección "¿Quisiste decir...?" si el texto no encuentra
+ * ningún producto
+ */
+export function useSearchSuggestions(query: string) {
+  return useCatalog(
+    useCallback(
+      (data: Product[]) => {
+        const suggestions = getSearchSuggestions(data, query);
+        const canCorrect =
+          suggestions.products.length === 0 &&
+          query.trim().length >= SEARCH_CONSTANTS.MIN_QUERY_LENGTH;
+        return {
+          ...suggestions,
+          didYouMean: canCorrect ? getSpellingSuggestion(data, query) : null,
+        };
+      },
+      [query]
+    )
+  );
 }
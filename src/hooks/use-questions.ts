@@ -0,0 +1,107 @@
+/**
+ * Hooks de preguntas y respuestas
+ *
+ * Consultan las preguntas de un producto con React Query y permiten
+ * preguntar, responder, votar respuestas y moderar (administradores).
+ */
+
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "./use-auth";
+import { questionService, QuestionError } from "../services/question.service";
+import type { ProductQuestion, QAStatus } from "../types/question";
+import type { User } from "../types/auth";
+
+export const QUESTION_QUERY_KEYS = {
+  all: ["questions"] as const,
+  product: (productId: string) => ["questions", productId] as const,
+  list: (productId: string, viewerId: string) =>
+    ["questions", productId, viewerId] as const,
+} as const;
+
+// Las acciones de preguntas requieren una sesión iniciada
+const requireUser = (user: User | null): User => {
+  if (!user) {
+    throw new QuestionError({
+      code: "AUTH_REQUIRED",
+      message: "Inicia sesión para participar en las preguntas",
+    });
+  }
+  return user;
+};
+
+// Mutación que actualiza las preguntas del producto al terminar
+const useQuestionMutation = <TVariables>(
+  mutationFn: (user: User, variables: TVariables) => Promise<ProductQuestion>
+) => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (variables: TVariables) =>
+      mutationFn(requireUser(user), variables),
+    onSuccess: (question) => {
+      queryClient.invalidateQueries({
+        queryKey: QUESTION_QUERY_KEYS.product(question.productId),
+      });
+    },
+    onError: (error: QuestionError) => {
+      console.error("Error updating question:", error);
+    },
+  });
+};
+
+export const useProductQuestions = (productId: string) => {
+  const { user } = useAuth();
+
+  return useQuery({
+    // El usuario forma parte de la clave: los administradores ven más
+    queryKey: QUESTION_QUERY_KEYS.list(productId, user?.id ?? ""),
+    queryFn: () => questionService.getQuestions(productId, user),
+    enabled: !!productId,
+  });
+};
+
+export const useAskQuestion = (productId: string) =>
+  useQuestionMutation((user, body: string) =>
+    questionService.askQuestion(productId, body, user)
+  );
+
+export const useAnswerQuestion = () =>
+  useQuestionMutation(
+    (user, { questionId, body }: { questionId: string; body: string }) =>
+      questionService.answerQuestion(questionId, body, user)
+  );
+
+export const useToggleAnswerUpvote = () =>
+  useQuestionMutation(
+    (user, { questionId, answerId }: { questionId: string; answerId: string }) =>
+      questionService.toggleAnswerUpvote(questionId, answerId, user.id)
+  );
+
+export const useModerateQuestion = () =>
+  useQuestionMutation(
+    (
+      user,
+      {
+        questionId,
+        answerId,
+        status,
+      }: { questionId: string; answerId?: string; status: QAStatus }
+    ) => questionService.moderate(user, status, questionId, answerId)
+  );
+
+export const useDeleteQuestion = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (questionId: string) =>
+      questionService.deleteQuestion(requireUser(user), questionId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: QUESTION_QUERY_KEYS.all });
+    },
+    onError: (error: QuestionError) => {
+      console.error("Error deleting question:", error);
+    },
+  });
+};
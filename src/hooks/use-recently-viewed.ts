@@ -0,0 +1,72 @@
+/**
+ * Hooks de los productos vistos recientemente
+ *
+ * Historial guardado en el navegador por usuario (o por dispositivo para
+ * invitados), compartido con React Query para que todas las secciones
+ * muestren la misma lista.
+ */
+
+import { useCallback } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "./use-auth";
+import { recentlyViewedService } from "../services/recently-viewed.service";
+import type { Product } from "../types/product";
+import type { RecentlyViewedItem } from "../types/recently-viewed";
+
+export const RECENTLY_VIEWED_QUERY_KEYS = {
+  all: ["recently-viewed"] as const,
+  list: (userId?: string) =>
+    [...RECENTLY_VIEWED_QUERY_KEYS.all, userId ?? "guest"] as const,
+} as const;
+
+// Hook para leer y actualizar el historial del usuario actual
+export function useRecentlyViewed() {
+  const queryClient = useQueryClient();
+  const { user, isLoading: isAuthLoading } = useAuth();
+  const userId = user?.id;
+  const queryKey = RECENTLY_VIEWED_QUERY_KEYS.list(userId);
+
+  // Hasta saber quién es el usuario no se lee ningún historial
+  const { data: items = [] } = useQuery({
+    queryKey,
+    queryFn: () => recentlyViewedService.getRecentlyViewed(userId),
+    staleTime: Infinity,
+    enabled: !isAuthLoading,
+  });
+
+  const setItems = useCallback(
+    (items: RecentlyViewedItem[]) =>
+      queryClient.setQueryData(
+        RECENTLY_VIEWED_QUERY_KEYS.list(userId),
+        items
+      ),
+    [queryClient, userId]
+  );
+
+  const trackProductView = useCallback(
+    (product: Product) => {
+      if (isAuthLoading) return;
+      setItems(recentlyViewedService.addRecentlyViewed(product, userId));
+    },
+    [setItems, isAuthLoading, userId]
+  );
+
+  const removeRecentlyViewed = useCallback(
+    (productId: string) =>
+      setItems(recentlyViewedService.removeRecentlyViewed(productId, userId)),
+    [setItems, userId]
+  );
+
+  const clearRecentlyViewed = useCallback(
+    () => setItems(recentlyViewedService.clearRecentlyViewed(userId)),
+    [setItems, userId]
+  );
+
+  return {
+    items,
+    products: items.map((item) => item.product),
+    trackProductView,
+    removeRecentlyViewed,
+    clearRecentlyViewed,
+  };
+}
@@ -0,0 +1,112 @@
+/**
+ * Hooks de reseñas
+ *
+ * Consultan las reseñas y el resumen de calificaciones de un producto con
+ * React Query, y permiten escribir reseñas y votarlas como útiles.
+ */
+
+import {
+  keepPreviousData,
+  useMutation,
+  useQuery,
+  useQueryClient,
+} from "@tanstack/react-query";
+import { useAuth } from "./use-auth";
+import { PRODUCT_QUERY_KEYS } from "./use-products";
+import { reviewService, ReviewError } from "../services/review.service";
+import type { CreateReviewData, ReviewFilters } from "../types/review";
+
+export const REVIEW_QUERY_KEYS = {
+  all: ["reviews"] as const,
+  product: (productId: string) => ["reviews", productId] as const,
+  list: (productId: string, filters: ReviewFilters) =>
+    ["reviews", productId, "list", filters] as const,
+  summary: (productId: string) => ["reviews", productId, "summary"] as const,
+  userCount: (userId: string) => ["reviews", "user", userId, "count"] as const,
+} as const;
+
+export const useProductReviews = (
+  productId: string,
+  filters: ReviewFilters = {}
+) => {
+  return useQuery({
+    queryKey: REVIEW_QUERY_KEYS.list(productId, filters),
+    queryFn: () => reviewService.getReviews(productId, filters),
+    enabled: !!productId,
+    placeholderData: keepPreviousData,
+  });
+};
+
+export const useRatingSummary = (productId: string) => {
+  return useQuery({
+    queryKey: REVIEW_QUERY_KEYS.summary(productId),
+    queryFn: () => reviewService.getRatingSummary(productId),
+    enabled: !!productId,
+  });
+};
+
+export const useUserReviewCount = () => {
+  const { user } = useAuth();
+  const userId = user?.id ?? "";
+
+  return useQuery({
+    queryKey: REVIEW_QUERY_KEYS.userCount(userId),
+    queryFn: () => reviewService.getUserReviewCount(userId),
+    enabled: !!user,
+  });
+};
+
+export const useCreateReview = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: CreateReviewData) => {
+      if (!user) {
+        throw new ReviewError({
+          code: "AUTH_REQUIRED",
+          message: "Inicia sesión para escribir una reseña",
+        });
+      }
+      return reviewService.createReview(data, user);
+    },
+    onSuccess: (review) => {
+      queryClient.invalidateQueries({
+        queryKey: REVIEW_QUERY_KEYS.product(review.productId),
+      });
+      queryClient.invalidateQueries({
+        queryKey: REVIEW_QUERY_KEYS.userCount(review.userId),
+      });
+      // La calificación del producto se recalcula con la nueva reseña
+      queryClient.invalidateQueries({ queryKey: PRODUCT_QUERY_KEYS.all });
+    },
+    onError: (error: ReviewError) => {
+      console.error("Error creating review:", error);
+    },
+  });
+};
+
+export const useToggleReviewHelpful = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (reviewId: string) => {
+      if (!user) {
+        throw new ReviewError({
+          code: "AUTH_REQUIRED",
+          message: "Inicia sesión para votar reseñas",
+        });
+      }
+      return reviewService.toggleHelpfulVote(reviewId, user.id);
+    },
+    onSuccess: (review) => {
+      queryClient.invalidateQueries({
+        queryKey: REVIEW_QUERY_KEYS.product(review.productId),
+      });
+    },
+    onError: (error: ReviewError) => {
+      console.error("Error voting review:", error);
+    },
+  });
+};
@@ -0,0 +1,54 @@
+/**
+ * Hooks del buscador
+ *
+ * Búsquedas recientes guardadas en el navegador, compartidas con React
+ * Query para que todos los buscadores abiertos muestren la misma lista.
+ */
+
+import { useCallback } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { searchHistoryService } from "../services/search-history.service";
+
+export const SEARCH_QUERY_KEYS = {
+  recent: ["search", "recent"] as const,
+} as const;
+
+// Hook para leer y actualizar las búsquedas recientes
+export function useRecentSearches() {
+  const queryClient = useQueryClient();
+  const { data: recentSearches = [] } = useQuery({
+    queryKey: SEARCH_QUERY_KEYS.recent,
+    queryFn: () => searchHistoryService.getRecentSearches(),
+    staleTime: Infinity,
+  });
+
+  const setRecentSearches = useCallback(
+    (searches: string[]) =>
+      queryClient.setQueryData(SEARCH_QUERY_KEYS.recent, searches),
+    [queryClient]
+  );
+
+  const addRecentSearch = useCallback(
+    (query: string) =>
+      setRecentSearches(searchHistoryService.addRecentSearch(query)),
+    [setRecentSearches]
+  );
+
+  const removeRecentSearch = useCallback(
+    (query: string) =>
+      setRecentSearches(searchHistoryService.removeRecentSearch(query)),
+    [setRecentSearches]
+  );
+
+  const clearRecentSearches = useCallback(
+    () => setRecentSearches(searchHistoryService.clearRecentSearches()),
+    [setRecentSearches]
+  );
+
+  return {
+    recentSearches,
+    addRecentSearch,
+    removeRecentSearch,
+    clearRecentSearches,
+  };
+}
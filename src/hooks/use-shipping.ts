@@ -0,0 +1,29 @@
+/**
+ * Hooks de envío
+ *
+ * Cotizan los métodos de envío para el contenido actual del carrito
+ * y el destino indicado.
+ */
+
+import { useMemo } from "react";
+import { useCart } from "./use-cart";
+import { getShippingQuotes, type ShippingDestination } from "../lib/shipping";
+
+/**
+ * Cotizaciones de todos los métodos para el carrito actual
+ * Sin destino completo, se estiman como envío nacional
+ */
+export function useShippingQuotes(destination?: Partial<ShippingDestination>) {
+  const { cart } = useCart();
+  const city = destination?.city?.trim() ?? "";
+  const state = destination?.state?.trim() ?? "";
+
+  return useMemo(
+    () =>
+      getShippingQuotes({
+        items: cart.items,
+        destination: city && state ? { city, state } : undefined,
+      }),
+    [cart.items, city, state]
+  );
+}
@@ -0,0 +1,111 @@
+/**
+ * Hook de renderizado virtualizado por filas
+ *
+ * Con listas largas solo se montan las filas visibles en la ventana (más
+ * unas de reserva arriba y abajo); el resto se reemplaza por espacio
+ * vacío del mismo alto. El scroll es el de la página, así el listado se
+ * comporta igual que uno normal.
+ */
+
+import {
+  useCallback,
+  useEffect,
+  useLayoutEffect,
+  useRef,
+  useState,
+} from "react";
+
+interface VirtualRowsOptions {
+  count: number; // Total de filas
+  estimateRowHeight: number; // Alto inicial de una fila (px)
+  overscan?: number; // Filas de reserva fuera de la pantalla
+  layoutKey?: string; // Cambia cuando cambia el alto de las filas (vista, columnas)
+}
+
+// Hook para calcular qué filas de una lista larga hay que montar
+export function useVirtualRows({
+  count,
+  estimateRowHeight,
+  overscan = 3,
+  layoutKey,
+}: VirtualRowsOptions) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const firstRowRef = useRef<HTMLElement | null>(null);
+  const [rowHeight, setRowHeight] = useState(estimateRowHeight);
+  // Antes de medir se montan las filas que caben en la primera pantalla
+  const [range, setRange] = useState(() => ({
+    start: 0,
+    end: Math.min(
+      count,
+      Math.ceil(window.innerHeight / estimateRowHeight) + overscan
+    ),
+  }));
+
+  // Recalcular el rango visible con la posición actual del contenedor
+  const updateRange = useCallback(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const top = -container.getBoundingClientRect().top;
+    const start = Math.max(0, Math.floor(top / rowHeight) - overscan);
+    const end = Math.min(
+      count,
+      Math.ceil((top + window.innerHeight) / rowHeight) + overscan
+    );
+    setRange((prev) =>
+      prev.start === start && prev.end === end ? prev : { start, end }
+    );
+  }, [count, rowHeight, overscan]);
+
+  useEffect(() => {
+    updateRange();
+
+    // Agrupar los eventos de scroll en un cálculo por cuadro
+    let frame = 0;
+    const handleChange = () => {
+      cancelAnimationFrame(frame);
+      frame = requestAnimationFrame(updateRange);
+    };
+
+    window.addEventListener("scroll", handleChange, { passive: true });
+    window.addEventListener("resize", handleChange);
+    return () => {
+      cancelAnimationFrame(frame);
+      window.removeEventListener("scroll", handleChange);
+      window.removeEventListener("resize", handleChange);
+    };
+  }, [updateRange]);
+
+  // Medir la primera fila montada: su alto real reemplaza la estimación
+  const measure = useCallback(() => {
+    const height = firstRowRef.current?.getBoundingClientRect().height ?? 0;
+    if (height > 0) setRowHeight(height);
+  }, []);
+
+  /**
+   * Ref para la primera fila montada
+   */
+  const measureRow = useCallback(
+    (element: HTMLElement | null) => {
+      firstRowRef.current = element;
+      measure();
+    },
+    [measure]
+  );
+
+  // Con otra vista o número de columnas las filas montadas se reutilizan
+  // (la ref no vuelve a llamarse), así que se mide de nuevo
+  useLayoutEffect(() => {
+    setRowHeight(estimateRowHeight);
+    measure();
+  }, [layoutKey, estimateRowHeight, measure]);
+
+  return {
+    containerRef,
+    measureRow,
+    startIndex: range.start,
+    endIndex: range.end,
+    paddingTop: range.start * rowHeight,
+    paddingBottom: Math.max(0, count - range.end) * rowHeight,
+  };
+}
@@ -0,0 +1,36 @@
+/**
+ * Hooks de la Lista de Deseos
+ *
+ * Acceso a la lista del usuario actual y consulta de las listas
+ * compartidas por enlace con React Query.
+ */
+
+import { useContext } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { WishlistContext } from "../contexts/wishlist-context-types";
+import { wishlistService } from "../services/wishlist.service";
+
+export const WISHLIST_QUERY_KEYS = {
+  shared: (shareId: string) => ["wishlists", "shared", shareId] as const,
+} as const;
+
+// Hook para usar el contexto de la lista de deseos
+export function useWishlist() {
+  const context = useContext(WishlistContext);
+
+  if (context === undefined) {
+    throw new Error("useWishlist must be used within a WishlistProvider");
+  }
+
+  return context;
+}
+
+// Hook para ver una lista compartida por enlace
+export const useSharedWishlist = (shareId: string) => {
+  return useQuery({
+    queryKey: WISHLIST_QUERY_KEYS.shared(shareId),
+    queryFn: () => wishlistService.getSharedWishlist(shareId),
+    enabled: !!shareId,
+    retry: false,
+  });
+};
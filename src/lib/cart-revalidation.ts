@@ -0,0 +1,183 @@
+/**
+ * Revalidación del carrito contra el catálogo
+ *
+ * Compara el snapshot guardado en cada item (precio y producto) con el
+ * producto actual para detectar cambios de precio y de disponibilidad,
+ * y aplica los cambios cuando el usuario los acepta.
+ */
+
+import type { CartItem, CartItemIssue } from "../types/cart";
+import type { Product } from "../types/product";
+import { formatPrice } from "./utils";
+import { findVariantsById, getVariantPriceDelta } from "./variants";
+
+// Producto actual por ID: null si ya no existe, undefined si no se pudo consultar
+export type CatalogSnapshot = Map<string, Product | null | undefined>;
+
+/**
+ * Precio unitario actual de un item (precio base más su variante)
+ * Si el producto ya no tiene la variante, se conserva el recargo guardado
+ * @param item - Item del carrito
+ * @param product - Producto actualizado
+ */
+export function getCurrentUnitPrice(item: CartItem, product: Product): number {
+  const variants = findVariantsById(product, item.selectedVariant?.id);
+  if (variants.length === 0) {
+    return product.price + (item.selectedVariant?.additionalPrice ?? 0);
+  }
+  return (
+    product.price +
+    variants.reduce((sum, v) => sum + getVariantPriceDelta(product, v), 0)
+  );
+}
+
+/**
+ * Unidades disponibles de un item (el menor stock de sus variantes)
+ * @param item - Item del carrito
+ * @param product - Producto actualizado
+ */
+export function getAvailableStock(item: CartItem, product: Product): number {
+  return findVariantsById(product, item.selectedVariant?.id).reduce(
+    (min, variant) => Math.min(min, variant.stock),
+    product.stock
+  );
+}
+
+/**
+ * Detecta los cambios de precio y stock de los items
+ * Los productos que no se pudieron consultar no se marcan
+ * @param items - Items del carrito
+ * @param catalog - Productos actuales por ID
+ * @returns Cambios detectados (un item puede tener más de uno)
+ */
+export function detectItemIssues(
+  items: CartItem[],
+  catalog: CatalogSnapshot
+): CartItemIssue[] {
+  return items.flatMap((item) => {
+    const product = catalog.get(item.productId);
+    if (product === undefined) return [];
+    if (product === null) return [{ itemId: item.id, type: "unavailable" }];
+
+    const issues: CartItemIssue[] = [];
+    const availableStock = getAvailableStock(item, product);
+
+    if (!product.inStock || availableStock <= 0) {
+      issues.push({
+        itemId: item.id,
+        type: "out-of-stock",
+        availableStock: 0,
+        product,
+      });
+    } else if (item.quantity > availableStock) {
+      issues.push({
+        itemId: item.id,
+        type: "insufficient-stock",
+        availableStock,
+        product,
+      });
+    }
+
+    const currentPrice = getCurrentUnitPrice(item, product);
+    if (currentPrice !== item.unitPrice) {
+      issues.push({
+        itemId: item.id,
+        type:
+          currentPrice > item.unitPrice ? "price-increase" : "price-decrease",
+        previousPrice: item.unitPrice,
+        currentPrice,
+        product,
+      });
+    }
+
+    return issues;
+  });
+}
+
+/**
+ * Descarta los cambios que ya no aplican a los items actuales
+ * (item eliminado o cantidad ya ajustada al stock disponible)
+ * @param issues - Cambios pendientes
+ * @param items - Items actuales del carrito
+ */
+export function pruneItemIssues(
+  issues: CartItemIssue[],
+  items: CartItem[]
+): CartItemIssue[] {
+  return issues.filter((issue) => {
+    const item = items.find((i) => i.id === issue.itemId);
+    if (!item) return false;
+    if (issue.type === "insufficient-stock") {
+      return item.quantity > (issue.availableStock ?? 0);
+    }
+    return true;
+  });
+}
+
+/**
+ * Aplica los cambios aceptados a los items
+ * Actualiza precios y snapshot, ajusta cantidades al stock y quita
+ * los productos agotados o que ya no existen
+ * @param items - Items del carrito
+ * @param issues - Cambios aceptados
+ * @returns Items actualizados
+ */
+export function applyItemIssues(
+  items: CartItem[],
+  issues: CartItemIssue[]
+): CartItem[] {
+  return items.flatMap((item) => {
+    const itemIssues = issues.filter((issue) => issue.itemId === item.id);
+    if (itemIssues.length === 0) return [item];
+
+    if (
+      itemIssues.some(
+        (issue) => issue.type === "unavailable" || issue.type === "out-of-stock"
+      )
+    ) {
+      return [];
+    }
+
+    let updated = item;
+    itemIssues.forEach((issue) => {
+      if (issue.product) {
+        updated = { ...updated, product: issue.product };
+      }
+      if (issue.currentPrice !== undefined) {
+        updated = {
+          ...updated,
+          unitPrice: issue.currentPrice,
+          priceAtAddTime: issue.currentPrice,
+        };
+      }
+      if (issue.type === "insufficient-stock" && issue.availableStock) {
+        updated = {
+          ...updated,
+          quantity: Math.min(updated.quantity, issue.availableStock),
+        };
+      }
+    });
+
+    const totalPrice = updated.unitPrice * updated.quantity;
+    return [{ ...updated, totalPrice, subtotal: totalPrice }];
+  });
+}
+
+/**
+ * Mensaje para mostrar un cambio al usuario
+ * @param issue - Cambio detectado
+ */
+export function describeItemIssue(issue: CartItemIssue): string {
+  switch (issue.type) {
+    case "price-increase":
+      return `El precio subió a ${formatPrice(issue.currentPrice ?? 0)}`;
+    case "price-decrease":
+      return `El precio bajó a ${formatPrice(issue.currentPrice ?? 0)}`;
+    case "insufficient-stock":
+      return `Solo quedan ${issue.availableStock ?? 0} unidades`;
+    case "out-of-stock":
+      return "Producto agotado";
+    case "unavailable":
+      return "Este producto ya no está disponible";
+  }
+}
@@ -0,0 +1,141 @@
+/**
+ * Filtros del catálogo en la URL
+ *
+ * Convierte los parámetros de búsqueda de productos en query string y
+ * viceversa, para que cada vista del listado se pueda guardar, compartir
+ * y recuperar con el botón atrás. Los valores de la URL se validan: lo
+ * que no es válido se descarta en lugar de romper la búsqueda.
+ *
+ * Ejemplo: /productos?categoria=clothing&min=50000&sort=price-asc&page=2
+ */
+
+import {
+  PRODUCT_CATEGORIES,
+  PRODUCT_SORT_OPTIONS,
+  type ProductCategory,
+  type ProductSearchParams,
+  type ProductSortOption,
+} from "../types/product";
+
+// Nombre de cada parámetro en la URL, en el orden en que se escriben
+const URL_KEYS = {
+  query: "q",
+  category: "categoria",
+  minPrice: "min",
+  maxPrice: "max",
+  rating: "rating",
+  brand: "brand",
+  tags: "tag",
+  inStock: "stock",
+  onSale: "sale",
+  featured: "featured",
+  sort: "sort",
+  page: "page",
+  limit: "limit",
+} as const satisfies Record<keyof ProductSearchParams, string>;
+
+// Límites de los valores numéricos
+const MAX_QUERY_LENGTH = 100;
+const MAX_PAGE_SIZE = 48;
+const MAX_RATING = 5;
+
+// Valores aceptados como "verdadero" en los filtros booleanos
+const TRUE_VALUES = ["1", "true"];
+
+/**
+ * Lee un entero dentro de un rango
+ * @returns El número, o undefined si no es un entero válido
+ */
+function parseInteger(
+  value: string | null,
+  min: number,
+  max: number = Number.MAX_SAFE_INTEGER
+): number | undefined {
+  if (value === null || !/^\d+$/.test(value)) return undefined;
+  const number = Number(value);
+  return number >= min && number <= max ? number : undefined;
+}
+
+/**
+ * Lee los filtros del catálogo desde la URL
+ * @param searchParams - Query string de la página
+ * @returns Filtros válidos (los valores inválidos se ignoran)
+ */
+export function parseProductSearchParams(
+  searchParams: URLSearchParams
+): ProductSearchParams {
+  const get = (key: keyof typeof URL_KEYS) =>
+    searchParams.get(URL_KEYS[key])?.trim() || null;
+  const getFlag = (key: keyof typeof URL_KEYS) =>
+    TRUE_VALUES.includes(get(key) ?? "") || undefined;
+
+  const category = get("category");
+  const sort = get("sort");
+  const minPrice = parseInteger(get("minPrice"), 0);
+  let maxPrice = parseInteger(get("maxPrice"), 0);
+  // Un máximo menor que el mínimo no deja resultados: se descarta
+  if (minPrice !== undefined && maxPrice !== undefined && maxPrice < minPrice) {
+    maxPrice = undefined;
+  }
+  const tags = [
+    ...new Set(
+      searchParams
+        .getAll(URL_KEYS.tags)
+        .map((tag) => tag.trim())
+        .filter(Boolean)
+    ),
+  ];
+
+  const params: ProductSearchParams = {
+    query: get("query")?.slice(0, MAX_QUERY_LENGTH),
+    category: PRODUCT_CATEGORIES.includes(category as ProductCategory)
+      ? (category as ProductCategory)
+      : undefined,
+    minPrice,
+    maxPrice,
+    rating: parseInteger(get("rating"), 1, MAX_RATING),
+    brand: get("brand") ?? undefined,
+    tags: tags.length > 0 ? tags : undefined,
+    inStock: getFlag("inStock"),
+    onSale: getFlag("onSale"),
+    featured: getFlag("featured"),
+    sort: PRODUCT_SORT_OPTIONS.includes(sort as ProductSortOption)
+      ? (sort as ProductSortOption)
+      : undefined,
+    page: parseInteger(get("page"), 1),
+    limit: parseInteger(get("limit"), 1, MAX_PAGE_SIZE),
+  };
+
+  // Quitar las claves sin valor para que los filtros sean comparables
+  (Object.keys(params) as (keyof ProductSearchParams)[]).forEach((key) => {
+    if (params[key] === undefined) delete params[key];
+  });
+
+  return params;
+}
+
+/**
+ * Escribe los filtros del catálogo como query string
+ * Omite los valores vacíos y la primera página, así cada vista tiene una
+ * sola URL
+ * @param params - Filtros del catálogo
+ */
+export function serializeProductSearchParams(
+  params: ProductSearchParams
+): URLSearchParams {
+  const searchParams = new URLSearchParams();
+
+  (Object.keys(URL_KEYS) as (keyof typeof URL_KEYS)[]).forEach((key) => {
+    const value = params[key];
+    if (value === undefined || value === "" || value === false) return;
+    if (key === "page" && value === 1) return;
+
+    if (Array.isArray(value)) {
+      value.forEach((item) => searchParams.append(URL_KEYS[key], item));
+    } else {
+      searchParams.set(URL_KEYS[key], value === true ? "1" : String(value));
+    }
+  });
+
+  return searchParams;
+}
@@ -0,0 +1,248 @@
+/**
+ * Consultas sobre el catálogo de productos
+ *
+ * Filtros, ordenamiento y facetas comunes a todos los orígenes del
+ * catálogo (JSON local o FakeStore), para que cada página reciba los
+ * mismos resultados sin importar el backend configurado.
+ */
+
+import type {
+  FacetOption,
+  Product,
+  ProductFacets,
+  ProductSearchParams,
+  ProductSearchResult,
+  ProductSortOption,
+} from "../types/product";
+import { getSearchScores } from "./search";
+
+// Límites de los rangos de precio del filtro (COP): cada uno es el
+// precio mínimo del rango siguiente
+const PRICE_RANGE_LIMITS = [50000, 100000, 200000, 500000, 1000000];
+
+// Calificaciones mínimas que ofrece el filtro
+const RATING_OPTIONS = [4, 3, 2, 1];
+
+// Productos por página si la búsqueda no indica otro valor
+const DEFAULT_PAGE_SIZE = 12;
+
+/**
+ * Puntaje de relevancia de cada producto que coincide con el texto
+ * Se calcula una vez y se pasa a los filtros, el orden y las facetas
+ * @returns undefined si la búsqueda no tiene texto
+ */
+export function getQueryScores(
+  products: Product[],
+  params: ProductSearchParams
+): Map<string, number> | undefined {
+  return params.query?.trim()
+    ? getSearchScores(products, params.query)
+    : undefined;
+}
+
+/**
+ * Filtra productos según los parámetros de búsqueda
+ * @param products - Productos del catálogo
+ * @param params - Filtros a aplicar
+ * @param scores - Puntajes del texto ya calculados (se calculan si faltan)
+ * @returns Productos que cumplen todos los filtros
+ */
+export function filterProducts(
+  products: Product[],
+  params: ProductSearchParams = {},
+  scores: Map<string, number> | undefined = getQueryScores(products, params)
+): Product[] {
+  return products.filter((p) => {
+    if (params.category && p.category !== params.category) return false;
+    if (scores && !scores.has(p.id)) return false;
+    if (params.minPrice !== undefined && p.price < params.minPrice) {
+      return false;
+    }
+    if (params.maxPrice !== undefined && p.price > params.maxPrice) {
+      return false;
+    }
+    if (params.inStock && !p.inStock) return false;
+    if (
+      params.tags &&
+      params.tags.length > 0 &&
+      !params.tags.some((tag) => p.tags.includes(tag))
+    ) {
+      return false;
+    }
+    if (params.featured && !p.featured) return false;
+    if (params.onSale && !p.onSale) return false;
+    if (params.rating && p.rating < params.rating) return false;
+    if (params.brand && p.brand !== params.brand) return false;
+    return true;
+  });
+}
+
+/**
+ * Ordena productos sin modificar el arreglo original
+ * @param products - Productos a ordenar
+ * @param sortOption - Criterio de orden (sin criterio conserva el orden)
+ */
+export function sortProducts(
+  products: Product[],
+  sortOption?: ProductSortOption
+): Product[] {
+  const sorted = [...products];
+
+  switch (sortOption) {
+    case "price-asc":
+      return sorted.sort((a, b) => a.price - b.price);
+    case "price-desc":
+      return sorted.sort((a, b) => b.price - a.price);
+    case "name-asc":
+      return sorted.sort((a, b) => a.name.localeCompare(b.name));
+    case "name-desc":
+      return sorted.sort((a, b) => b.name.localeCompare(a.name));
+    case "date-desc":
+      return sorted.sort(
+        (a, b) =>
+          new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+      );
+    case "rating-desc":
+      return sorted.sort((a, b) => b.rating - a.rating);
+    case "popularity-desc":
+      return sorted.sort((a, b) => b.reviewCount - a.reviewCount);
+    case "relevance": // Sin búsqueda no hay puntaje: orden del catálogo
+    default:
+      return sorted;
+  }
+}
+
+/**
+ * Aplica filtros y orden en un solo paso
+ * Con texto de búsqueda y sin criterio de orden se ordena por relevancia
+ * @param products - Productos del catálogo
+ * @param params - Filtros y criterio de orden
+ * @param scores - Puntajes del texto ya calculados (se calculan si faltan)
+ */
+export function queryProducts(
+  products: Product[],
+  params: ProductSearchParams = {},
+  scores: Map<string, number> | undefined = getQueryScores(products, params)
+): Product[] {
+  const matches = filterProducts(products, params, scores);
+  const sort = params.sort ?? (scores ? "relevance" : undefined);
+
+  if (sort === "relevance" && scores) {
+    return matches.sort(
+      (a, b) => (scores.get(b.id) ?? 0) - (scores.get(a.id) ?? 0)
+    );
+  }
+
+  return sortProducts(matches, sort);
+}
+
+/**
+ * Cuenta cuántos productos tiene cada valor de una faceta
+ * Los valores salen de todo el catálogo, así las opciones sin productos
+ * siguen apareciendo (con cero)
+ * @param catalog - Todos los productos
+ * @param matches - Productos sobre los que se cuenta
+ * @param getValues - Valores de la faceta de un producto
+ */
+function countFacetValues<T>(
+  catalog: Product[],
+  matches: Product[],
+  getValues: (product: Product) => T[]
+): FacetOption<T>[] {
+  const counts = new Map<T, number>();
+  catalog.forEach((p) => getValues(p).forEach((v) => counts.set(v, 0)));
+  matches.forEach((p) =>
+    getValues(p).forEach((v) => counts.set(v, (counts.get(v) ?? 0) + 1))
+  );
+
+  return [...counts]
+    .map(([value, count]) => ({ value, count }))
+    .sort((a, b) => b.count - a.count);
+}
+
+/**
+ * Calcula las facetas de una búsqueda
+ * Cada faceta se cuenta sobre los productos que cumplen los demás
+ * filtros, para poder cambiar de opción sin limpiar la búsqueda
+ * @param products - Todos los productos del catálogo
+ * @param params - Filtros aplicados
+ * @param scores - Puntajes del texto ya calculados (se calculan si faltan)
+ */
+export function getProductFacets(
+  products: Product[],
+  params: ProductSearchParams = {},
+  scores: Map<string, number> | undefined = getQueryScores(products, params)
+): ProductFacets {
+  // El texto nunca se quita, así los puntajes sirven para todas las facetas
+  const matchingOthers = (...keys: (keyof ProductSearchParams)[]) => {
+    const rest = { ...params };
+    keys.forEach((key) => delete rest[key]);
+    return filterProducts(products, rest, scores);
+  };
+
+  const byPrice = matchingOthers("minPrice", "maxPrice");
+  const byRating = matchingOthers("rating");
+  const prices = filterProducts(byPrice, params, scores).map((p) => p.price);
+
+  return {
+    categories: countFacetValues(
+      products,
+      matchingOthers("category"),
+      (p) => [p.category]
+    ),
+    priceRange: {
+      min: prices.length > 0 ? Math.min(...prices) : 0,
+      max: prices.length > 0 ? Math.max(...prices) : 0,
+    },
+    // Rangos sin solaparse: cada límite abre el rango siguiente, así un
+    // precio justo en el límite se cuenta una sola vez
+    priceRanges: [0, ...PRICE_RANGE_LIMITS].map((min, i) => {
+      const limit = PRICE_RANGE_LIMITS[i];
+      const max = limit === undefined ? undefined : limit - 1;
+      return {
+        min,
+        max,
+        count: filterProducts(byPrice, { minPrice: min, maxPrice: max })
+          .length,
+      };
+    }),
+    brands: countFacetValues(products, matchingOthers("brand"), (p) => [
+      p.brand,
+    ]),
+    tags: countFacetValues(products, matchingOthers("tags"), (p) => p.tags),
+    ratings: RATING_OPTIONS.map((rating) => ({
+      value: rating,
+      count: byRating.filter((p) => p.rating >= rating).length,
+    })),
+  };
+}
+
+/**
+ * Busca productos: filtra, ordena, pagina y calcula las facetas
+ * @param products - Todos los productos del catálogo
+ * @param params - Filtros, orden y página
+ * @returns Resultado paginado con las facetas de la búsqueda
+ */
+export function searchProducts(
+  products: Product[],
+  params: ProductSearchParams = {}
+): ProductSearchResult {
+  // Los puntajes del texto se calculan una sola vez por búsqueda
+  const scores = getQueryScores(products, params);
+  const matches = queryProducts(products, params, scores);
+  const limit = params.limit || DEFAULT_PAGE_SIZE;
+  const page = params.page || 1;
+  const totalPages = Math.ceil(matches.length / limit);
+  const startIndex = (page - 1) * limit;
+
+  return {
+    products: matches.slice(startIndex, startIndex + limit),
+    total: matches.length,
+    page,
+    limit,
+    totalPages,
+    hasNext: page < totalPages,
+    hasPrev: page > 1,
+    filters: getProductFacets(products, params, scores),
+  };
+}
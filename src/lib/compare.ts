@@ -0,0 +1,120 @@
+/**
+ * Tabla comparativa de productos
+ *
+ * Alinea los atributos de varios productos en filas: datos generales,
+ * envío y todas las especificaciones que tenga al menos uno de ellos.
+ * Cada fila indica si los productos difieren para poder resaltarla.
+ */
+
+import type { Product } from "../types/product";
+import type { ComparisonRow, ComparisonSection } from "../types/compare";
+import { DEFAULT_SHIPPING_METHOD, calculateBaseShipping } from "../types/cart";
+import { formatPrice } from "./utils";
+
+// Atributos de las especificaciones que ya aparecen en otras secciones
+const DUPLICATED_SPEC_KEYS = ["brand", "category", "rating", "reviews"];
+
+/**
+ * Nombre visible de una clave de especificación ("chipModel" -> "chip model")
+ * @param key - Clave del objeto specs
+ */
+export function getSpecLabel(key: string): string {
+  return key.replace(/([A-Z])/g, " $1").toLowerCase();
+}
+
+/**
+ * Arma una fila y calcula si sus valores difieren
+ * @param key - Identificador de la fila
+ * @param label - Nombre visible
+ * @param values - Valor por producto (null = no aplica)
+ */
+function createRow(
+  key: string,
+  label: string,
+  values: (string | null)[]
+): ComparisonRow {
+  return {
+    key,
+    label,
+    values,
+    isDifferent: values.length > 1 && new Set(values).size > 1,
+  };
+}
+
+/**
+ * Costo de envío estándar de un producto comprado solo
+ */
+function getShippingLabel(product: Product): string {
+  const isFree =
+    product.shippingInfo?.freeShipping ??
+    calculateBaseShipping(product.price) === 0;
+  return isFree ? "Gratis" : formatPrice(DEFAULT_SHIPPING_METHOD.cost);
+}
+
+/**
+ * Construye la tabla comparativa de varios productos
+ * @param products - Productos a comparar, en el orden de las columnas
+ * @returns Secciones con sus filas alineadas por producto
+ */
+export function buildComparison(products: Product[]): ComparisonSection[] {
+  const row = (
+    key: string,
+    label: string,
+    getValue: (product: Product) => string | null
+  ) => createRow(key, label, products.map(getValue));
+
+  // Especificaciones en el orden en que aparecen por primera vez
+  const specKeys = [
+    ...new Set(
+      products.flatMap((p) =>
+        Object.entries(p.specs ?? {})
+          .filter(([, value]) => value?.trim())
+          .map(([key]) => key)
+      )
+    ),
+  ].filter((key) => !DUPLICATED_SPEC_KEYS.includes(key));
+
+  return [
+    {
+      title: "General",
+      rows: [
+        row("price", "Precio", (p) => formatPrice(p.price)),
+        row("discount", "Descuento", (p) =>
+          p.onSale && p.discount ? `${p.discount}%` : null
+        ),
+        row(
+          "rating",
+          "Calificación",
+          (p) => `${p.rating.toFixed(1)} (${p.reviewCount} reseñas)`
+        ),
+        row("stock", "Disponibilidad", (p) =>
+          p.stock > 0 ? `${p.stock} disponibles` : "Agotado"
+        ),
+        row("brand", "Marca", (p) => p.brand || null),
+        row("category", "Categoría", (p) => p.category),
+      ],
+    },
+    {
+      title: "Envío",
+      rows: [
+        row("shipping", "Envío estándar", getShippingLabel),
+        row(
+          "deliveryDays",
+          "Tiempo de entrega",
+          (p) =>
+            `${
+              p.shippingInfo?.estimatedDays ??
+              DEFAULT_SHIPPING_METHOD.estimatedDays
+            } días`
+        ),
+        row("weight", "Peso", (p) => (p.weight ? `${p.weight}g` : null)),
+      ],
+    },
+    {
+      title: "Especificaciones",
+      rows: specKeys.map((key) =>
+        row(`spec-${key}`, getSpecLabel(key), (p) => p.specs?.[key] ?? null)
+      ),
+    },
+  ].filter((section) => section.rows.length > 0);
+}
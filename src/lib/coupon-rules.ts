@@ -0,0 +1,349 @@
+/**
+ * Motor de reglas de cupones
+ *
+ * Evalúa un cupón contra el contenido del carrito: vigencia, límites de uso,
+ * productos y categorías elegibles, compra mínima y cantidad mínima.
+ * Devuelve el descuento calculado o un rechazo estructurado.
+ *
+ * Política de combinación:
+ * - Un cupón exclusivo no se combina con ningún otro
+ * - Máximo CART_CONSTANTS.MAX_COUPONS cupones por compra
+ * - Los porcentajes se aplican primero y los montos fijos sobre el saldo
+ * - El descuento total no supera CART_CONSTANTS.MAX_COUPON_DISCOUNT_RATE
+ *   del subtotal; los cupones de envío gratis solo anulan el envío
+ */
+
+import {
+  CART_CONSTANTS,
+  calculateBaseShipping,
+  type CartItem,
+  type Coupon,
+  type CouponDiscountLine,
+  type CouponEvaluation,
+  type CouponRejection,
+  type CouponRejectionCode,
+} from "../types/cart";
+import { formatPrice } from "./utils";
+
+// Contexto necesario para evaluar un cupón
+export interface CouponRuleContext {
+  items: CartItem[]; // Items del carrito
+  appliedCoupons?: Coupon[]; // Cupones ya aplicados (al agregar uno nuevo)
+  userId?: string; // Usuario que aplica el cupón
+  userUsageCount?: number; // Veces que el usuario ya lo usó
+  now?: Date; // Fecha de evaluación (por defecto ahora)
+  skipUsageLimits?: boolean; // Omitir límites de uso (re-evaluación del carrito)
+}
+
+/**
+ * Construye un rechazo con su mensaje para el usuario
+ * @param coupon - Cupón rechazado
+ * @param code - Motivo del rechazo
+ * @param values - Valor requerido y valor actual
+ * @returns Rechazo estructurado
+ */
+function reject(
+  coupon: Coupon,
+  code: CouponRejectionCode,
+  values: { required?: number; current?: number } = {}
+): CouponEvaluation {
+  const messages: Record<CouponRejectionCode, string> = {
+    NOT_FOUND: "El cupón no existe",
+    INACTIVE: "El cupón no está activo",
+    NOT_STARTED: `El cupón estará vigente desde el ${new Date(
+      coupon.validFrom
+    ).toLocaleDateString("es-CO")}`,
+    EXPIRED: "El cupón ya venció",
+    USAGE_LIMIT_REACHED: "El cupón ya alcanzó su límite de usos",
+    USER_LIMIT_REACHED: "Ya usaste este cupón el máximo de veces permitido",
+    LOGIN_REQUIRED: "Inicia sesión para usar este cupón",
+    ALREADY_APPLIED: "El cupón ya está aplicado",
+    NOT_COMBINABLE: coupon.exclusive
+      ? "Este cupón no se puede combinar con otros cupones"
+      : "Tienes un cupón aplicado que no se puede combinar",
+    MAX_COUPONS_REACHED: `Solo puedes usar ${
+      values.required ?? 0
+    } cupones por compra`,
+    MIN_PURCHASE_NOT_MET: `Compra mínima requerida: ${formatPrice(
+      values.required ?? 0
+    )}`,
+    NO_ELIGIBLE_ITEMS: "Ningún producto de tu carrito aplica para este cupón",
+    MIN_QUANTITY_NOT_MET: `Necesitas al menos ${
+      values.required ?? 0
+    } productos elegibles`,
+  };
+
+  const rejection: CouponRejection = {
+    code,
+    message: messages[code],
+    couponCode: coupon.code,
+    ...values,
+  };
+
+  return { valid: false, coupon, rejection };
+}
+
+/**
+ * Rechazo para un código que no corresponde a ningún cupón
+ * @param couponCode - Código ingresado
+ * @returns Evaluación inválida
+ */
+export function rejectUnknownCoupon(couponCode: string): CouponEvaluation {
+  return {
+    valid: false,
+    rejection: {
+      code: "NOT_FOUND",
+      message: "El cupón no existe",
+      couponCode,
+    },
+  };
+}
+
+/**
+ * Indica si un item del carrito es elegible para el cupón
+ * Sin restricciones, todos los items son elegibles; con restricciones,
+ * basta con coincidir por producto o por categoría
+ * @param coupon - Cupón a evaluar
+ * @param item - Item del carrito
+ */
+export function isItemEligible(coupon: Coupon, item: CartItem): boolean {
+  const { categories, products } = coupon.applicable;
+  const hasCategories = !!categories && categories.length > 0;
+  const hasProducts = !!products && products.length > 0;
+
+  if (!hasCategories && !hasProducts) return true;
+
+  return (
+    (hasProducts && products.includes(item.productId)) ||
+    (hasCategories && categories.includes(item.product.category))
+  );
+}
+
+/**
+ * Calcula el descuento de un cupón sobre una base
+ * @param coupon - Cupón
+ * @param base - Subtotal de los items elegibles
+ * @returns Descuento (nunca mayor que la base)
+ */
+export function calculateCouponDiscount(coupon: Coupon, base: number): number {
+  let discount = 0;
+
+  if (coupon.type === "percentage") {
+    discount = (base * coupon.value) / 100;
+    if (coupon.maxDiscount) {
+      discount = Math.min(discount, coupon.maxDiscount);
+    }
+  } else if (coupon.type === "fixed") {
+    discount = coupon.value;
+  }
+
+  return Math.round(Math.min(discount, base));
+}
+
+/**
+ * Evalúa un cupón contra el carrito
+ * @param coupon - Cupón a evaluar
+ * @param context - Items, usuario y usos previos
+ * @returns Evaluación con el descuento o el motivo del rechazo
+ */
+export function evaluateCoupon(
+  coupon: Coupon,
+  context: CouponRuleContext
+): CouponEvaluation {
+  const now = context.now ?? new Date();
+
+  // Estado y vigencia
+  if (!coupon.active || !coupon.isActive) {
+    return reject(coupon, "INACTIVE");
+  }
+  if (now < new Date(coupon.validFrom)) {
+    return reject(coupon, "NOT_STARTED");
+  }
+  if (now > new Date(coupon.validUntil)) {
+    return reject(coupon, "EXPIRED");
+  }
+
+  // Combinación con los cupones ya aplicados
+  const applied = context.appliedCoupons ?? [];
+  if (
+    applied.some((c) => c.code.toUpperCase() === coupon.code.toUpperCase())
+  ) {
+    return reject(coupon, "ALREADY_APPLIED");
+  }
+  if (
+    applied.length > 0 &&
+    (coupon.exclusive || applied.some((c) => c.exclusive))
+  ) {
+    return reject(coupon, "NOT_COMBINABLE");
+  }
+  if (applied.length >= CART_CONSTANTS.MAX_COUPONS) {
+    return reject(coupon, "MAX_COUPONS_REACHED", {
+      required: CART_CONSTANTS.MAX_COUPONS,
+      current: applied.length,
+    });
+  }
+
+  // Límites de uso
+  if (!context.skipUsageLimits) {
+    if (
+      coupon.usageLimit !== undefined &&
+      coupon.usageCount >= coupon.usageLimit
+    ) {
+      return reject(coupon, "USAGE_LIMIT_REACHED", {
+        required: coupon.usageLimit,
+        current: coupon.usageCount,
+      });
+    }
+    if (coupon.userLimit !== undefined) {
+      if (!context.userId) {
+        return reject(coupon, "LOGIN_REQUIRED");
+      }
+      const used = context.userUsageCount ?? 0;
+      if (used >= coupon.userLimit) {
+        return reject(coupon, "USER_LIMIT_REACHED", {
+          required: coupon.userLimit,
+          current: used,
+        });
+      }
+    }
+  }
+
+  // Compra mínima sobre el subtotal del carrito
+  const subtotal = context.items.reduce(
+    (sum, item) => sum + item.totalPrice,
+    0
+  );
+  const minPurchase = coupon.minOrderAmount ?? coupon.minPurchase;
+  if (minPurchase && subtotal < minPurchase) {
+    return reject(coupon, "MIN_PURCHASE_NOT_MET", {
+      required: minPurchase,
+      current: subtotal,
+    });
+  }
+
+  // Items elegibles y cantidad mínima
+  const eligibleItems = context.items.filter((item) =>
+    isItemEligible(coupon, item)
+  );
+  if (eligibleItems.length === 0) {
+    return reject(coupon, "NO_ELIGIBLE_ITEMS");
+  }
+
+  const eligibleQuantity = eligibleItems.reduce(
+    (sum, item) => sum + item.quantity,
+    0
+  );
+  const minQuantity = coupon.applicable.minQuantity;
+  if (minQuantity && eligibleQuantity < minQuantity) {
+    return reject(coupon, "MIN_QUANTITY_NOT_MET", {
+      required: minQuantity,
+      current: eligibleQuantity,
+    });
+  }
+
+  const discountBase = eligibleItems.reduce(
+    (sum, item) => sum + item.totalPrice,
+    0
+  );
+
+  return {
+    valid: true,
+    coupon,
+    eligibleItemIds: eligibleItems.map((item) => item.id),
+    discountBase,
+    discount: calculateCouponDiscount(coupon, discountBase),
+  };
+}
+
+// Resultado de aplicar los cupones del carrito
+export interface CouponStackResult {
+  couponDiscount: number; // Descuento total sobre el subtotal
+  freeShipping: boolean; // Si un cupón anula el costo de envío
+  couponBreakdown: CouponDiscountLine[]; // Detalle por cupón
+  itemDiscounts: Record<string, number>; // Descuento repartido en cada item
+}
+
+// Orden de aplicación: porcentajes, montos fijos y luego envío gratis
+const couponTypeOrder: Record<Coupon["type"], number> = {
+  percentage: 0,
+  fixed: 1,
+  "free-shipping": 2,
+};
+
+/**
+ * Aplica los cupones del carrito según la política de combinación
+ * Cada cupón descuenta sobre el saldo de sus items elegibles que dejaron
+ * los cupones anteriores; los que ya no cumplen sus reglas no descuentan
+ * @param coupons - Cupones aplicados al carrito
+ * @param items - Items del carrito
+ * @param shippingCost - Costo del envío cotizado (el ahorro del envío gratis)
+ * @returns Descuentos totales, por cupón y por item
+ */
+export function applyCouponStack(
+  coupons: Coupon[],
+  items: CartItem[],
+  shippingCost?: number
+): CouponStackResult {
+  const subtotal = items.reduce((sum, item) => sum + item.totalPrice, 0);
+  const maxDiscount = Math.round(
+    subtotal * CART_CONSTANTS.MAX_COUPON_DISCOUNT_RATE
+  );
+
+  // Saldo pendiente de cada item luego de los descuentos previos
+  const remaining = new Map(items.map((item) => [item.id, item.totalPrice]));
+  const couponBreakdown: CouponDiscountLine[] = [];
+  let couponDiscount = 0;
+  let freeShipping = false;
+
+  const ordered = [...coupons].sort(
+    (a, b) => couponTypeOrder[a.type] - couponTypeOrder[b.type]
+  );
+
+  for (const coupon of ordered) {
+    const evaluation = evaluateCoupon(coupon, { items, skipUsageLimits: true });
+    if (!evaluation.valid) continue;
+
+    if (coupon.type === "free-shipping") {
+      const shippingSaved = shippingCost ?? calculateBaseShipping(subtotal);
+      freeShipping = true;
+      couponBreakdown.push({
+        code: coupon.code,
+        description: coupon.description,
+        type: coupon.type,
+        amount: shippingSaved,
+      });
+      continue;
+    }
+
+    const base = evaluation.eligibleItemIds.reduce(
+      (sum, id) => sum + (remaining.get(id) ?? 0),
+      0
+    );
+    const amount = Math.min(
+      calculateCouponDiscount(coupon, base),
+      maxDiscount - couponDiscount
+    );
+    if (amount <= 0) continue;
+
+    // Repartir el descuento entre los items elegibles en proporción a su saldo
+    evaluation.eligibleItemIds.forEach((id) => {
+      const itemRemaining = remaining.get(id) ?? 0;
+      remaining.set(id, itemRemaining - (itemRemaining / base) * amount);
+    });
+
+    couponDiscount += amount;
+    couponBreakdown.push({
+      code: coupon.code,
+      description: coupon.description,
+      type: coupon.type,
+      amount,
+    });
+  }
+
+  const itemDiscounts: Record<string, number> = {};
+  items.forEach((item) => {
+    itemDiscounts[item.id] = item.totalPrice - (remaining.get(item.id) ?? 0);
+  });
+
+  return { couponDiscount, freeShipping, couponBreakdown, itemDiscounts };
+}
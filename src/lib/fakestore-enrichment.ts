@@ -0,0 +1,98 @@
+/**
+ * Datos de tienda para los productos de FakeStore
+ *
+ * FakeStore no trae stock, ofertas, peso ni fecha de publicación. Se
+ * generan con un generador pseudoaleatorio sembrado con el ID del
+ * producto, así cada producto muestra siempre los mismos valores, y se
+ * pueden fijar por producto en data/fakestore-overrides.json.
+ */
+
+import overridesData from "../data/fakestore-overrides.json";
+
+// Datos generados para un producto
+export interface ProductEnrichment {
+  stock: number; // Unidades disponibles
+  onSale: boolean; // Si está en oferta
+  discount: number; // Porcentaje de descuento (0 sin oferta)
+  weight: number; // Peso en gramos
+  createdAt: string; // Fecha de publicación (ISO string)
+  newArrival: boolean; // Si es nueva llegada
+}
+
+// Valores fijados a mano por ID de producto
+const overrides = overridesData as Record<string, Partial<ProductEnrichment>>;
+
+// Tasa por defecto si VITE_USD_TO_COP_RATE no está configurada
+const DEFAULT_USD_TO_COP_RATE = 3800;
+
+// Fecha de referencia para las fechas de publicación generadas
+const CATALOG_REFERENCE_DATE = Date.UTC(2024, 5, 1);
+const DAY = 24 * 60 * 60 * 1000;
+
+// Días desde la publicación para considerar un producto nueva llegada
+const NEW_ARRIVAL_DAYS = 45;
+
+/**
+ * Tasa de cambio USD -> COP configurada (VITE_USD_TO_COP_RATE)
+ */
+export function getUsdToCopRate(): number {
+  const configured = Number(import.meta.env.VITE_USD_TO_COP_RATE);
+  return Number.isFinite(configured) && configured > 0
+    ? configured
+    : DEFAULT_USD_TO_COP_RATE;
+}
+
+/**
+ * Convierte un precio en dólares a pesos colombianos
+ * @param amount - Precio en USD
+ * @returns Precio en COP redondeado
+ */
+export function convertUsdToCop(amount: number): number {
+  return Math.round(amount * getUsdToCopRate());
+}
+
+/**
+ * Generador pseudoaleatorio con semilla (mulberry32)
+ * @param seed - Semilla; la misma semilla produce la misma secuencia
+ * @returns Función que devuelve números entre 0 (incluido) y 1
+ */
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Datos de tienda de un producto de FakeStore
+ * @param productId - ID del producto en FakeStore
+ * @returns Valores generados con los ajustes del archivo de overrides
+ */
+export function getProductEnrichment(productId: number): ProductEnrichment {
+  const random = createSeededRandom(productId);
+  // Se consumen siempre en el mismo orden para que cada valor sea estable
+  const stockRoll = random();
+  const saleRoll = random();
+  const discountRoll = random();
+  const weightRoll = random();
+  const ageRoll = random();
+
+  const onSale = saleRoll > 0.6;
+  const daysSincePublished = Math.floor(ageRoll * 365);
+
+  return {
+    stock: Math.floor(stockRoll * 50) + 10,
+    onSale,
+    discount: onSale ? Math.floor(discountRoll * 30) + 10 : 0,
+    weight: Math.floor(weightRoll * 2000) + 100,
+    createdAt: new Date(
+      CATALOG_REFERENCE_DATE - daysSincePublished * DAY
+    ).toISOString(),
+    newArrival: daysSincePublished < NEW_ARRIVAL_DAYS,
+    ...overrides[String(productId)],
+  };
+}
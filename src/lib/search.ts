@@ -0,0 +1,366 @@
+/**
+ * Búsqueda de productos
+ *
+ * Índice de búsqueda construido en el cliente a partir del catálogo:
+ * - Los textos se normalizan sin tildes ("electrónicos" = "electronicos")
+ * - Cada palabra se reduce a su raíz ("camisetas" -> "camiset")
+ * - Se toleran errores de tipeo según el largo de la palabra
+ * - Los campos pesan distinto: nombre > etiquetas > descripción
+ *
+ * Todas las palabras de la búsqueda deben coincidir con el producto; el
+ * puntaje suma la mejor coincidencia de cada palabra.
+ *
+ * Sobre el mismo índice se arman las sugerencias del autocompletado y la
+ * corrección "¿Quisiste decir...?" cuando una búsqueda no encuentra nada.
+ */
+
+import type { Product } from "../types/product";
+import {
+  SEARCH_CONSTANTS,
+  type SearchSuggestion,
+  type SearchSuggestions,
+} from "../types/search";
+
+// Peso de cada campo del producto en el puntaje
+const FIELD_WEIGHTS = {
+  name: 3,
+  tags: 2,
+  description: 1,
+} as const;
+
+type SearchField = keyof typeof FIELD_WEIGHTS;
+
+const SEARCH_FIELDS = Object.keys(FIELD_WEIGHTS) as SearchField[];
+
+// Puntaje de cada tipo de coincidencia de una palabra
+const MATCH_SCORES = {
+  exact: 1,
+  prefix: 0.8,
+  fuzzy: 0.6,
+} as const;
+
+// Palabras sin valor para la búsqueda (español e inglés)
+const STOP_WORDS = new Set(
+  (
+    "a al con de del el en la las lo los para por sin un una y " +
+    "and for of the to with"
+  ).split(" ")
+);
+
+// Sufijos que se quitan para obtener la raíz, de más largo a más corto
+const SUFFIXES = (
+  "amientos imientos amiento imiento aciones uciones idades mente acion " +
+  "ucion ables ibles istas ismos idad able ible ista ismo osos osas icos " +
+  "icas oso osa ico ica es as os s a o"
+).split(" ");
+
+// Largo mínimo de una raíz
+const MIN_STEM_LENGTH = 3;
+
+// Índice del catálogo: palabras de cada campo por producto
+interface IndexedProduct {
+  id: string;
+  fields: Record<SearchField, string[]>;
+}
+
+export type ProductSearchIndex = IndexedProduct[];
+
+// Índices ya construidos por arreglo de productos
+const indexCache = new WeakMap<Product[], ProductSearchIndex>();
+
+// Vocabulario (palabras completas) ya construido por arreglo de productos
+const vocabularyCache = new WeakMap<Product[], string[]>();
+
+/**
+ * Normaliza un texto: minúsculas, sin tildes y solo letras y números
+ * @param text - Texto original
+ */
+export function normalizeText(text: string): string {
+  return text
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+/**
+ * Reduce una palabra a su raíz quitando sufijos comunes
+ * @param word - Palabra normalizada
+ */
+export function stemWord(word: string): string {
+  const suffix = SUFFIXES.find(
+    (s) => word.endsWith(s) && word.length - s.length >= MIN_STEM_LENGTH
+  );
+  return suffix ? word.slice(0, -suffix.length) : word;
+}
+
+/**
+ * Convierte un texto en raíces de búsqueda sin palabras vacías
+ * @param text - Texto original
+ */
+export function tokenize(text: string): string[] {
+  return normalizeText(text)
+    .split(" ")
+    .filter((word) => word && !STOP_WORDS.has(word))
+    .map(stemWord);
+}
+
+/**
+ * Distancia de edición entre dos palabras, limitada a un máximo
+ * Cuenta como un solo error cambiar, agregar, quitar o intercambiar dos
+ * letras vecinas ("iphnoe" -> "iphone")
+ * @param a - Primera palabra
+ * @param b - Segunda palabra
+ * @param max - Distancia máxima que interesa
+ * @returns La distancia, o max + 1 si la supera
+ */
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let beforePrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(
+        previous[j]! + 1,
+        current[j - 1]! + 1,
+        previous[j - 1]! + cost
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, beforePrevious[j - 2]! + 1);
+      }
+      current.push(value);
+      rowMin = Math.min(rowMin, value);
+    }
+    if (rowMin > max) return max + 1;
+    beforePrevious = previous;
+    previous = current;
+  }
+
+  return previous[b.length]!;
+}
+
+// Errores de tipeo tolerados según el largo de la palabra buscada
+const getAllowedTypos = (term: string): number =>
+  term.length <= 3 ? 0 : term.length <= 6 ? 1 : 2;
+
+/**
+ * Puntaje de la mejor coincidencia de una palabra en un campo
+ * @param term - Raíz buscada
+ * @param words - Raíces del campo
+ */
+function matchTerm(term: string, words: string[]): number {
+  const allowedTypos = getAllowedTypos(term);
+  let best = 0;
+
+  for (const word of words) {
+    if (word === term) return MATCH_SCORES.exact;
+    if (term.length >= MIN_STEM_LENGTH && word.startsWith(term)) {
+      best = Math.max(best, MATCH_SCORES.prefix);
+    } else if (
+      best < MATCH_SCORES.fuzzy &&
+      allowedTypos > 0 &&
+      editDistance(term, word, allowedTypos) <= allowedTypos
+    ) {
+      best = MATCH_SCORES.fuzzy;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Construye el índice de búsqueda de un catálogo
+ * @param products - Productos a indexar
+ */
+export function buildSearchIndex(products: Product[]): ProductSearchIndex {
+  return products.map((product) => ({
+    id: product.id,
+    fields: {
+      name: tokenize(product.name),
+      tags: tokenize(
+        [product.category, product.brand, ...product.tags].join(" ")
+      ),
+      description: tokenize(product.description),
+    },
+  }));
+}
+
+/**
+ * Busca en el índice y devuelve el puntaje de cada producto encontrado
+ * @param index - Índice del catálogo
+ * @param query - Texto buscado
+ * @returns ID de producto -> puntaje (solo productos que coinciden)
+ */
+export function searchIndex(
+  index: ProductSearchIndex,
+  query: string
+): Map<string, number> {
+  const terms = tokenize(query);
+  const scores = new Map<string, number>();
+  if (terms.length === 0) return scores;
+
+  index.forEach((entry) => {
+    let total = 0;
+    for (const term of terms) {
+      const termScore = Math.max(
+        ...SEARCH_FIELDS.map(
+          (field) =>
+            FIELD_WEIGHTS[field] * matchTerm(term, entry.fields[field])
+        )
+      );
+      // Todas las palabras deben coincidir
+      if (termScore === 0) return;
+      total += termScore;
+    }
+    scores.set(entry.id, total);
+  });
+
+  return scores;
+}
+
+/**
+ * Puntajes de búsqueda sobre un catálogo, reutilizando su índice
+ * @param products - Productos del catálogo
+ * @param query - Texto buscado
+ */
+export function getSearchScores(
+  products: Product[],
+  query: string
+): Map<string, number> {
+  let index = indexCache.get(products);
+  if (!index) {
+    index = buildSearchIndex(products);
+    indexCache.set(products, index);
+  }
+  return searchIndex(index, query);
+}
+
+/**
+ * Cuenta cuántas veces aparece cada valor y los ordena de mayor a menor
+ * @param values - Valores repetidos
+ * @param limit - Máximo de valores a devolver
+ */
+function rankByCount<T>(values: T[], limit: number): [T, number][] {
+  const counts = new Map<T, number>();
+  values.forEach((value) => counts.set(value, (counts.get(value) ?? 0) + 1));
+  return [...counts].sort((a, b) => b[1] - a[1]).slice(0, limit);
+}
+
+/**
+ * Sugerencias del autocompletado para un texto
+ * @param products - Productos del catálogo
+ * @param query - Texto escrito por el usuario
+ * @returns Productos más relevantes y las categorías y marcas con más
+ * coincidencias
+ */
+export function getSearchSuggestions(
+  products: Product[],
+  query: string
+): SearchSuggestions {
+  const suggestions: SearchSuggestions = {
+    products: [],
+    categories: [],
+    brands: [],
+  };
+  if (query.trim().length < SEARCH_CONSTANTS.MIN_QUERY_LENGTH) {
+    return suggestions;
+  }
+
+  const scores = getSearchScores(products, query);
+  const matches = products
+    .filter((p) => scores.has(p.id))
+    .sort((a, b) => scores.get(b.id)! - scores.get(a.id)!);
+
+  suggestions.products = matches
+    .slice(0, SEARCH_CONSTANTS.MAX_PRODUCT_SUGGESTIONS)
+    .map(
+      (p): SearchSuggestion => ({
+        type: "product",
+        value: p.name,
+        label: p.name,
+        productId: p.id,
+      })
+    );
+  suggestions.categories = rankByCount(
+    matches.map((p) => p.category),
+    SEARCH_CONSTANTS.MAX_GROUP_SUGGESTIONS
+  ).map(([category, count]) => ({
+    type: "category",
+    value: category,
+    label: category,
+    category,
+    count,
+  }));
+  suggestions.brands = rankByCount(
+    matches.map((p) => p.brand),
+    SEARCH_CONSTANTS.MAX_GROUP_SUGGESTIONS
+  ).map(([brand, count]) => ({
+    type: "brand",
+    value: brand,
+    label: brand,
+    count,
+  }));
+
+  return suggestions;
+}
+
+/**
+ * Palabras completas del catálogo, para corregir búsquedas
+ * @param products - Productos del catálogo
+ */
+function getVocabulary(products: Product[]): string[] {
+  let vocabulary = vocabularyCache.get(products);
+  if (!vocabulary) {
+    const words = products
+      .flatMap((p) => [p.name, p.category, p.brand, ...p.tags])
+      .flatMap((text) => normalizeText(text).split(" "));
+    vocabulary = [
+      ...new Set(words.filter((w) => w.length > 1 && !STOP_WORDS.has(w))),
+    ];
+    vocabularyCache.set(products, vocabulary);
+  }
+  return vocabulary;
+}
+
+/**
+ * Corrección "¿Quisiste decir...?" para una búsqueda sin resultados
+ * Reemplaza cada palabra desconocida por la más parecida del catálogo,
+ * con más tolerancia que la búsqueda normal
+ * @param products - Productos del catálogo
+ * @param query - Texto buscado
+ * @returns Texto corregido, o null si no hay una corrección con resultados
+ */
+export function getSpellingSuggestion(
+  products: Product[],
+  query: string
+): string | null {
+  const vocabulary = getVocabulary(products);
+  const words = normalizeText(query).split(" ").filter(Boolean);
+  let changed = false;
+
+  const corrected = words.map((word) => {
+    if (STOP_WORDS.has(word) || vocabulary.includes(word)) return word;
+
+    const maxTypos = getAllowedTypos(word) + 1;
+    let best = word;
+    let bestDistance = maxTypos + 1;
+    for (const candidate of vocabulary) {
+      const distance = editDistance(word, candidate, maxTypos);
+      if (distance < bestDistance) {
+        best = candidate;
+        bestDistance = distance;
+      }
+    }
+    if (best !== word) changed = true;
+    return best;
+  });
+
+  if (!changed) return null;
+  const suggestion = corrected.join(" ");
+  return getSearchScores(products, suggestion).size > 0 ? suggestion : null;
+}
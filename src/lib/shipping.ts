@@ -0,0 +1,298 @@
+/**
+ * Calculadora de envíos
+ *
+ * Cotiza cada método de envío según la estrategia configurada en
+ * CartConfig.shippingCalculation:
+ * - flat: tarifa fija del método
+ * - weight: tarifa del método más un valor por kilo adicional
+ * - zone: tarifa por peso ajustada según la zona del destino
+ *
+ * El peso facturable de cada producto es el mayor entre su peso real y
+ * su peso volumétrico (largo × ancho × alto / 5000, en kg).
+ */
+
+import {
+  SHIPPING_METHODS,
+  type CartConfig,
+  type CartItem,
+  type ShippingInfo,
+  type ShippingMethod,
+  type ShippingQuote,
+  type ShippingZone,
+} from "../types/cart";
+
+export type ShippingStrategy = CartConfig["shippingCalculation"];
+
+// Datos mínimos del destino (compatible con UserAddress)
+export type ShippingDestination = Pick<
+  ShippingInfo["address"],
+  "city" | "state"
+>;
+
+// Contexto necesario para cotizar un envío
+export interface ShippingContext {
+  items: CartItem[]; // Items del carrito
+  destination?: ShippingDestination; // Destino (sin él se asume nacional)
+  now?: Date; // Fecha de referencia para la entrega estimada
+}
+
+// Estrategia de cálculo: costo de un método antes de envío gratis
+export interface ShippingCalculator {
+  calculate: (
+    method: ShippingMethod,
+    billableWeight: number,
+    zone: ShippingZone
+  ) => number;
+}
+
+// Peso asumido para productos sin peso registrado (gramos)
+const DEFAULT_ITEM_WEIGHT = 500;
+
+// Peso incluido en la tarifa base y valor por kilo adicional
+const INCLUDED_WEIGHT = 1000;
+const COST_PER_EXTRA_KG = 2500;
+
+// Ajustes por zona: multiplicador de tarifa y días adicionales
+const ZONE_SETTINGS: Record<
+  ShippingZone,
+  { multiplier: number; extraDays: number; label: string }
+> = {
+  local: { multiplier: 0.7, extraDays: 0, label: "Bogotá" },
+  regional: { multiplier: 1, extraDays: 1, label: "Región central" },
+  national: { multiplier: 1.3, extraDays: 2, label: "Resto del país" },
+  remote: { multiplier: 2, extraDays: 5, label: "Zona de difícil acceso" },
+};
+
+// Departamentos cercanos a la bodega o con conexión directa
+const REGIONAL_DEPARTMENTS = [
+  "cundinamarca",
+  "boyaca",
+  "meta",
+  "tolima",
+  "huila",
+  "caldas",
+  "risaralda",
+  "quindio",
+  "antioquia",
+  "valle del cauca",
+  "santander",
+];
+
+// Departamentos con logística especial
+const REMOTE_DEPARTMENTS = [
+  "amazonas",
+  "guainia",
+  "guaviare",
+  "vaupes",
+  "vichada",
+  "putumayo",
+  "san andres",
+];
+
+const strategies: Record<ShippingStrategy, ShippingCalculator> = {
+  flat: {
+    calculate: (method) => method.cost,
+  },
+  weight: {
+    calculate: (method, billableWeight) => {
+      const extraKg = Math.ceil(
+        Math.max(0, billableWeight - INCLUDED_WEIGHT) / 1000
+      );
+      return method.cost + extraKg * COST_PER_EXTRA_KG;
+    },
+  },
+  zone: {
+    calculate: (method, billableWeight, zone) =>
+      strategies.weight.calculate(method, billableWeight, zone) *
+      ZONE_SETTINGS[zone].multiplier,
+  },
+};
+
+/**
+ * Estrategia configurada (VITE_SHIPPING_CALCULATION), por defecto "zone"
+ */
+export const SHIPPING_STRATEGY: ShippingStrategy = (() => {
+  const configured = import.meta.env.VITE_SHIPPING_CALCULATION;
+  return configured && configured in strategies
+    ? (configured as ShippingStrategy)
+    : "zone";
+})();
+
+// Normaliza un nombre de lugar: minúsculas y sin tildes
+const normalizePlace = (value: string): string =>
+  value
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .trim();
+
+/**
+ * Determina la zona de envío de un destino
+ * @param destination - Ciudad y departamento del destino
+ * @returns Zona del destino ("national" si no se conoce)
+ */
+export function getShippingZone(
+  destination?: ShippingDestination
+): ShippingZone {
+  if (!destination) return "national";
+
+  const city = normalizePlace(destination.city);
+  const state = normalizePlace(destination.state);
+
+  if (city.startsWith("bogota") || state.startsWith("bogota")) return "local";
+  if (REMOTE_DEPARTMENTS.some((name) => state.includes(name))) return "remote";
+  if (REGIONAL_DEPARTMENTS.includes(state)) return "regional";
+  return "national";
+}
+
+/**
+ * Nombre visible de una zona de envío
+ * @param zone - Zona de envío
+ */
+export function getShippingZoneLabel(zone: ShippingZone): string {
+  return ZONE_SETTINGS[zone].label;
+}
+
+/**
+ * Calcula el peso facturable del carrito
+ * @param items - Items del carrito
+ * @returns Peso en gramos (real o volumétrico, el mayor)
+ */
+export function calculateBillableWeight(items: CartItem[]): number {
+  return items.reduce((total, item) => {
+    const { weight, shippingInfo, dimensions } = item.product;
+    const actual = weight ?? shippingInfo?.weight ?? DEFAULT_ITEM_WEIGHT;
+    // Dimensiones en cm: (l × a × h / 5000) kg equivale a (l × a × h / 5) g
+    const volumetric = dimensions
+      ? (dimensions.length * dimensions.width * dimensions.height) / 5
+      : 0;
+    return total + Math.max(actual, volumetric) * item.quantity;
+  }, 0);
+}
+
+/**
+ * Cotiza un método de envío para el carrito y el destino
+ * @param method - Método de envío
+ * @param context - Items, destino y fecha de referencia
+ * @param strategy - Estrategia de cálculo
+ * @returns Cotización con costo, entrega estimada y disponibilidad
+ */
+export function quoteShippingMethod(
+  method: ShippingMethod,
+  context: ShippingContext,
+  strategy: ShippingStrategy = SHIPPING_STRATEGY
+): ShippingQuote {
+  const { items } = context;
+  const zone = getShippingZone(context.destination);
+  const billableWeight = calculateBillableWeight(items);
+  const subtotal = items.reduce((sum, item) => sum + item.totalPrice, 0);
+
+  let unavailableReason: string | undefined;
+  if (method.zones && !method.zones.includes(zone)) {
+    unavailableReason = `No disponible para ${getShippingZoneLabel(
+      zone
+    ).toLowerCase()}`;
+  } else if (method.maxWeight && billableWeight > method.maxWeight) {
+    unavailableReason = `Tu pedido supera los ${method.maxWeight / 1000} kg`;
+  }
+
+  const isFree =
+    items.length > 0 &&
+    !!method.freeThreshold &&
+    subtotal >= method.freeThreshold;
+  // Redondear a centenas de peso
+  const cost =
+    items.length === 0 || isFree
+      ? 0
+      : Math.round(
+          strategies[strategy].calculate(method, billableWeight, zone) / 100
+        ) * 100;
+
+  // Las zonas solo alargan la entrega en la estrategia por zona
+  const estimatedDays =
+    method.estimatedDays +
+    (strategy === "zone" ? ZONE_SETTINGS[zone].extraDays : 0);
+  const estimatedDelivery = new Date(context.now ?? Date.now());
+  estimatedDelivery.setDate(estimatedDelivery.getDate() + estimatedDays);
+  // La entrega el mismo día se promete para el cierre de la jornada
+  if (estimatedDays === 0) estimatedDelivery.setHours(23, 59, 59, 999);
+
+  return {
+    method: { ...method, cost },
+    zone,
+    cost,
+    isFree,
+    billableWeight,
+    estimatedDays,
+    estimatedDelivery: estimatedDelivery.toISOString(),
+    available: !unavailableReason,
+    unavailableReason,
+  };
+}
+
+/**
+ * Cotiza todos los métodos de envío disponibles
+ * @param context - Items, destino y fecha de referencia
+ * @param strategy - Estrategia de cálculo
+ * @returns Cotizaciones, primero las disponibles y de menor costo
+ */
+export function getShippingQuotes(
+  context: ShippingContext,
+  strategy: ShippingStrategy = SHIPPING_STRATEGY
+): ShippingQuote[] {
+  return SHIPPING_METHODS.map((method) =>
+    quoteShippingMethod(method, context, strategy)
+  ).sort(
+    (a, b) => Number(b.available) - Number(a.available) || a.cost - b.cost
+  );
+}
+
+/**
+ * Buscar un método de envío por su ID
+ * @param methodId - ID del método
+ */
+export function findShippingMethod(
+  methodId: string
+): ShippingMethod | undefined {
+  return SHIPPING_METHODS.find((method) => method.id === methodId);
+}
+
+/**
+ * Crea la información de envío a partir de una cotización
+ * @param quote - Cotización elegida
+ * @param address - Dirección de entrega
+ */
+export function createShippingInfo(
+  quote: ShippingQuote,
+  address: ShippingInfo["address"]
+): ShippingInfo {
+  return {
+    method: quote.method,
+    address,
+    cost: quote.cost,
+    estimatedDelivery: quote.estimatedDelivery,
+  };
+}
+
+/**
+ * Vuelve a cotizar el envío elegido cuando cambian los items
+ * Si el método deja de estar disponible, se usa el primero que lo esté
+ * @param shippingInfo - Envío elegido
+ * @param items - Items actuales del carrito
+ * @returns Envío con costo y entrega actualizados
+ */
+export function requoteShippingInfo(
+  shippingInfo: ShippingInfo,
+  items: CartItem[]
+): ShippingInfo {
+  const context = { items, destination: shippingInfo.address };
+  const method =
+    findShippingMethod(shippingInfo.method.id) ?? shippingInfo.method;
+
+  let quote = quoteShippingMethod(method, context);
+  if (!quote.available) {
+    quote = getShippingQuotes(context)[0] ?? quote;
+  }
+
+  return createShippingInfo(quote, shippingInfo.address);
+}
@@ -0,0 +1,139 @@
+/**
+ * Motor de impuestos
+ *
+ * Calcula el IVA de cada item según la tasa de su categoría (o la tasa
+ * propia del producto) sobre el valor neto de descuentos por cupones.
+ * Soporta precios con IVA incluido (se desglosa el impuesto contenido)
+ * y precios sin IVA (el impuesto se suma al total).
+ */
+
+import type {
+  CartItem,
+  CartItemTax,
+  TaxBreakdownEntry,
+} from "../types/cart";
+import type { Product, ProductCategory } from "../types/product";
+
+// Configuración del motor de impuestos
+export interface TaxConfig {
+  pricesIncludeTax: boolean; // Si los precios del catálogo incluyen IVA
+  defaultRate: number; // Tasa para categorías sin tasa definida
+  categoryRates: Partial<Record<ProductCategory, number>>; // Tasa por categoría
+}
+
+// Resultado del cálculo de impuestos del carrito
+export interface CartTaxResult {
+  tax: number; // Impuesto total
+  taxLines: CartItemTax[]; // Impuesto de cada item
+  taxBreakdown: TaxBreakdownEntry[]; // Impuestos agrupados por tasa
+  pricesIncludeTax: boolean; // Si los precios ya incluyen el IVA
+}
+
+/**
+ * Configuración por defecto (IVA Colombia)
+ * VITE_PRICES_INCLUDE_TAX=true indica que el catálogo ya incluye el IVA
+ */
+export const TAX_CONFIG: TaxConfig = {
+  pricesIncludeTax: import.meta.env.VITE_PRICES_INCLUDE_TAX === "true",
+  defaultRate: 0.19,
+  categoryRates: {
+    electronics: 0.19,
+    clothing: 0.19,
+    books: 0, // Libros exentos de IVA
+    home: 0.19,
+    sports: 0.19,
+    toys: 0.19,
+    beauty: 0.19,
+    food: 0.05, // Alimentos procesados con tarifa diferencial
+  },
+};
+
+/**
+ * Obtiene la tasa de IVA de un producto
+ * @param product - Producto
+ * @param config - Configuración de impuestos
+ * @returns Tasa propia del producto o la de su categoría
+ */
+export function getTaxRate(
+  product: Pick<Product, "category" | "taxRate">,
+  config: TaxConfig = TAX_CONFIG
+): number {
+  return (
+    product.taxRate ??
+    config.categoryRates[product.category] ??
+    config.defaultRate
+  );
+}
+
+/**
+ * Etiqueta para mostrar una tasa de IVA
+ * @param rate - Tasa (0.19 = 19%)
+ */
+export function getTaxLabel(rate: number): string {
+  return rate === 0 ? "Exento de IVA" : `IVA ${Math.round(rate * 100)}%`;
+}
+
+/**
+ * Calcula la base y el impuesto de un monto
+ * @param amount - Monto de la línea
+ * @param rate - Tasa de IVA
+ * @param pricesIncludeTax - Si el monto ya incluye el IVA
+ * @returns Base gravable e impuesto redondeados a pesos
+ */
+export function calculateLineTax(
+  amount: number,
+  rate: number,
+  pricesIncludeTax: boolean
+): { base: number; tax: number } {
+  if (pricesIncludeTax) {
+    const base = Math.round(amount / (1 + rate));
+    return { base, tax: Math.round(amount) - base };
+  }
+
+  const base = Math.round(amount);
+  return { base, tax: Math.round(amount * rate) };
+}
+
+/**
+ * Calcula los impuestos del carrito
+ * @param items - Items del carrito
+ * @param itemDiscounts - Descuento de cupones repartido en cada item
+ * @param config - Configuración de impuestos
+ * @returns Impuesto total, por item y agrupado por tasa
+ */
+export function calculateCartTax(
+  items: CartItem[],
+  itemDiscounts: Record<string, number> = {},
+  config: TaxConfig = TAX_CONFIG
+): CartTaxResult {
+  const taxLines: CartItemTax[] = items.map((item) => {
+    const rate = getTaxRate(item.product, config);
+    const amount = item.totalPrice - (itemDiscounts[item.id] ?? 0);
+    const { base, tax } = calculateLineTax(
+      amount,
+      rate,
+      config.pricesIncludeTax
+    );
+    return { itemId: item.id, rate, base, tax };
+  });
+
+  const byRate = new Map<number, TaxBreakdownEntry>();
+  taxLines.forEach((line) => {
+    const entry = byRate.get(line.rate) ?? {
+      rate: line.rate,
+      label: getTaxLabel(line.rate),
+      base: 0,
+      tax: 0,
+    };
+    entry.base += line.base;
+    entry.tax += line.tax;
+    byRate.set(line.rate, entry);
+  });
+
+  return {
+    tax: taxLines.reduce((sum, line) => sum + line.tax, 0),
+    taxLines,
+    taxBreakdown: [...byRate.values()].sort((a, b) => b.rate - a.rate),
+    pricesIncludeTax: config.pricesIncludeTax,
+  };
+}
@@ -0,0 +1,189 @@
+/**
+ * Selección de variantes de producto
+ *
+ * Las variantes se agrupan por su nombre (ej. "Color", "Talla") y el
+ * usuario elige una opción de cada grupo. La combinación elegida define
+ * el precio (precio base más la diferencia de cada variante), el stock
+ * (el menor entre las variantes elegidas) y la imagen a mostrar.
+ */
+
+import type { CartItem } from "../types/cart";
+import type { Product, ProductVariant } from "../types/product";
+
+// Separador de los IDs de variante en una combinación
+const VARIANT_ID_SEPARATOR = "+";
+
+// Opciones de un grupo de variantes
+export interface VariantGroup {
+  name: string; // Nombre del grupo (ej. "Talla")
+  options: ProductVariant[]; // Opciones en el orden del catálogo
+}
+
+// Opción elegida de cada grupo: nombre del grupo -> ID de la variante
+export type VariantSelection = Record<string, string>;
+
+// Resultado de resolver una selección
+export interface VariantResolution {
+  variants: ProductVariant[]; // Variantes elegidas
+  isComplete: boolean; // Si se eligió una opción de cada grupo
+  price: number; // Precio unitario de la combinación
+  stock: number; // Unidades disponibles de la combinación
+  image?: string; // Imagen de la variante elegida, si tiene
+  available: boolean; // Si la combinación se puede agregar al carrito
+  unavailableReason?: string; // Motivo para el usuario
+  cartVariant?: CartItem["selectedVariant"]; // Variante para el carrito
+}
+
+/**
+ * Agrupa las variantes de un producto por nombre
+ * @param variants - Variantes del producto
+ */
+export function groupVariants(
+  variants: ProductVariant[] = []
+): VariantGroup[] {
+  const groups = new Map<string, ProductVariant[]>();
+  variants.forEach((variant) => {
+    groups.set(variant.name, [...(groups.get(variant.name) ?? []), variant]);
+  });
+
+  return [...groups].map(([name, options]) => ({ name, options }));
+}
+
+/**
+ * Diferencia de precio de una variante frente al precio base
+ * @param product - Producto
+ * @param variant - Variante
+ */
+export function getVariantPriceDelta(
+  product: Pick<Product, "price">,
+  variant: ProductVariant
+): number {
+  return variant.price !== undefined ? variant.price - product.price : 0;
+}
+
+/**
+ * Busca las variantes de una combinación guardada en el carrito
+ * @param product - Producto actual
+ * @param variantId - ID de la variante del item (combinación de IDs)
+ * @returns Variantes encontradas (vacío si el producto ya no las tiene)
+ */
+export function findVariantsById(
+  product: Product,
+  variantId?: string
+): ProductVariant[] {
+  if (!variantId) return [];
+  const ids = variantId.split(VARIANT_ID_SEPARATOR);
+  const variants = (product.variants ?? []).filter((v) => ids.includes(v.id));
+  return variants.length === ids.length ? variants : [];
+}
+
+/**
+ * Resuelve la combinación elegida por el usuario
+ * @param product - Producto
+ * @param selection - Opción elegida de cada grupo
+ * @returns Precio, stock, imagen y disponibilidad de la combinación
+ */
+export function resolveVariantSelection(
+  product: Product,
+  selection: VariantSelection
+): VariantResolution {
+  const groups = groupVariants(product.variants);
+  const variants = groups.flatMap((group) => {
+    const variant = group.options.find((v) => v.id === selection[group.name]);
+    return variant ? [variant] : [];
+  });
+  const isComplete = variants.length === groups.length;
+
+  const price =
+    product.price +
+    variants.reduce((sum, v) => sum + getVariantPriceDelta(product, v), 0);
+  const stock = variants.reduce(
+    (min, v) => Math.min(min, v.stock),
+    product.stock
+  );
+  // La imagen de la última variante elegida que tenga una
+  const image = [...variants].reverse().find((v) => v.image)?.image;
+
+  let unavailableReason: string | undefined;
+  if (!product.inStock || product.stock <= 0) {
+    unavailableReason = "Producto agotado";
+  } else if (!isComplete) {
+    const missing = groups.find((group) => !selection[group.name]);
+    unavailableReason = `Elige ${missing?.name.toLowerCase() ?? "una opción"}`;
+  } else if (stock <= 0) {
+    unavailableReason = "Combinación agotada";
+  }
+
+  const cartVariant: CartItem["selectedVariant"] =
+    variants.length > 0
+      ? {
+          id: variants.map((v) => v.id).join(VARIANT_ID_SEPARATOR),
+          name: variants.map((v) => v.name).join(" / "),
+          value: variants.map((v) => v.value).join(" / "),
+          additionalPrice: price - product.price,
+        }
+      : undefined;
+
+  return {
+    variants,
+    isComplete,
+    price,
+    stock,
+    image,
+    available: !unavailableReason,
+    unavailableReason,
+    cartVariant,
+  };
+}
+
+/**
+ * Indica si una opción puede elegirse junto con las demás ya elegidas
+ * @param product - Producto
+ * @param selection - Selección actual
+ * @param variant - Opción a evaluar
+ */
+export function isVariantOptionAvailable(
+  product: Product,
+  selection: VariantSelection,
+  variant: ProductVariant
+): boolean {
+  return (
+    resolveVariantSelection(product, {
+      ...selection,
+      [variant.name]: variant.id,
+    }).stock > 0
+  );
+}
+
+/**
+ * Selección inicial: la primera opción con stock de cada grupo
+ * @param product - Producto
+ */
+export function getDefaultVariantSelection(
+  product: Product
+): VariantSelection {
+  return groupVariants(product.variants).reduce<VariantSelection>(
+    (selection, group) => {
+      const option = group.options.find((v) =>
+        isVariantOptionAvailable(product, selection, v)
+      );
+      return option ? { ...selection, [group.name]: option.id } : selection;
+    },
+    {}
+  );
+}
+
+/**
+ * Texto de la variante de un item (ej. "Talla: M · Color: Negro")
+ * @param variant - Variante guardada en el carrito o en el pedido
+ */
+export function formatVariantLabel(
+  variant: Pick<ProductVariant, "name" | "value">
+): string {
+  const names = variant.name.split(" / ");
+  const values = variant.value.split(" / ");
+  if (names.length !== values.length) {
+    return `${variant.name}: ${variant.value}`;
+  }
+  return names.map((name, i) => `${name}: ${values[i]}`).join(" · ");
+}
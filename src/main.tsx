@@ -9,6 +9,12 @@ import {
   CategoryPageWrapper,
   ProductPageWrapper,
   ProfilePageWrapper,
+  CheckoutPageWrapper,
+  OrdersPageWrapper,
+  OrderDetailPageWrapper,
+  WishlistPageWrapper,
+  SharedWishlistPageWrapper,
+  ComparePageWrapper,
 } from "./components/layout/PageWrappers.tsx";
 
 const router = createBrowserRouter([
@@ -36,6 +42,30 @@ const router = createBrowserRouter([
         path: "perfil",
         element: <ProfilePageWrapper />,
       },
+      {
+        path: "perfil/pedidos",
+        element: <OrdersPageWrapper />,
+      },
+      {
+        path: "pedido/:id",
+        element: <OrderDetailPageWrapper />,
+      },
+      {
+        path: "favoritos",
+        element: <WishlistPageWrapper />,
+      },
+      {
+        path: "favoritos/compartida/:shareId",
+        element: <SharedWishlistPageWrapper />,
+      },
+      {
+        path: "comparar",
+        element: <ComparePageWrapper />,
+      },
+      {
+        path: "checkout",
+        element: <CheckoutPageWrapper />,
+      },
       // Ruta de fallback para App (compatibilidad)
       {
         path: "app",
@@ -0,0 +1,689 @@
+/**
+ * Página de Checkout - Asistente de compra paso a paso
+ *
+ * CONCEPTOS CLAVE:
+ * 1. Multi-step Wizard - Carrito → Envío → Pago → Revisión → Confirmación
+ * 2. Form Validation - Cada paso valida su formulario con zod + react-hook-form
+ * 3. Persisted Progress - El progreso sobrevive a recargas (localStorage)
+ * 4. Order Creation - La orden se construye a partir del estado del carrito
+ */
+
+import { useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import {
+  AlertCircle,
+  ArrowLeft,
+  ArrowRight,
+  Check,
+  CheckCircle,
+  CreditCard,
+  MapPin,
+  ShoppingCart,
+  Truck,
+} from "lucide-react";
+
+import { Button } from "../components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+} from "../components/ui/card";
+import { Badge } from "../components/ui/badge";
+import { LoadingButton } from "../components/ui/loading";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "../components/ui/form";
+import { ShippingForm } from "../components/checkout/ShippingForm";
+import { PaymentForm } from "../components/checkout/PaymentForm";
+import {
+  reviewSchema,
+  type PaymentFormValues,
+  type ReviewFormValues,
+  type ShippingFormValues,
+} from "../components/checkout/checkout-schemas";
+
+import { useCart } from "../hooks/use-cart";
+import { useAuth } from "../hooks/use-auth";
+import { useCheckout } from "../hooks/use-checkout";
+
+import {
+  CHECKOUT_STEPS,
+  DEFAULT_SHIPPING_METHOD,
+  type CartItem,
+  type CartItemIssue,
+  type CheckoutData,
+  type CheckoutStep,
+} from "../types/cart";
+import { PAYMENT_METHOD_LABELS } from "../types/order";
+import { describeItemIssue } from "../lib/cart-revalidation";
+import {
+  createShippingInfo,
+  findShippingMethod,
+  quoteShippingMethod,
+} from "../lib/shipping";
+import { cn, formatDate, formatPrice, truncateText } from "../lib/utils";
+import { formatVariantLabel } from "../lib/variants";
+
+interface CheckoutPageProps {
+  onNavigateBack?: () => void;
+  onNavigateToProducts?: () => void;
+  onNavigateToOrder?: (orderId: string) => void;
+}
+
+// Etiquetas de cada paso del asistente
+const stepLabels: Record<CheckoutStep, string> = {
+  cart: "Carrito",
+  shipping: "Envío",
+  payment: "Pago",
+  review: "Revisión",
+  complete: "Confirmación",
+};
+
+// Detecta la franquicia de la tarjeta por su número
+const getCardBrand = (cardNumber: string): string => {
+  if (/^4/.test(cardNumber)) return "Visa";
+  if (/^(5[1-5]|2[2-7])/.test(cardNumber)) return "Mastercard";
+  if (/^3[47]/.test(cardNumber)) return "American Express";
+  return "Tarjeta";
+};
+
+// Imagen principal de un item del carrito
+const getItemImage = (item: CartItem): string => {
+  const firstImage = item.product.images[0];
+  if (typeof firstImage === "string") return firstImage;
+  return firstImage?.thumbnail || firstImage?.url || item.product.thumbnail;
+};
+
+/**
+ * Indicador de progreso del asistente
+ */
+function CheckoutStepper({
+  current,
+  completedSteps,
+  canAccessStep,
+  onStepClick,
+}: {
+  current: CheckoutStep;
+  completedSteps: CheckoutStep[];
+  canAccessStep: (step: CheckoutStep) => boolean;
+  onStepClick: (step: CheckoutStep) => void;
+}) {
+  return (
+    <ol className="flex items-center gap-2 mb-8 overflow-x-auto">
+      {CHECKOUT_STEPS.map((step, index) => {
+        const isCurrent = step === current;
+        const isDone = completedSteps.includes(step) && !isCurrent;
+        const isEnabled = canAccessStep(step) && !isCurrent;
+
+        return (
+          <li key={step} className="flex items-center gap-2 flex-shrink-0">
+            <button
+              type="button"
+              onClick={() => onStepClick(step)}
+              disabled={!isEnabled}
+              className={cn(
+                "flex items-center gap-2 rounded-full px-3 py-1.5 text-sm transition-colors",
+                isCurrent && "bg-primary text-primary-foreground",
+                isDone && "text-primary hover:bg-primary/10",
+                !isCurrent && !isDone && "text-muted-foreground"
+              )}
+              aria-current={isCurrent ? "step" : undefined}
+            >
+              <span
+                className={cn(
+                  "flex h-6 w-6 items-center justify-center rounded-full border text-xs font-medium",
+                  isCurrent && "border-primary-foreground",
+                  isDone && "border-primary bg-primary text-primary-foreground"
+                )}
+              >
+                {isDone ? <Check className="h-3 w-3" /> : index + 1}
+              </span>
+              {stepLabels[step]}
+            </button>
+            {index < CHECKOUT_STEPS.length - 1 && (
+              <span className="h-px w-6 bg-border" aria-hidden />
+            )}
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
+
+/**
+ * Resumen lateral del pedido
+ */
+function OrderSummaryCard() {
+  const { cart } = useCart();
+  const { summary } = cart;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Resumen del pedido</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2 text-sm">
+        <div className="flex justify-between">
+          <span>Subtotal ({summary.itemCount} productos)</span>
+          <span>{formatPrice(summary.subtotal)}</span>
+        </div>
+        {summary.couponBreakdown.map((line) => (
+          <div key={line.code} className="flex justify-between text-green-600">
+            <span>Cupón {line.code}</span>
+            <span>-{formatPrice(line.amount)}</span>
+          </div>
+        ))}
+        <div className="flex justify-between">
+          <span>Envío</span>
+          <span>
+            {summary.shipping === 0 ? "Gratis" : formatPrice(summary.shipping)}
+          </span>
+        </div>
+        {summary.taxBreakdown.map((entry) => (
+          <div
+            key={entry.rate}
+            className={cn(
+              "flex justify-between",
+              summary.pricesIncludeTax && "text-muted-foreground"
+            )}
+          >
+            <span>
+              {entry.label}
+              {summary.pricesIncludeTax && " (incluido)"}
+            </span>
+            <span>{formatPrice(entry.tax)}</span>
+          </div>
+        ))}
+        <div className="flex justify-between border-t pt-2 text-base font-semibold">
+          <span>Total</span>
+          <span className="text-primary">{formatPrice(summary.total)}</span>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * Paso 1: revisión de los productos del carrito
+ */
+function CartStep({
+  items,
+  issues,
+  onAcceptChanges,
+  onContinue,
+}: {
+  items: CartItem[];
+  issues: CartItemIssue[];
+  onAcceptChanges: () => void;
+  onContinue: () => void;
+}) {
+  return (
+    <div className="space-y-6">
+      <ul className="divide-y rounded-lg border">
+        {items.map((item) => {
+          const itemIssues = issues.filter(
+            (issue) => issue.itemId === item.id
+          );
+          const variant = item.variant || item.selectedVariant;
+          return (
+              <li key={item.id} className="flex items-center gap-4 p-4">
+                <img
+                  src={getItemImage(item)}
+                  alt={item.product.name}
+                  className="h-16 w-16 rounded-lg bg-muted object-cover"
+                />
+                <div className="flex-1 min-w-0">
+                  <p className="font-medium text-sm">
+                    {truncateText(item.product.title || item.product.name, 60)}
+                  </p>
+                  {variant && (
+                    <p className="text-xs text-muted-foreground">
+                      {formatVariantLabel(variant)}
+                    </p>
+                  )}
+                  <p className="text-xs text-muted-foreground">
+                    {item.quantity} x {formatPrice(item.unitPrice)}
+                  </p>
+                  {itemIssues.map((issue) => (
+                    <p key={issue.type} className="text-xs text-amber-600">
+                      {describeItemIssue(issue)}
+                    </p>
+                  ))}
+                </div>
+                <span className="font-medium">
+                  {formatPrice(item.subtotal || item.totalPrice)}
+                </span>
+              </li>
+          );
+        })}
+      </ul>
+
+      <div className="flex justify-end gap-2">
+        {issues.length > 0 && (
+          <Button variant="outline" onClick={onAcceptChanges}>
+            Aceptar cambios
+          </Button>
+        )}
+        <Button onClick={onContinue} disabled={issues.length > 0}>
+          Continuar al envío
+          <ArrowRight className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Paso 4: revisión final y confirmación del pedido
+ */
+function ReviewStep({
+  data,
+  isProcessing,
+  onEditStep,
+  onBack,
+  onSubmit,
+}: {
+  data: Partial<CheckoutData>;
+  isProcessing: boolean;
+  onEditStep: (step: CheckoutStep) => void;
+  onBack: () => void;
+  onSubmit: (values: ReviewFormValues) => void;
+}) {
+  const form = useForm<ReviewFormValues>({
+    resolver: zodResolver(reviewSchema),
+    defaultValues: {
+      notes: data.notes ?? "",
+    },
+  });
+
+  const address = data.shipping?.address;
+  const payment = data.payment;
+  const lastFour = payment?.details?.lastFour;
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {/* Dirección de envío */}
+          <div className="rounded-lg border p-4 text-sm space-y-1">
+            <div className="flex items-center justify-between mb-2">
+              <span className="font-medium flex items-center gap-2">
+                <MapPin className="h-4 w-4" />
+                Envío
+              </span>
+              <Button
+                type="button"
+                variant="link"
+                size="sm"
+                onClick={() => onEditStep("shipping")}
+              >
+                Editar
+              </Button>
+            </div>
+            {address && (
+              <>
+                <p>{address.fullName}</p>
+                <p className="text-muted-foreground">
+                  {address.address1}
+                  {address.address2 ? `, ${address.address2}` : ""}
+                </p>
+                <p className="text-muted-foreground">
+                  {address.city}, {address.state} {address.zipCode}
+                </p>
+                <p className="text-muted-foreground">{address.phone}</p>
+              </>
+            )}
+            {data.shipping && (
+              <p className="flex items-center gap-2 pt-2 text-muted-foreground">
+                <Truck className="h-4 w-4" />
+                {data.shipping.method.name} · llega aprox. el{" "}
+                {formatDate(data.shipping.estimatedDelivery)}
+              </p>
+            )}
+          </div>
+
+          {/* Método de pago */}
+          <div className="rounded-lg border p-4 text-sm space-y-1">
+            <div className="flex items-center justify-between mb-2">
+              <span className="font-medium flex items-center gap-2">
+                <CreditCard className="h-4 w-4" />
+                Pago
+              </span>
+              <Button
+                type="button"
+                variant="link"
+                size="sm"
+                onClick={() => onEditStep("payment")}
+              >
+                Editar
+              </Button>
+            </div>
+            {payment && (
+              <>
+                <p>{PAYMENT_METHOD_LABELS[payment.method]}</p>
+                {typeof lastFour === "string" && (
+                  <p className="text-muted-foreground">
+                    {String(payment.details?.brand ?? "Tarjeta")} terminada en{" "}
+                    {lastFour}
+                  </p>
+                )}
+                {typeof payment.details?.bank === "string" && (
+                  <p className="text-muted-foreground">
+                    {payment.details.bank}
+                  </p>
+                )}
+              </>
+            )}
+          </div>
+        </div>
+
+        <FormField
+          control={form.control}
+          name="notes"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Notas del pedido (opcional)</FormLabel>
+              <FormControl>
+                <textarea
+                  rows={3}
+                  placeholder="¿Algo que debamos saber sobre tu pedido?"
+                  className="w-full rounded-md border bg-transparent px-3 py-2 text-sm shadow-xs outline-none focus-visible:ring-[3px] focus-visible:ring-ring/50"
+                  {...field}
+                  value={field.value ?? ""}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="acceptTerms"
+          render={({ field }) => (
+            <FormItem>
+              <div className="flex items-center gap-2">
+                <FormControl>
+                  <input
+                    type="checkbox"
+                    className="h-4 w-4"
+                    checked={field.value === true}
+                    onChange={(e) => field.onChange(e.target.checked)}
+                    onBlur={field.onBlur}
+                    ref={field.ref}
+                  />
+                </FormControl>
+                <FormLabel className="font-normal">
+                  Acepto los términos y condiciones y la política de privacidad
+                </FormLabel>
+              </div>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="flex justify-between">
+          <Button type="button" variant="outline" onClick={onBack}>
+            <ArrowLeft className="h-4 w-4" />
+            Volver
+          </Button>
+          <LoadingButton
+            type="submit"
+            loading={isProcessing}
+            loadingText="Procesando pago..."
+          >
+            <CreditCard className="h-4 w-4" />
+            Confirmar pedido
+          </LoadingButton>
+        </div>
+      </form>
+    </Form>
+  );
+}
+
+export function CheckoutPage({
+  onNavigateBack,
+  onNavigateToProducts,
+  onNavigateToOrder,
+}: CheckoutPageProps) {
+  const { cart, setShipping, issues, revalidateCart, acceptItemChanges } =
+    useCart();
+  const { user } = useAuth();
+
+  // Revalidar precios y stock al entrar al checkout
+  useEffect(() => {
+    revalidateCart();
+  }, [revalidateCart]);
+  const {
+    state,
+    step,
+    data,
+    errors,
+    isProcessing,
+    confirmation,
+    canAccessStep,
+    goToStep,
+    completeStep,
+    goBack,
+    placeOrder,
+    resetCheckout,
+  } = useCheckout();
+
+  // Pedido confirmado
+  if (step === "complete" && confirmation) {
+    return (
+      <div className="container mx-auto px-4 py-16 max-w-xl text-center">
+        <CheckCircle className="h-16 w-16 text-green-600 mx-auto mb-6" />
+        <h1 className="text-3xl font-bold mb-2">¡Gracias por tu compra!</h1>
+        <p className="text-muted-foreground mb-6">
+          Enviamos la confirmación a <strong>{confirmation.email}</strong>
+        </p>
+        <Card className="text-left mb-8">
+          <CardContent className="space-y-2 pt-6 text-sm">
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Número de pedido</span>
+              <Badge variant="secondary">{confirmation.orderNumber}</Badge>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Fecha</span>
+              <span>{formatDate(confirmation.createdAt)}</span>
+            </div>
+            <div className="flex justify-between font-semibold">
+              <span>Total</span>
+              <span className="text-primary">
+                {formatPrice(confirmation.total)}
+              </span>
+            </div>
+          </CardContent>
+        </Card>
+        <div className="flex justify-center gap-3">
+          {onNavigateToOrder && (
+            <Button
+              variant="outline"
+              onClick={() => {
+                resetCheckout();
+                onNavigateToOrder(confirmation.orderId);
+              }}
+            >
+              Ver pedido
+            </Button>
+          )}
+          <Button
+            onClick={() => {
+              resetCheckout();
+              onNavigateToProducts?.();
+            }}
+          >
+            Seguir comprando
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  // Carrito vacío
+  if (cart.items.length === 0) {
+    return (
+      <div className="container mx-auto px-4 py-16 text-center">
+        <ShoppingCart className="h-16 w-16 text-muted-foreground mx-auto mb-4" />
+        <h1 className="text-2xl font-bold mb-2">Tu carrito está vacío</h1>
+        <p className="text-muted-foreground mb-6">
+          Agrega productos para continuar con la compra
+        </p>
+        <Button onClick={onNavigateToProducts}>Explorar productos</Button>
+      </div>
+    );
+  }
+
+  const handleShippingSubmit = ({
+    shippingMethodId,
+    ...address
+  }: ShippingFormValues) => {
+    const method =
+      findShippingMethod(shippingMethodId) ?? DEFAULT_SHIPPING_METHOD;
+    const quote = quoteShippingMethod(method, {
+      items: cart.items,
+      destination: address,
+    });
+    const shipping = createShippingInfo(quote, address);
+
+    // El resumen del carrito refleja el método y el destino elegidos
+    setShipping(shipping);
+    completeStep("shipping", {
+      shipping,
+      customer: {
+        name: address.fullName,
+        email: address.email,
+        phone: address.phone,
+      },
+    });
+  };
+
+  const handlePaymentSubmit = (values: PaymentFormValues) => {
+    // Nunca persistir el número completo ni el CVV de la tarjeta
+    const details: Record<string, unknown> = {};
+    if (values.method === "card" && values.cardNumber) {
+      const digits = values.cardNumber.replace(/\s/g, "");
+      details.cardholder = values.cardholder;
+      details.lastFour = digits.slice(-4);
+      details.brand = getCardBrand(digits);
+    }
+    if (values.method === "pse") {
+      details.bank = values.bank;
+      details.personType = values.personType;
+    }
+
+    completeStep("payment", {
+      payment: { method: values.method, details },
+      billing: { sameAsShipping: true },
+    });
+  };
+
+  const shippingDefaults: Partial<ShippingFormValues> = data.shipping
+    ? { ...data.shipping.address, shippingMethodId: data.shipping.method.id }
+    : { fullName: user?.name ?? "", email: user?.email ?? "" };
+
+  const paymentDefaults: Partial<PaymentFormValues> = data.payment
+    ? {
+        method: data.payment.method,
+        cardholder:
+          typeof data.payment.details?.cardholder === "string"
+            ? data.payment.details.cardholder
+            : "",
+        bank:
+          typeof data.payment.details?.bank === "string"
+            ? data.payment.details.bank
+            : "",
+      }
+    : { cardholder: user?.name ?? "" };
+
+  const stepError = errors[step];
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-6xl">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h1 className="text-3xl font-bold">Finalizar compra</h1>
+          <p className="text-muted-foreground">
+            Completa los pasos para confirmar tu pedido
+          </p>
+        </div>
+        {onNavigateBack && (
+          <Button variant="outline" onClick={onNavigateBack}>
+            Seguir comprando
+          </Button>
+        )}
+      </div>
+
+      <CheckoutStepper
+        current={step}
+        completedSteps={state.completedSteps}
+        canAccessStep={canAccessStep}
+        onStepClick={goToStep}
+      />
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+        <Card className="lg:col-span-2">
+          <CardHeader>
+            <CardTitle>{stepLabels[step]}</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {stepError && (
+              <div className="flex items-center gap-2 rounded-lg bg-destructive/10 p-3 text-sm text-destructive">
+                <AlertCircle className="h-4 w-4" />
+                {stepError}
+              </div>
+            )}
+
+            {step === "cart" && (
+              <CartStep
+                items={cart.items}
+                issues={issues}
+                onAcceptChanges={() => acceptItemChanges()}
+                onContinue={() => completeStep("cart")}
+              />
+            )}
+
+            {step === "shipping" && (
+              <ShippingForm
+                defaultValues={shippingDefaults}
+                onSubmit={handleShippingSubmit}
+                onBack={goBack}
+              />
+            )}
+
+            {step === "payment" && (
+              <PaymentForm
+                defaultValues={paymentDefaults}
+                onSubmit={handlePaymentSubmit}
+                onBack={goBack}
+              />
+            )}
+
+            {step === "review" && (
+              <ReviewStep
+                data={data}
+                isProcessing={isProcessing}
+                onEditStep={goToStep}
+                onBack={goBack}
+                onSubmit={(values) => placeOrder({ notes: values.notes })}
+              />
+            )}
+          </CardContent>
+        </Card>
+
+        <div>
+          <OrderSummaryCard />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,245 @@
+/**
+ * Página de comparación de productos
+ *
+ * CONCEPTOS CLAVE:
+ * 1. Side-by-side Table - Una columna por producto, una fila por atributo
+ * 2. Spec Alignment - Todas las especificaciones alineadas aunque falten
+ * 3. Diff Highlighting - Las filas con valores distintos se resaltan
+ * 4. Fresh Data - Precios y stock actualizados desde el catálogo
+ */
+
+import { useMemo, useState } from "react";
+import { GitCompare, ShoppingCart, X } from "lucide-react";
+
+import { Button } from "../components/ui/button";
+import { Badge } from "../components/ui/badge";
+
+import { useCart } from "../hooks/use-cart";
+import { useCompare, useCompareProducts } from "../hooks/use-compare";
+
+import { buildComparison } from "../lib/compare";
+import { groupVariants } from "../lib/variants";
+import { cn, truncateText } from "../lib/utils";
+import { COMPARE_CONSTANTS } from "../types/compare";
+import type { Product } from "../types/product";
+
+interface ComparePageProps {
+  onNavigateBack?: () => void;
+  onNavigateToProduct?: (productId: string) => void;
+  onNavigateToProducts?: () => void;
+}
+
+/**
+ * Encabezado de la columna de un producto
+ */
+function ProductColumnHeader({
+  product,
+  onOpen,
+  onRemove,
+}: {
+  product: Product;
+  onOpen?: () => void;
+  onRemove: () => void;
+}) {
+  const { addToCart } = useCart();
+  const isInStock = product.stock > 0;
+  // Con variantes hay que elegir talla/color en el detalle
+  const needsVariant = groupVariants(product.variants).length > 0;
+
+  return (
+    <div className="relative space-y-3">
+      <button
+        type="button"
+        onClick={onRemove}
+        className="absolute top-0 right-0 p-1 rounded-full bg-background/80 text-muted-foreground hover:text-foreground"
+        aria-label={`Quitar ${product.name} de la comparación`}
+      >
+        <X className="h-4 w-4" />
+      </button>
+      <img
+        src={product.thumbnail}
+        alt={product.name}
+        className="h-32 w-full rounded-lg bg-muted object-contain"
+      />
+      <button
+        type="button"
+        onClick={onOpen}
+        className="block font-medium text-sm text-left hover:text-primary"
+      >
+        {truncateText(product.name, 60)}
+      </button>
+      {needsVariant ? (
+        <Button size="sm" variant="outline" className="w-full" onClick={onOpen}>
+          Elegir opciones
+        </Button>
+      ) : (
+        <Button
+          size="sm"
+          className="w-full gap-2"
+          disabled={!isInStock}
+          onClick={() => addToCart({ product, quantity: 1 })}
+        >
+          <ShoppingCart className="h-4 w-4" />
+          {isInStock ? "Agregar" : "Agotado"}
+        </Button>
+      )}
+    </div>
+  );
+}
+
+export function ComparePage({
+  onNavigateBack,
+  onNavigateToProduct,
+  onNavigateToProducts,
+}: ComparePageProps) {
+  const { count, removeFromCompare, clearCompare } = useCompare();
+  const { products } = useCompareProducts();
+  const [onlyDifferences, setOnlyDifferences] = useState(false);
+
+  const sections = useMemo(() => buildComparison(products), [products]);
+  const visibleSections = sections
+    .map((section) => ({
+      ...section,
+      rows: onlyDifferences
+        ? section.rows.filter((row) => row.isDifferent)
+        : section.rows,
+    }))
+    .filter((section) => section.rows.length > 0);
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      {/* Header */}
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-8">
+        <div>
+          <h1 className="text-3xl font-bold">Comparar productos</h1>
+          <p className="text-muted-foreground">
+            {count > 0
+              ? `${count} de ${COMPARE_CONSTANTS.MAX_ITEMS} productos`
+              : `Elige hasta ${COMPARE_CONSTANTS.MAX_ITEMS} productos para compararlos`}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          {count > 0 && (
+            <Button
+              variant="ghost"
+              className="text-destructive hover:text-destructive"
+              onClick={clearCompare}
+            >
+              Limpiar
+            </Button>
+          )}
+          {onNavigateBack && (
+            <Button variant="outline" onClick={onNavigateBack}>
+              Volver
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {count === 0 ? (
+        <div className="text-center py-16">
+          <GitCompare className="h-16 w-16 mx-auto text-muted-foreground mb-4" />
+          <h2 className="text-lg font-medium mb-2">
+            No hay productos para comparar
+          </h2>
+          <p className="text-muted-foreground mb-6">
+            Marca "Comparar" en los productos que te interesan
+          </p>
+          <Button onClick={onNavigateToProducts}>Explorar productos</Button>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <label className="flex items-center gap-2 text-sm cursor-pointer">
+              <input
+                type="checkbox"
+                checked={onlyDifferences}
+                onChange={(e) => setOnlyDifferences(e.target.checked)}
+              />
+              Mostrar solo las diferencias
+            </label>
+            {count < COMPARE_CONSTANTS.MAX_ITEMS && (
+              <Button variant="link" size="sm" onClick={onNavigateToProducts}>
+                Agregar más productos
+              </Button>
+            )}
+          </div>
+
+          <div className="overflow-x-auto rounded-lg border">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b">
+                  <th className="w-40 p-4 text-left align-bottom">
+                    <Badge variant="warning" className="font-normal">
+                      Valores distintos
+                    </Badge>
+                  </th>
+                  {products.map((product) => (
+                    <th
+                      key={product.id}
+                      scope="col"
+                      className="min-w-48 p-4 align-top font-normal"
+                    >
+                      <ProductColumnHeader
+                        product={product}
+                        onOpen={() => onNavigateToProduct?.(product.id)}
+                        onRemove={() => removeFromCompare(product.id)}
+                      />
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              {visibleSections.map((section) => (
+                <tbody key={section.title}>
+                  <tr className="bg-muted/50">
+                    <th
+                      colSpan={products.length + 1}
+                      scope="colgroup"
+                      className="px-4 py-2 text-left font-semibold"
+                    >
+                      {section.title}
+                    </th>
+                  </tr>
+                  {section.rows.map((row) => (
+                    <tr
+                      key={row.key}
+                      className={cn(
+                        "border-b last:border-0",
+                        row.isDifferent && "bg-yellow-50 dark:bg-yellow-950/30"
+                      )}
+                    >
+                      <th
+                        scope="row"
+                        className="px-4 py-3 text-left font-medium capitalize"
+                      >
+                        {row.label}
+                      </th>
+                      {row.values.map((value, index) => (
+                        <td
+                          key={products[index]?.id ?? index}
+                          className={cn(
+                            "px-4 py-3",
+                            row.key === "category" && "capitalize",
+                            value === null && "text-muted-foreground"
+                          )}
+                        >
+                          {value ?? "—"}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              ))}
+            </table>
+          </div>
+
+          {visibleSections.length === 0 && (
+            <p className="text-center text-muted-foreground py-8">
+              Los productos coinciden en todos los atributos
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -7,6 +7,7 @@
  * 3. User Experience - Flujo de navegación intuitivo
  * 4. Performance - Lazy loading y optimizaciones
  * 5. Responsive Design - Adaptable a todos los dispositivos
+ * 6. Browsing History - Productos vistos recientemente por el usuario
  */
 
 import { motion } from "framer-motion";
@@ -15,13 +16,17 @@ import { ArrowRight, Star, TrendingUp, Zap, Heart } from "lucide-react";
 import { HeroSection } from "../components/common/HeroSection";
 import { CategoriesSection } from "../components/product/CategoriesSection";
 import { ProductCard } from "../components/product/ProductCard";
+import { RecentlyViewedCarousel } from "../components/product/RecentlyViewedCarousel";
 import { Button } from "../components/ui/button";
 import { Badge } from "../components/ui/badge";
 import { Card, CardContent } from "../components/ui/card";
 import { ProductCardSkeleton } from "../components/ui/loading";
 import { Section, PageContainer } from "../components/layout/layout";
 
-import { useFakeStoreFeaturedProducts, useFakeStoreProductsByCategory } from "../hooks/use-fakestore";
+import {
+  useFeaturedProducts,
+  useProductsByCategory,
+} from "../hooks/use-products";
 
 /**
  * Props de la HomePage
@@ -42,10 +47,8 @@ function FeaturedProductsSection({
   onNavigateToProduct: (productId: string) => void;
   onNavigateToProducts: () => void;
 }) {
-  // Obtener productos destacados de FakeStore
-  const featuredProducts = useFakeStoreFeaturedProducts(8);
-  const products = featuredProducts || [];
-  const isLoading = false;
+  // Obtener productos destacados del catálogo
+  const { data: products = [], isLoading } = useFeaturedProducts(8);
 
   return (
     <Section padding="lg" className="bg-muted/30">
@@ -117,8 +120,11 @@ function FeaturedProductsSection({
  * Sección de ofertas especiales
  */
 function SpecialOffersSection() {
-  // Obtener productos en oferta de electrónicos de FakeStore
-  const { data: products = [], isLoading } = useFakeStoreProductsByCategory("electronics", { limit: 3 });
+  // Obtener productos de electrónicos del catálogo
+  const { data: products = [], isLoading } = useProductsByCategory(
+    "electronics",
+    3
+  );
 
   return (
     <Section padding="lg">
@@ -338,6 +344,14 @@ export function HomePage({
         </PageContainer>
       </Section>
 
+      {/* Vistos recientemente (solo si hay historial) */}
+      <PageContainer>
+        <RecentlyViewedCarousel
+          className="pb-16"
+          onProductClick={(product) => onNavigateToProduct(product.id)}
+        />
+      </PageContainer>
+
       {/* Productos Destacados */}
       <FeaturedProductsSection
         onNavigateToProduct={onNavigateToProduct}
@@ -0,0 +1,381 @@
+/**
+ * Página de detalle de un pedido
+ *
+ * CONCEPTOS CLAVE:
+ * 1. Snapshot Data - Los items se muestran tal como se compraron
+ * 2. Status Timeline - Línea de tiempo con los cambios de estado
+ * 3. Mutations - Cancelación del pedido con React Query
+ */
+
+import {
+  AlertCircle,
+  CheckCircle,
+  Circle,
+  CreditCard,
+  MapPin,
+  Package,
+  Truck,
+  XCircle,
+} from "lucide-react";
+
+import { Button } from "../components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+} from "../components/ui/card";
+import { LoadingButton, Spinner } from "../components/ui/loading";
+import { OrderStatusBadge } from "../components/order/OrderStatusBadge";
+
+import { useCancelOrder, useOrder } from "../hooks/use-orders";
+
+import {
+  CANCELLABLE_STATUSES,
+  ORDER_STATUS_FLOW,
+  ORDER_STATUS_LABELS,
+  PAYMENT_METHOD_LABELS,
+  type Order,
+} from "../types/order";
+import { cn, formatDate, formatPrice } from "../lib/utils";
+import { formatVariantLabel } from "../lib/variants";
+
+interface OrderDetailPageProps {
+  orderId: string;
+  onNavigateBack?: () => void;
+  onNavigateToProduct?: (productId: string) => void;
+}
+
+/**
+ * Línea de tiempo del pedido
+ * Muestra los estados alcanzados y los que faltan por llegar
+ */
+function OrderTimeline({ order }: { order: Order }) {
+  const reached = new Map(
+    order.statusHistory.map((event) => [event.status, event])
+  );
+
+  // Una orden cancelada solo muestra lo que alcanzó a ocurrir
+  const steps =
+    order.status === "cancelled"
+      ? order.statusHistory.map((event) => event.status)
+      : ORDER_STATUS_FLOW.filter(
+          (status) => status !== "pending" || reached.has("pending")
+        );
+
+  return (
+    <ol className="space-y-4">
+      {steps.map((status) => {
+        const event = reached.get(status);
+        const Icon =
+          status === "cancelled" ? XCircle : event ? CheckCircle : Circle;
+
+        return (
+          <li key={status} className="flex gap-3">
+            <Icon
+              className={cn(
+                "h-5 w-5 flex-shrink-0 mt-0.5",
+                status === "cancelled"
+                  ? "text-destructive"
+                  : event
+                  ? "text-green-600"
+                  : "text-muted-foreground"
+              )}
+            />
+            <div>
+              <p
+                className={cn(
+                  "text-sm font-medium",
+                  !event && "text-muted-foreground"
+                )}
+              >
+                {ORDER_STATUS_LABELS[status]}
+              </p>
+              {event ? (
+                <p className="text-xs text-muted-foreground">
+                  {formatDate(event.date, true)}
+                  {event.note ? ` · ${event.note}` : ""}
+                </p>
+              ) : (
+                status === "delivered" && (
+                  <p className="text-xs text-muted-foreground">
+                    Estimado: {formatDate(order.shipping.estimatedDelivery)}
+                  </p>
+                )
+              )}
+            </div>
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
+
+export function OrderDetailPage({
+  orderId,
+  onNavigateBack,
+  onNavigateToProduct,
+}: OrderDetailPageProps) {
+  const { data: order, isLoading, error } = useOrder(orderId);
+  const cancelOrder = useCancelOrder();
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-24">
+        <Spinner size="lg" />
+      </div>
+    );
+  }
+
+  if (error || !order) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <div className="text-center">
+          <AlertCircle className="h-12 w-12 text-destructive mx-auto mb-4" />
+          <h1 className="text-2xl font-bold mb-4">Pedido no disponible</h1>
+          <p className="text-muted-foreground mb-6">
+            {error?.message || "No encontramos este pedido"}
+          </p>
+          <Button onClick={onNavigateBack}>Volver</Button>
+        </div>
+      </div>
+    );
+  }
+
+  const { address } = order.shipping;
+  const { summary } = order;
+  const lastFour = order.payment.details?.lastFour;
+  const canCancel = CANCELLABLE_STATUSES.includes(order.status);
+
+  const handleCancel = () => {
+    if (window.confirm("¿Seguro que deseas cancelar este pedido?")) {
+      cancelOrder.mutate(order.id);
+    }
+  };
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-5xl">
+      {/* Header */}
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-8">
+        <div>
+          <div className="flex items-center gap-3">
+            <h1 className="text-3xl font-bold">Pedido {order.orderNumber}</h1>
+            <OrderStatusBadge status={order.status} />
+          </div>
+          <p className="text-muted-foreground">
+            Realizado el {formatDate(order.createdAt, true)}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          {canCancel && (
+            <LoadingButton
+              loading={cancelOrder.isPending}
+              loadingText="Cancelando..."
+              onClick={handleCancel}
+              className="bg-destructive hover:bg-destructive/90"
+            >
+              Cancelar pedido
+            </LoadingButton>
+          )}
+          {onNavigateBack && (
+            <Button variant="outline" onClick={onNavigateBack}>
+              Volver
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {cancelOrder.error && (
+        <div className="flex items-center gap-2 rounded-lg bg-destructive/10 p-3 mb-6 text-sm text-destructive">
+          <AlertCircle className="h-4 w-4" />
+          {cancelOrder.error.message}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+        <div className="lg:col-span-2 space-y-6">
+          {/* Productos */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Package className="h-5 w-5" />
+                Productos ({summary.itemCount})
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <ul className="divide-y">
+                {order.items.map((item) => (
+                  <li key={item.id} className="flex items-center gap-4 py-3">
+                    <img
+                      src={item.image}
+                      alt={item.name}
+                      className="h-16 w-16 rounded-lg bg-muted object-cover"
+                    />
+                    <div className="flex-1 min-w-0">
+                      <button
+                        type="button"
+                        onClick={() => onNavigateToProduct?.(item.productId)}
+                        className="font-medium text-sm text-left hover:text-primary"
+                      >
+                        {item.name}
+                      </button>
+                      {item.variant && (
+                        <p className="text-xs text-muted-foreground">
+                          {formatVariantLabel(item.variant)}
+                        </p>
+                      )}
+                      <p className="text-xs text-muted-foreground">
+                        {item.quantity} x {formatPrice(item.unitPrice)}
+                      </p>
+                    </div>
+                    <span className="font-medium">
+                      {formatPrice(item.totalPrice)}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </CardContent>
+          </Card>
+
+          {/* Envío y pago */}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2 text-base">
+                  <MapPin className="h-4 w-4" />
+                  Dirección de envío
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="text-sm space-y-1">
+                <p className="font-medium">{address.fullName}</p>
+                <p className="text-muted-foreground">
+                  {address.address1}
+                  {address.address2 ? `, ${address.address2}` : ""}
+                </p>
+                <p className="text-muted-foreground">
+                  {address.city}, {address.state} {address.zipCode}
+                </p>
+                <p className="text-muted-foreground">{address.phone}</p>
+                <p className="flex items-center gap-2 pt-2 text-muted-foreground">
+                  <Truck className="h-4 w-4" />
+                  {order.shipping.method.name} ({order.shipping.method.carrier})
+                </p>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2 text-base">
+                  <CreditCard className="h-4 w-4" />
+                  Pago
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="text-sm space-y-1">
+                <p className="font-medium">
+                  {PAYMENT_METHOD_LABELS[order.payment.method]}
+                </p>
+                {typeof lastFour === "string" && (
+                  <p className="text-muted-foreground">
+                    {String(order.payment.details?.brand ?? "Tarjeta")}{" "}
+                    terminada en {lastFour}
+                  </p>
+                )}
+                {typeof order.payment.details?.bank === "string" && (
+                  <p className="text-muted-foreground">
+                    {order.payment.details.bank}
+                  </p>
+                )}
+                {order.couponCodes.length > 0 && (
+                  <p className="text-muted-foreground">
+                    Cupones: {order.couponCodes.join(", ")}
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+
+          {order.notes && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">Notas</CardTitle>
+              </CardHeader>
+              <CardContent className="text-sm text-muted-foreground">
+                {order.notes}
+              </CardContent>
+            </Card>
+          )}
+        </div>
+
+        {/* Sidebar */}
+        <div className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Seguimiento</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <OrderTimeline order={order} />
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Resumen</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2 text-sm">
+              <div className="flex justify-between">
+                <span>Subtotal</span>
+                <span>{formatPrice(summary.subtotal)}</span>
+              </div>
+              {summary.couponBreakdown.map((line) => (
+                <div
+                  key={line.code}
+                  className="flex justify-between text-green-600"
+                >
+                  <span>Cupón {line.code}</span>
+                  <span>-{formatPrice(line.amount)}</span>
+                </div>
+              ))}
+              <div className="flex justify-between">
+                <span>Envío</span>
+                <span>
+                  {summary.shipping === 0
+                    ? "Gratis"
+                    : formatPrice(summary.shipping)}
+                </span>
+              </div>
+              {/* Pedidos anteriores al desglose solo guardan el total */}
+              {summary.taxBreakdown?.length ? (
+                summary.taxBreakdown.map((entry) => (
+                  <div
+                    key={entry.rate}
+                    className={cn(
+                      "flex justify-between",
+                      summary.pricesIncludeTax && "text-muted-foreground"
+                    )}
+                  >
+                    <span>
+                      {entry.label}
+                      {summary.pricesIncludeTax && " (incluido)"}
+                    </span>
+                    <span>{formatPrice(entry.tax)}</span>
+                  </div>
+                ))
+              ) : (
+                <div className="flex justify-between">
+                  <span>IVA</span>
+                  <span>{formatPrice(summary.tax)}</span>
+                </div>
+              )}
+              <div className="flex justify-between border-t pt-2 text-base font-semibold">
+                <span>Total</span>
+                <span className="text-primary">
+                  {formatPrice(summary.total)}
+                </span>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,236 @@
+/**
+ * Página de historial de pedidos
+ *
+ * CONCEPTOS CLAVE:
+ * 1. Server State - Pedidos consultados con React Query
+ * 2. Filtering - Filtros por estado, búsqueda y ordenamiento
+ * 3. Derived Data - Resumen calculado a partir de las órdenes
+ */
+
+import { useState } from "react";
+import { ChevronRight, Package, Search, ShoppingBag } from "lucide-react";
+
+import { Button } from "../components/ui/button";
+import { Input } from "../components/ui/input";
+import { Card, CardContent } from "../components/ui/card";
+import { Spinner } from "../components/ui/loading";
+import { OrderStatusBadge } from "../components/order/OrderStatusBadge";
+
+import { useAuth } from "../hooks/use-auth";
+import { useOrders } from "../hooks/use-orders";
+
+import type { Order, OrderFilters } from "../types/order";
+import { formatDate, formatPrice } from "../lib/utils";
+
+interface OrdersPageProps {
+  onNavigateBack?: () => void;
+  onNavigateToOrder?: (orderId: string) => void;
+  onNavigateToProducts?: () => void;
+}
+
+// Pestañas de filtro por estado
+const statusTabs: Array<{ value: OrderFilters["status"]; label: string }> = [
+  { value: undefined, label: "Todos" },
+  { value: "active", label: "En curso" },
+  { value: "delivered", label: "Entregados" },
+  { value: "cancelled", label: "Cancelados" },
+];
+
+const sortOptions: Array<{
+  value: NonNullable<OrderFilters["sortBy"]>;
+  label: string;
+}> = [
+  { value: "newest", label: "Más recientes" },
+  { value: "oldest", label: "Más antiguos" },
+  { value: "total-desc", label: "Mayor valor" },
+  { value: "total-asc", label: "Menor valor" },
+];
+
+/**
+ * Tarjeta resumida de una orden
+ */
+function OrderCard({ order, onClick }: { order: Order; onClick?: () => void }) {
+  const previewItems = order.items.slice(0, 4);
+  const remaining = order.items.length - previewItems.length;
+
+  return (
+    <Card
+      className="cursor-pointer transition-shadow hover:shadow-md"
+      onClick={onClick}
+    >
+      <CardContent className="p-4 space-y-4">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <div>
+            <p className="font-semibold">{order.orderNumber}</p>
+            <p className="text-sm text-muted-foreground">
+              {formatDate(order.createdAt)}
+            </p>
+          </div>
+          <OrderStatusBadge status={order.status} />
+        </div>
+
+        <div className="flex items-center justify-between gap-4">
+          <div className="flex items-center gap-2">
+            {previewItems.map((item) => (
+              <img
+                key={item.id}
+                src={item.image}
+                alt={item.name}
+                className="h-12 w-12 rounded-md bg-muted object-cover"
+              />
+            ))}
+            {remaining > 0 && (
+              <span className="text-sm text-muted-foreground">
+                +{remaining}
+              </span>
+            )}
+          </div>
+          <div className="flex items-center gap-2 text-right">
+            <div>
+              <p className="font-semibold">{formatPrice(order.summary.total)}</p>
+              <p className="text-xs text-muted-foreground">
+                {order.summary.itemCount} productos
+              </p>
+            </div>
+            <ChevronRight className="h-5 w-5 text-muted-foreground" />
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+export function OrdersPage({
+  onNavigateBack,
+  onNavigateToOrder,
+  onNavigateToProducts,
+}: OrdersPageProps) {
+  const { user } = useAuth();
+  const [filters, setFilters] = useState<OrderFilters>({ sortBy: "newest" });
+  const { data: orders = [], isLoading, error } = useOrders(filters);
+
+  if (!user) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <div className="text-center">
+          <h1 className="text-2xl font-bold mb-4">Acceso denegado</h1>
+          <p className="text-muted-foreground mb-6">
+            Debes iniciar sesión para ver tus pedidos
+          </p>
+          <Button onClick={onNavigateBack}>Volver al inicio</Button>
+        </div>
+      </div>
+    );
+  }
+
+  const hasFilters = !!filters.status || !!filters.search;
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-4xl">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-8">
+        <div>
+          <h1 className="text-3xl font-bold">Mis Pedidos</h1>
+          <p className="text-muted-foreground">
+            Consulta el estado y el detalle de tus compras
+          </p>
+        </div>
+        {onNavigateBack && (
+          <Button variant="outline" onClick={onNavigateBack}>
+            Volver
+          </Button>
+        )}
+      </div>
+
+      {/* Filtros */}
+      <div className="flex flex-col md:flex-row md:items-center gap-4 mb-6">
+        <div className="flex flex-wrap gap-2">
+          {statusTabs.map((tab) => (
+            <Button
+              key={tab.label}
+              size="sm"
+              variant={filters.status === tab.value ? "default" : "outline"}
+              onClick={() =>
+                setFilters((prev) => ({ ...prev, status: tab.value }))
+              }
+            >
+              {tab.label}
+            </Button>
+          ))}
+        </div>
+
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input
+            value={filters.search ?? ""}
+            onChange={(e) =>
+              setFilters((prev) => ({ ...prev, search: e.target.value }))
+            }
+            placeholder="Buscar por número o producto"
+            className="pl-9"
+          />
+        </div>
+
+        <select
+          value={filters.sortBy}
+          onChange={(e) =>
+            setFilters((prev) => ({
+              ...prev,
+              sortBy: e.target.value as OrderFilters["sortBy"],
+            }))
+          }
+          className="h-9 rounded-md border bg-transparent px-3 text-sm"
+          aria-label="Ordenar pedidos"
+        >
+          {sortOptions.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {/* Listado */}
+      {isLoading ? (
+        <div className="flex justify-center py-16">
+          <Spinner size="lg" />
+        </div>
+      ) : error ? (
+        <p className="text-center text-destructive py-16">
+          No pudimos cargar tus pedidos. Intenta de nuevo.
+        </p>
+      ) : orders.length === 0 ? (
+        <div className="text-center py-16">
+          {hasFilters ? (
+            <Package className="h-16 w-16 text-muted-foreground mx-auto mb-4" />
+          ) : (
+            <ShoppingBag className="h-16 w-16 text-muted-foreground mx-auto mb-4" />
+          )}
+          <h2 className="text-xl font-semibold mb-2">
+            {hasFilters
+              ? "No hay pedidos que coincidan"
+              : "Aún no has realizado pedidos"}
+          </h2>
+          <p className="text-muted-foreground mb-6">
+            {hasFilters
+              ? "Prueba con otros filtros"
+              : "Cuando compres algo, lo verás aquí"}
+          </p>
+          {!hasFilters && onNavigateToProducts && (
+            <Button onClick={onNavigateToProducts}>Explorar productos</Button>
+          )}
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {orders.map((order) => (
+            <OrderCard
+              key={order.id}
+              order={order}
+              onClick={() => onNavigateToOrder?.(order.id)}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
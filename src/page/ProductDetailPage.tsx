@@ -5,14 +5,17 @@
  * 1. Product Information Architecture - Arquitectura de información del producto
  * 2. Image Gallery - Galería de imágenes interactiva
  * 3. Specifications Display - Visualización de especificaciones técnicas
- * 4. Reviews System - Sistema de reseñas yeste componentc  calificaciones
+ * 4. Reviews System - Sistema de reseñas y calificaciones
  * 5. Related Products - Productos relacionados y recomendaciones
  * 6. Add to Cart Integration - Integración con carrito de compras
  * 7. Social Sharing - Compartir en redes sociales
  * 8. SEO Optimization - Optimización para motores de búsqueda
+ * 9. Variant Selection - Precio, stock e imagen según la combinación elegida
+ * 10. Questions & Answers - Dudas de los clientes antes de comprar
+ * 11. Browsing History - Registra la visita y muestra lo visto antes
  */
 
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { motion } from "framer-motion";
 import {
   ArrowLeft,
@@ -30,7 +33,6 @@ import {
   ChevronRight,
   Zap,
   Award,
-  Users,
   Package,
   Info,
 } from "lucide-react";
@@ -46,10 +48,26 @@ import {
 import { Spinner } from "../components/ui/loading";
 import { Section, PageContainer } from "../components/layout/layout";
 import { ProductCard } from "../components/product/ProductCard";
+import { ProductQuestions } from "../components/product/ProductQuestions";
+import { ProductReviews } from "../components/product/ProductReviews";
+import { RecentlyViewedCarousel } from "../components/product/RecentlyViewedCarousel";
+import { VariantSelector } from "../components/product/VariantSelector";
 
-import { useFakeStoreProduct, useFakeStoreProductsByCategory } from "../hooks/use-fakestore";
+import { useProduct, useProductsByCategory } from "../hooks/use-products";
 import { useCart } from "../hooks/use-cart";
-import type { Product, ProductSpecs } from "../types/product";
+import { useWishlist } from "../hooks/use-wishlist";
+import { useRecentlyViewed } from "../hooks/use-recently-viewed";
+import type {
+  Product,
+  ProductCategory,
+  ProductSpecs,
+} from "../types/product";
+import {
+  getDefaultVariantSelection,
+  resolveVariantSelection,
+  type VariantResolution,
+  type VariantSelection,
+} from "../lib/variants";
 
 /**
  * Props de la página de producto
@@ -157,6 +175,9 @@ function ImageGallery({ images, productName }: ImageGalleryProps) {
  */
 interface ProductInfoProps {
   product: Product;
+  selection: VariantSelection; // Opción elegida de cada grupo de variantes
+  onSelectionChange: (selection: VariantSelection) => void;
+  resolution: VariantResolution; // Precio y stock de la combinación elegida
   quantity: number;
   onQuantityChange: (quantity: number) => void;
   onAddToCart: () => void;
@@ -166,6 +187,9 @@ interface ProductInfoProps {
 
 function ProductInfo({
   product,
+  selection,
+  onSelectionChange,
+  resolution,
   quantity,
   onQuantityChange,
   onAddToCart,
@@ -246,7 +270,7 @@ function ProductInfo({
       <div className="space-y-1">
         <div className="flex items-center gap-3">
           <span className="text-3xl font-bold">
-            {formatPrice(product.price)}
+            {formatPrice(resolution.price)}
           </span>
           {product.originalPrice && (
             <span className="text-lg text-muted-foreground line-through">
@@ -261,13 +285,20 @@ function ProductInfo({
         )}
       </div>
 
+      {/* Variantes */}
+      <VariantSelector
+        product={product}
+        selection={selection}
+        onChange={onSelectionChange}
+      />
+
       {/* Stock info */}
       <div className="flex items-center gap-2 text-sm">
         <Package className="h-4 w-4" />
         <span>
-          {product.stock > 10
+          {resolution.stock > 10
             ? "Más de 10 disponibles"
-            : `${product.stock} disponibles`}
+            : `${resolution.stock} disponibles`}
         </span>
       </div>
 
@@ -290,17 +321,17 @@ function ProductInfo({
             <Button
               variant="ghost"
               onClick={() =>
-                onQuantityChange(Math.min(product.stock, quantity + 1))
+                onQuantityChange(Math.min(resolution.stock, quantity + 1))
               }
               aria-label="Aumentar cantidad"
               className="p-2 hover:bg-muted transition-colors"
-              disabled={quantity >= product.stock}
+              disabled={quantity >= resolution.stock}
             >
               <Plus className="h-4 w-4" />
               </Button>
           </div>
           <div className="text-sm text-muted-foreground">
-            Máximo {product.stock} unidades
+            Máximo {resolution.stock} unidades
           </div>
         </div>
 
@@ -308,11 +339,11 @@ function ProductInfo({
           <Button
             size="lg"
             onClick={onAddToCart}
-            disabled={!product.inStock}
+            disabled={!resolution.available}
             className="flex-1"
           >
             <ShoppingCart className="h-4 w-4 mr-2" />
-            {product.inStock ? "Agregar al carrito" : "Agotado"}
+            {resolution.unavailableReason ?? "Agregar al carrito"}
           </Button>
           <Button size="lg" variant="outline" onClick={onToggleWishlist}>
             <Heart
@@ -425,39 +456,12 @@ function ProductSpecs({ specs, product }: ProductSpecsProps) {
   );
 }
 
-/**
- * Componente de reseñas (placeholder)
- */
-function ProductReviews({ product }: { product: Product }) {
-  return (
-    <Card>
-      <CardHeader>
-        <CardTitle className="flex items-center gap-2">
-          <Users className="h-5 w-5" />
-          Reseñas de Clientes ({product.reviewCount})
-        </CardTitle>
-      </CardHeader>
-      <CardContent>
-        <div className="text-center py-8">
-          <Star className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
-          <h3 className="text-lg font-medium mb-2">
-            Sistema de reseñas próximamente
-          </h3>
-          <p className="text-muted-foreground">
-            Pronto podrás ver y escribir reseñas de este producto.
-          </p>
-        </div>
-      </CardContent>
-    </Card>
-  );
-}
-
 /**
  * Componente de productos relacionados
  */
 interface RelatedProductsProps {
   currentProductId: string;
-  category: string;
+  category: ProductCategory;
   onNavigateToProduct: (productId: string) => void;
 }
 
@@ -466,13 +470,13 @@ function RelatedProducts({
   category,
   onNavigateToProduct,
 }: RelatedProductsProps) {
-  const { data: products = [], isLoading } = useFakeStoreProductsByCategory(
+  const { data: products = [], isLoading } = useProductsByCategory(
     category,
-    { limit: 4 }
+    5
   );
 
   const relatedProducts = products
-    .filter((p: Product) => p.id.toString() !== currentProductId)
+    .filter((p: Product) => p.id !== currentProductId)
     .slice(0, 4);
 
   if (isLoading || relatedProducts.length === 0) {
@@ -515,22 +519,54 @@ export function ProductDetailPage({
   onNavigateBack,
   onNavigateToProduct,
 }: ProductDetailPageProps) {
-  const { data: product, isLoading, error } = useFakeStoreProduct(parseInt(productId));
+  const { data: product, isLoading, error } = useProduct(productId);
   const { addToCart } = useCart();
 
   const [quantity, setQuantity] = useState(1);
-  const [isInWishlist, setIsInWishlist] = useState(false);
+  const { isInWishlist, toggleWishlist } = useWishlist();
+  const { trackProductView } = useRecentlyViewed();
+  // Selección de variantes del producto que se está viendo
+  const [variantState, setVariantState] = useState<{
+    productId: string;
+    selection: VariantSelection;
+  } | null>(null);
+
+  const selection =
+    product && variantState?.productId === product.id
+      ? variantState.selection
+      : product
+      ? getDefaultVariantSelection(product)
+      : {};
+  const resolution = product
+    ? resolveVariantSelection(product, selection)
+    : null;
+
+  // Registrar la visita en el historial de productos vistos
+  useEffect(() => {
+    if (product) trackProductView(product);
+  }, [product, trackProductView]);
+
+  const handleSelectionChange = (newSelection: VariantSelection) => {
+    if (!product) return;
+    setVariantState({ productId: product.id, selection: newSelection });
+    setQuantity(1);
+  };
 
   const handleAddToCart = () => {
-    if (product) {
-      addToCart({ product, quantity });
+    if (product && resolution?.available) {
+      addToCart({
+        product,
+        quantity: Math.min(quantity, resolution.stock),
+        selectedVariant: resolution.cartVariant,
+      });
       // Aquí podrías mostrar una notificación de éxito
     }
   };
 
   const handleToggleWishlist = () => {
-    setIsInWishlist(!isInWishlist);
-    // Aquí implementarías la lógica de wishlist
+    if (product) {
+      toggleWishlist(product);
+    }
   };
 
   if (isLoading) {
@@ -543,7 +579,7 @@ export function ProductDetailPage({
     );
   }
 
-  if (error || !product) {
+  if (error || !product || !resolution) {
     return (
       <PageContainer>
         <div className="text-center py-12">
@@ -588,8 +624,19 @@ export function ProductDetailPage({
               animate={{ opacity: 1, x: 0 }}
               transition={{ duration: 0.6 }}
             >
+              {/* La imagen de la variante elegida pasa al frente */}
               <ImageGallery
-                images={product.images}
+                key={resolution.image ?? "base"}
+                images={
+                  resolution.image
+                    ? [
+                        resolution.image,
+                        ...product.images.filter(
+                          (image) => image !== resolution.image
+                        ),
+                      ]
+                    : product.images
+                }
                 productName={product.name}
               />
             </motion.div>
@@ -602,11 +649,14 @@ export function ProductDetailPage({
             >
               <ProductInfo
                 product={product}
+                selection={selection}
+                onSelectionChange={handleSelectionChange}
+                resolution={resolution}
                 quantity={quantity}
                 onQuantityChange={setQuantity}
                 onAddToCart={handleAddToCart}
                 onToggleWishlist={handleToggleWishlist}
-                isInWishlist={isInWishlist}
+                isInWishlist={isInWishlist(product.id)}
               />
             </motion.div>
           </div>
@@ -629,6 +679,16 @@ export function ProductDetailPage({
               <ProductReviews product={product} />
             </motion.div>
           </div>
+
+          {/* Preguntas y respuestas */}
+          <motion.div
+            className="mb-12"
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ duration: 0.6, delay: 0.7 }}
+          >
+            <ProductQuestions productId={product.id} />
+          </motion.div>
         </PageContainer>
       </Section>
 
@@ -646,6 +706,15 @@ export function ProductDetailPage({
           />
         </PageContainer>
       </motion.div>
+
+      {/* Vistos recientemente (sin el producto actual) */}
+      <PageContainer>
+        <RecentlyViewedCarousel
+          className="py-12"
+          excludeProductId={product.id}
+          onProductClick={(product) => onNavigateToProduct(product.id)}
+        />
+      </PageContainer>
     </div>
   );
 }
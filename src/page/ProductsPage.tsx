@@ -3,13 +3,17 @@
  *
  * CONCEPTOS CLAVE:
  * 1. Search & Filter Interface - Interfaz completa de búsqueda y filtros
- * 2. URL State Management - Estado sincronizado con URL
+ * 2. URL State Management - Filtros, orden y página guardados en la URL
  * 3. Advanced Filtering - Filtros múltiples y combinables
  * 4. Sort & Pagination - Ordenamiento y paginación
  * 5. Responsive Layout - Layout adaptable con sidebar colapsible
  */
 
-import React, { useState, useEffect, useCallback } from "react";
+import React, {
+  useCallback,
+  type Dispatch,
+  type SetStateAction,
+} from "react";
 import { motion } from "framer-motion";
 import { ArrowLeft, X } from "lucide-react";
 
@@ -27,10 +31,10 @@ import type { ProductCategory, ProductSearchParams } from "../types/product";
  * Props de la ProductsPage
  */
 interface ProductsPageProps {
-  initialCategory?: string;
+  filters: ProductSearchParams; // Filtros actuales (ej. leídos de la URL)
+  onFiltersChange: Dispatch<SetStateAction<ProductSearchParams>>;
   onNavigateToProduct: (productId: string) => void;
   onNavigateBack: () => void;
-  onCategoryChange?: (category?: string) => void;
 }
 
 /**
@@ -174,23 +178,17 @@ function ProductsHeader({
  * Componente principal ProductsPage
  */
 export function ProductsPage({
-  initialCategory,
+  filters,
+  onFiltersChange,
   onNavigateToProduct,
   onNavigateBack,
-  onCategoryChange,
 }: ProductsPageProps) {
-  const [selectedCategory, setSelectedCategory] = useState<
-    ProductCategory | undefined
-  >(initialCategory as ProductCategory);
-
-  // Configurar filtros iniciales
-  const [filters, setFilters] = useState<ProductSearchParams>({
-    category: selectedCategory,
-    page: 1,
-  });
+  const selectedCategory = filters.category;
 
-  // Título dinámico basado en la categoría
-  const pageTitle = selectedCategory
+  // Título dinámico basado en la categoría o la búsqueda
+  const pageTitle = filters.query
+    ? `Resultados para "${filters.query}"`
+    : selectedCategory
     ? `Productos - ${
         selectedCategory.charAt(0).toUpperCase() + selectedCategory.slice(1)
       }`
@@ -201,61 +199,19 @@ export function ProductsPage({
     : "Descubre toda nuestra colección de productos premium";
 
   /**
-   * Maneja el cambio de categoría
+   * Maneja el cambio de categoría conservando los demás filtros
    */
   const handleCategoryChange = useCallback(
     (category?: string) => {
-      console.log("🔄 ProductsPage: handleCategoryChange recibió:", category);
-
-      const categoryType = category as ProductCategory | undefined;
-      setSelectedCategory(categoryType);
-      setFilters((prev) => ({
+      onFiltersChange((prev) => ({
         ...prev,
-        category: categoryType,
+        category: category as ProductCategory | undefined,
         page: 1, // Reset página al cambiar categoría
       }));
-
-      // Notificar al componente padre para actualizar la URL
-      if (onCategoryChange) {
-        onCategoryChange(category);
-      }
     },
-    [onCategoryChange]
+    [onFiltersChange]
   );
 
-  /**
-   * Efecto para sincronizar categoría inicial (solo cuando realmente cambia desde fuera)
-   */
-  useEffect(() => {
-    const categoryType = initialCategory as ProductCategory | undefined;
-    if (categoryType !== selectedCategory) {
-      console.log(
-        "🔄 ProductsPage: Sincronizando categoría inicial:",
-        initialCategory,
-        "→",
-        selectedCategory
-      );
-      setSelectedCategory(categoryType);
-      setFilters((prev) => ({
-        ...prev,
-        category: categoryType,
-        page: 1,
-      }));
-      // NO llamamos a onCategoryChange aquí para evitar bucles
-    }
-  }, [initialCategory, selectedCategory]);
-
-  /**
-   * Efecto para actualizar filtros cuando cambia la categoría seleccionada
-   */
-  useEffect(() => {
-    setFilters((prev) => ({
-      ...prev,
-      category: selectedCategory,
-      page: 1,
-    }));
-  }, [selectedCategory]);
-
   return (
     <main className="min-h-screen bg-background">
       {/* Header Section */}
@@ -281,6 +237,7 @@ export function ProductsPage({
           >
             <ProductGrid
               initialFilters={filters}
+              onFiltersChange={onFiltersChange}
               showFilters={true}
               showSearch={true}
               showViewToggle={true}
@@ -30,14 +30,21 @@ import {
 import { Badge } from "../components/ui/badge";
 
 import { useAuth } from "../hooks/use-auth";
+import { useOrderStats } from "../hooks/use-orders";
 import type { UpdateProfileData } from "../types/auth";
+import { formatPrice } from "../lib/utils";
 
 interface ProfilePageProps {
   onNavigateBack?: () => void;
+  onNavigateToOrders?: () => void;
 }
 
-export function ProfilePage({ onNavigateBack }: ProfilePageProps) {
+export function ProfilePage({
+  onNavigateBack,
+  onNavigateToOrders,
+}: ProfilePageProps) {
   const { user, updateProfile, isLoading } = useAuth();
+  const { stats: orderStats } = useOrderStats();
   const [isEditing, setIsEditing] = useState(false);
   const [formData, setFormData] = useState<UpdateProfileData>({
     name: user?.name || "",
@@ -88,19 +95,19 @@ export function ProfilePage({ onNavigateBack }: ProfilePageProps) {
     {
       icon: Package,
       label: "Pedidos",
-      value: "12",
+      value: String(orderStats.totalOrders),
       color: "text-blue-600",
     },
     {
       icon: Heart,
       label: "Favoritos",
-      value: "24",
+      value: String(orderStats.wishlistCount),
       color: "text-red-600",
     },
     {
       icon: CreditCard,
       label: "Compras",
-      value: "$1,234",
+      value: formatPrice(orderStats.totalSpent),
       color: "text-green-600",
     },
   ];
@@ -364,7 +371,11 @@ export function ProfilePage({ onNavigateBack }: ProfilePageProps) {
               <CardTitle>Acciones Rápidas</CardTitle>
             </CardHeader>
             <CardContent className="space-y-2">
-              <Button variant="outline" className="w-full justify-start">
+              <Button
+                variant="outline"
+                className="w-full justify-start"
+                onClick={onNavigateToOrders}
+              >
                 <Package className="h-4 w-4 mr-2" />
                 Ver mis pedidos
               </Button>
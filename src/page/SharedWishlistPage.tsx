@@ -0,0 +1,89 @@
+/**
+ * Página de una lista de deseos compartida
+ *
+ * CONCEPTOS CLAVE:
+ * 1. Public Link - Lista de otro usuario visible desde un enlace
+ * 2. Server State - Lista publicada consultada con React Query
+ * 3. Read-only View - Los productos se pueden ver y agregar al carrito
+ */
+
+import { AlertCircle, Heart } from "lucide-react";
+
+import { Button } from "../components/ui/button";
+import { Spinner } from "../components/ui/loading";
+import { ProductCard } from "../components/product/ProductCard";
+
+import { useSharedWishlist } from "../hooks/use-wishlist";
+
+import { formatDate } from "../lib/utils";
+
+interface SharedWishlistPageProps {
+  shareId: string;
+  onNavigateToProduct?: (productId: string) => void;
+  onNavigateToProducts?: () => void;
+}
+
+export function SharedWishlistPage({
+  shareId,
+  onNavigateToProduct,
+  onNavigateToProducts,
+}: SharedWishlistPageProps) {
+  const { data: wishlist, isLoading, error } = useSharedWishlist(shareId);
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-24">
+        <Spinner size="lg" />
+      </div>
+    );
+  }
+
+  if (error || !wishlist) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <div className="text-center">
+          <AlertCircle className="h-12 w-12 text-destructive mx-auto mb-4" />
+          <h1 className="text-2xl font-bold mb-4">Lista no disponible</h1>
+          <p className="text-muted-foreground mb-6">
+            {error?.message || "No encontramos esta lista de deseos"}
+          </p>
+          <Button onClick={onNavigateToProducts}>Explorar productos</Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      {/* Header */}
+      <div className="mb-8">
+        <h1 className="flex items-center gap-2 text-3xl font-bold">
+          <Heart className="h-7 w-7 text-red-500" />
+          {wishlist.ownerName
+            ? `Favoritos de ${wishlist.ownerName}`
+            : "Lista de deseos compartida"}
+        </h1>
+        <p className="text-muted-foreground">
+          {wishlist.items.length} producto(s) · Actualizada el{" "}
+          {formatDate(wishlist.updatedAt)}
+        </p>
+      </div>
+
+      {wishlist.items.length === 0 ? (
+        <p className="text-center text-muted-foreground py-16">
+          Esta lista todavía no tiene productos
+        </p>
+      ) : (
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-6">
+          {wishlist.items.map((item) => (
+            <ProductCard
+              key={item.productId}
+              product={item.product}
+              onProductClick={() => onNavigateToProduct?.(item.productId)}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,252 @@
+/**
+ * Página de la lista de deseos
+ *
+ * CONCEPTOS CLAVE:
+ * 1. Context State - Lista persistida por usuario en WishlistProvider
+ * 2. Cross-Context Actions - Mover un favorito al carrito
+ * 3. Privacy Settings - Compartir la lista con un enlace público
+ */
+
+import { useState } from "react";
+import { Check, Copy, Heart, Share2, ShoppingCart, Trash2 } from "lucide-react";
+
+import { Button } from "../components/ui/button";
+import { Badge } from "../components/ui/badge";
+import { Card, CardContent } from "../components/ui/card";
+
+import { useAuth } from "../hooks/use-auth";
+import { useWishlist } from "../hooks/use-wishlist";
+
+import type { Product } from "../types/product";
+import type { WishlistItem } from "../types/wishlist";
+import { formatDate, formatPrice, truncateText } from "../lib/utils";
+import { groupVariants } from "../lib/variants";
+
+interface WishlistPageProps {
+  onNavigateBack?: () => void;
+  onNavigateToProduct?: (productId: string) => void;
+  onNavigateToProducts?: () => void;
+}
+
+// Imagen principal de un producto (string u objeto)
+const getProductImage = (product: Product): string => {
+  const firstImage = product.images[0];
+  if (typeof firstImage === "string") return firstImage;
+  return firstImage?.thumbnail || firstImage?.url || product.thumbnail;
+};
+
+/**
+ * Fila de un producto guardado
+ */
+function WishlistRow({
+  item,
+  onOpen,
+  onMoveToCart,
+  onRemove,
+}: {
+  item: WishlistItem;
+  onOpen?: () => void;
+  onMoveToCart: () => void;
+  onRemove: () => void;
+}) {
+  const { product } = item;
+  const isInStock = product.inStock && product.stock > 0;
+  // Con variantes hay que elegir talla/color en el detalle
+  const needsVariant = groupVariants(product.variants).length > 0;
+
+  return (
+    <li className="flex items-center gap-4 p-4">
+      <img
+        src={getProductImage(product)}
+        alt={product.name}
+        className="h-20 w-20 rounded-lg bg-muted object-cover"
+      />
+      <div className="flex-1 min-w-0">
+        <button
+          type="button"
+          onClick={onOpen}
+          className="font-medium text-sm text-left hover:text-primary"
+        >
+          {truncateText(product.title || product.name, 80)}
+        </button>
+        <p className="font-semibold text-primary">
+          {formatPrice(product.price)}
+        </p>
+        <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+          <span>Guardado el {formatDate(item.addedAt)}</span>
+          {!isInStock && (
+            <Badge variant="destructive" className="text-xs">
+              Agotado
+            </Badge>
+          )}
+        </div>
+      </div>
+      <div className="flex flex-col sm:flex-row gap-2">
+        {needsVariant ? (
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={onOpen}
+            disabled={!isInStock}
+          >
+            Elegir opciones
+          </Button>
+        ) : (
+          <Button size="sm" onClick={onMoveToCart} disabled={!isInStock}>
+            <ShoppingCart className="h-4 w-4" />
+            Mover al carrito
+          </Button>
+        )}
+        <Button
+          size="sm"
+          variant="ghost"
+          className="text-destructive hover:text-destructive"
+          onClick={onRemove}
+        >
+          <Trash2 className="h-4 w-4" />
+          Quitar
+        </Button>
+      </div>
+    </li>
+  );
+}
+
+/**
+ * Opciones para compartir la lista con un enlace público
+ */
+function ShareWishlistCard() {
+  const { shareWishlist, setShareWishlist, shareUrl } = useWishlist();
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    if (!shareUrl) return;
+    try {
+      await navigator.clipboard.writeText(shareUrl);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error("Error copying wishlist link:", error);
+    }
+  };
+
+  return (
+    <Card>
+      <CardContent className="p-4 space-y-3">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <div className="flex items-center gap-2">
+            <Share2 className="h-4 w-4" />
+            <span className="font-medium">Compartir mi lista</span>
+          </div>
+          <Button
+            size="sm"
+            variant={shareWishlist ? "outline" : "default"}
+            onClick={() => setShareWishlist(!shareWishlist)}
+          >
+            {shareWishlist ? "Dejar de compartir" : "Crear enlace público"}
+          </Button>
+        </div>
+        <p className="text-sm text-muted-foreground">
+          {shareWishlist
+            ? "Cualquier persona con el enlace puede ver tu lista."
+            : "Tu lista es privada. Crea un enlace para que otros la vean."}
+        </p>
+        {shareUrl && (
+          <div className="flex gap-2">
+            <input
+              readOnly
+              value={shareUrl}
+              className="flex-1 h-9 rounded-md border bg-muted px-3 text-sm"
+              aria-label="Enlace público de la lista"
+              onFocus={(e) => e.target.select()}
+            />
+            <Button size="sm" variant="outline" onClick={handleCopy}>
+              {copied ? (
+                <Check className="h-4 w-4" />
+              ) : (
+                <Copy className="h-4 w-4" />
+              )}
+              {copied ? "Copiado" : "Copiar"}
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export function WishlistPage({
+  onNavigateBack,
+  onNavigateToProduct,
+  onNavigateToProducts,
+}: WishlistPageProps) {
+  const { user } = useAuth();
+  const { items, count, moveToCart, removeFromWishlist, clearWishlist } =
+    useWishlist();
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-4xl">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-8">
+        <div>
+          <h1 className="text-3xl font-bold">Mis Favoritos</h1>
+          <p className="text-muted-foreground">
+            {count > 0
+              ? `${count} producto(s) guardado(s)`
+              : "Guarda los productos que te gustan para después"}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          {count > 0 && (
+            <Button
+              variant="ghost"
+              className="text-destructive hover:text-destructive"
+              onClick={clearWishlist}
+            >
+              Vaciar
+            </Button>
+          )}
+          {onNavigateBack && (
+            <Button variant="outline" onClick={onNavigateBack}>
+              Volver
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {count === 0 ? (
+        <div className="text-center py-16">
+          <Heart className="h-16 w-16 mx-auto text-muted-foreground mb-4" />
+          <h2 className="text-lg font-medium mb-2">
+            Tu lista de deseos está vacía
+          </h2>
+          <p className="text-muted-foreground mb-6">
+            Toca el corazón de un producto para guardarlo aquí
+          </p>
+          <Button onClick={onNavigateToProducts}>Explorar productos</Button>
+        </div>
+      ) : (
+        <div className="space-y-6">
+          <ul className="divide-y rounded-lg border">
+            {items.map((item) => (
+              <WishlistRow
+                key={item.productId}
+                item={item}
+                onOpen={() => onNavigateToProduct?.(item.productId)}
+                onMoveToCart={() => moveToCart(item.productId)}
+                onRemove={() => removeFromWishlist(item.productId)}
+              />
+            ))}
+          </ul>
+
+          {user ? (
+            <ShareWishlistCard />
+          ) : (
+            <p className="text-sm text-muted-foreground text-center">
+              Inicia sesión para guardar tu lista en tu cuenta y compartirla
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
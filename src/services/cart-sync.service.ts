@@ -0,0 +1,206 @@
+/**
+ * Servicio de sincronización del carrito
+ * Refleja el carrito local del usuario en el carrito del backend
+ * (endpoints /carts de FakeStore) o en un backend local que simula
+ * esos endpoints y funciona sin conexión
+ */
+
+import FakeStoreService from "./fakestore.service";
+import type { CartItem } from "../types/cart";
+import type { FakeStoreCart, FakeStoreCartProduct } from "../types/fakestore";
+
+// Clave para localStorage del backend local
+const SERVER_CARTS_STORAGE_KEY = "demo-tienda-server-carts";
+
+// Espera antes de enviar los cambios acumulados del carrito
+const SYNC_DEBOUNCE_MS = 1500;
+
+// Utilidades para simular latencia de red
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Endpoints de carrito que necesita la sincronización
+export interface CartSyncBackend {
+  getUserCarts: (userId: number) => Promise<FakeStoreCart[]>;
+  createCart: (cart: Omit<FakeStoreCart, "id">) => Promise<FakeStoreCart>;
+  updateCart: (
+    id: number,
+    cart: Partial<FakeStoreCart>
+  ) => Promise<FakeStoreCart>;
+  deleteCart: (id: number) => Promise<void>;
+}
+
+// Carrito del backend listo para hidratar el carrito local
+export interface ServerCartSnapshot {
+  products: FakeStoreCartProduct[];
+  updatedAt: string; // Fecha de la última escritura (ISO string)
+}
+
+/**
+ * Backend local con la misma forma que los endpoints de FakeStore
+ * Persiste los carritos en localStorage para usarlo sin conexión
+ */
+export class LocalCartBackend implements CartSyncBackend {
+  private readCarts(): FakeStoreCart[] {
+    try {
+      const saved = localStorage.getItem(SERVER_CARTS_STORAGE_KEY);
+      return saved ? JSON.parse(saved) : [];
+    } catch (error) {
+      console.error("Error loading server carts from localStorage:", error);
+      return [];
+    }
+  }
+
+  private writeCarts(carts: FakeStoreCart[]): void {
+    try {
+      localStorage.setItem(SERVER_CARTS_STORAGE_KEY, JSON.stringify(carts));
+    } catch (error) {
+      console.error("Error saving server carts to localStorage:", error);
+    }
+  }
+
+  async getUserCarts(userId: number): Promise<FakeStoreCart[]> {
+    await delay(200);
+    return this.readCarts().filter((cart) => cart.userId === userId);
+  }
+
+  async createCart(cart: Omit<FakeStoreCart, "id">): Promise<FakeStoreCart> {
+    await delay(200);
+    const carts = this.readCarts();
+    const created = {
+      ...cart,
+      id: Math.max(0, ...carts.map((c) => c.id)) + 1,
+    };
+    this.writeCarts([...carts, created]);
+    return created;
+  }
+
+  async updateCart(
+    id: number,
+    cart: Partial<FakeStoreCart>
+  ): Promise<FakeStoreCart> {
+    await delay(200);
+    const carts = this.readCarts();
+    const existing = carts.find((c) => c.id === id);
+    if (!existing) {
+      throw new Error(`Cart ${id} not found`);
+    }
+
+    const updated = { ...existing, ...cart, id };
+    this.writeCarts(carts.map((c) => (c.id === id ? updated : c)));
+    return updated;
+  }
+
+  async deleteCart(id: number): Promise<void> {
+    await delay(200);
+    this.writeCarts(this.readCarts().filter((cart) => cart.id !== id));
+  }
+}
+
+/**
+ * Backend configurado (VITE_CART_SYNC_BACKEND): "fakestore" usa la API,
+ * cualquier otro valor el backend local
+ */
+const createCartSyncBackend = (): CartSyncBackend =>
+  import.meta.env.VITE_CART_SYNC_BACKEND === "fakestore"
+    ? FakeStoreService
+    : new LocalCartBackend();
+
+/**
+ * Convierte los items del carrito en productos del carrito de FakeStore
+ * FakeStore no guarda variantes: las cantidades de las variantes de un
+ * mismo producto se suman
+ */
+export function toFakeStoreCartProducts(
+  items: CartItem[]
+): FakeStoreCartProduct[] {
+  const quantities = new Map<number, number>();
+  items.forEach((item) => {
+    const productId = Number(item.productId);
+    if (Number.isNaN(productId)) return;
+    quantities.set(
+      productId,
+      (quantities.get(productId) ?? 0) + item.quantity
+    );
+  });
+
+  return [...quantities].map(([productId, quantity]) => ({
+    productId,
+    quantity,
+  }));
+}
+
+class CartSyncService {
+  // ID del carrito del backend de cada usuario
+  private readonly cartIds = new Map<number, number>();
+  private readonly backend: CartSyncBackend;
+  private pendingSync: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(backend: CartSyncBackend) {
+    this.backend = backend;
+  }
+
+  /**
+   * Obtener el carrito del backend de un usuario
+   * Si hay varios, se usa el más reciente
+   */
+  async fetchUserCart(userId: number): Promise<ServerCartSnapshot | null> {
+    const carts = await this.backend.getUserCarts(userId);
+    const [latest] = [...carts].sort((a, b) => b.date.localeCompare(a.date));
+    if (!latest) return null;
+
+    this.cartIds.set(userId, latest.id);
+    return { products: latest.products, updatedAt: latest.date };
+  }
+
+  /**
+   * Programar el envío del carrito al backend
+   * Los cambios seguidos se agrupan en una sola escritura
+   */
+  scheduleSync(userId: number, items: CartItem[], updatedAt: string): void {
+    this.cancelPendingSync();
+    this.pendingSync = setTimeout(() => {
+      this.pendingSync = null;
+      this.syncCart(userId, items, updatedAt).catch((error) =>
+        console.error("Error syncing cart with server:", error)
+      );
+    }, SYNC_DEBOUNCE_MS);
+  }
+
+  private cancelPendingSync(): void {
+    if (this.pendingSync) {
+      clearTimeout(this.pendingSync);
+      this.pendingSync = null;
+    }
+  }
+
+  /**
+   * Escribir el carrito en el backend: lo crea, lo actualiza o, si
+   * quedó vacío, lo elimina
+   */
+  async syncCart(
+    userId: number,
+    items: CartItem[],
+    updatedAt: string
+  ): Promise<void> {
+    const cartId = this.cartIds.get(userId);
+    const products = toFakeStoreCartProducts(items);
+
+    if (products.length === 0) {
+      if (cartId !== undefined) {
+        await this.backend.deleteCart(cartId);
+        this.cartIds.delete(userId);
+      }
+      return;
+    }
+
+    const cart = { userId, date: updatedAt, products };
+    if (cartId === undefined) {
+      const created = await this.backend.createCart(cart);
+      this.cartIds.set(userId, created.id);
+    } else {
+      await this.backend.updateCart(cartId, cart);
+    }
+  }
+}
+
+export const cartSyncService = new CartSyncService(createCartSyncBackend());
@@ -0,0 +1,121 @@
+/**
+ * Servicio del catálogo de productos
+ * Expone un único repositorio de productos con dos orígenes
+ * intercambiables: el JSON local (data/products.json) o la API de
+ * FakeStore. Ambos entregan el mismo tipo Product.
+ */
+
+import FakeStoreService from "./fakestore.service";
+import { reviewService } from "./review.service";
+import { searchProducts } from "../lib/catalog";
+import { mapFakeStoreProduct } from "../types/fakestore";
+import type {
+  Product,
+  ProductSearchParams,
+  ProductSearchResult,
+} from "../types/product";
+import productsData from "../data/products.json";
+
+// Utilidades para simular latencia de red
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Operaciones que debe ofrecer cada origen del catálogo
+export interface CatalogRepository {
+  getProducts: () => Promise<Product[]>;
+  getProductById: (id: string) => Promise<Product | null>;
+}
+
+/**
+ * Catálogo local leído de data/products.json
+ */
+export class LocalCatalogRepository implements CatalogRepository {
+  private readonly products: Product[] = productsData.map((product) => ({
+    ...product,
+    title: product.name, // Agregar title como alias de name
+  })) as Product[];
+
+  async getProducts(): Promise<Product[]> {
+    await delay(300);
+    return this.products;
+  }
+
+  async getProductById(id: string): Promise<Product | null> {
+    await delay(200);
+    return this.products.find((p) => p.id === id) ?? null;
+  }
+}
+
+/**
+ * Catálogo de la API de FakeStore convertido a nuestro tipo Product
+ */
+export class FakeStoreCatalogRepository implements CatalogRepository {
+  async getProducts(): Promise<Product[]> {
+    const products = await FakeStoreService.getProducts();
+    return products.map(mapFakeStoreProduct);
+  }
+
+  async getProductById(id: string): Promise<Product | null> {
+    const productId = Number(id);
+    if (!Number.isInteger(productId)) return null;
+
+    const product = await FakeStoreService.getProductById(productId);
+    // La API responde vacío cuando el producto no existe
+    return product ? mapFakeStoreProduct(product) : null;
+  }
+}
+
+/**
+ * Origen configurado (VITE_CATALOG_BACKEND): "local" usa el JSON local,
+ * cualquier otro valor la API de FakeStore
+ */
+export const CATALOG_BACKEND: "local" | "fakestore" =
+  import.meta.env.VITE_CATALOG_BACKEND === "local" ? "local" : "fakestore";
+
+const createCatalogRepository = (): CatalogRepository =>
+  CATALOG_BACKEND === "local"
+    ? new LocalCatalogRepository()
+    : new FakeStoreCatalogRepository();
+
+class CatalogService {
+  private readonly repository: CatalogRepository;
+
+  constructor(repository: CatalogRepository) {
+    this.repository = repository;
+  }
+
+  /**
+   * Obtener todos los productos con la calificación de sus reseñas
+   */
+  async getProducts(): Promise<Product[]> {
+    const products = await this.repository.getProducts();
+    return products.map((product) => this.withReviewStats(product));
+  }
+
+  /**
+   * Agregar la calificación de las reseñas a un producto que no pasó por
+   * el catálogo (ej. páginas pedidas directo a FakeStore)
+   */
+  withReviewStats(product: Product): Product {
+    return reviewService.applyReviewStats(product);
+  }
+
+  /**
+   * Buscar productos: resultado paginado con las facetas de la búsqueda
+   */
+  async searchProducts(
+    params: ProductSearchParams = {}
+  ): Promise<ProductSearchResult> {
+    return searchProducts(await this.getProducts(), params);
+  }
+
+  /**
+   * Obtener un producto por ID (null si no existe)
+   */
+  async getProductById(id: string): Promise<Product | null> {
+    const product = await this.repository.getProductById(id);
+    return product ? this.withReviewStats(product) : null;
+  }
+}
+
+// Exportar instancia singleton
+export const catalogService = new CatalogService(createCatalogRepository());
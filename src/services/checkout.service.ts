@@ -0,0 +1,99 @@
+/**
+ * Servicio de checkout
+ * Simula el procesamiento de pagos y la creación de órdenes
+ */
+
+import { orderService } from "./order.service";
+import { couponService } from "./coupon.service";
+import type { CheckoutConfirmation, CheckoutData } from "../types/cart";
+
+// Utilidades para simular latencia de red
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+class CheckoutService {
+  /**
+   * Procesar el pago y crear la orden
+   */
+  async placeOrder(
+    data: CheckoutData,
+    userId?: string
+  ): Promise<CheckoutConfirmation> {
+    await delay(900); // Simular procesamiento del pago
+
+    if (data.items.length === 0) {
+      throw new CheckoutError({
+        code: "EMPTY_CART",
+        message: "El carrito está vacío",
+        step: "cart",
+      });
+    }
+
+    if (!data.shipping?.address) {
+      throw new CheckoutError({
+        code: "MISSING_SHIPPING",
+        message: "Falta la información de envío",
+        step: "shipping",
+      });
+    }
+
+    if (!data.payment?.method) {
+      throw new CheckoutError({
+        code: "MISSING_PAYMENT",
+        message: "Selecciona un método de pago",
+        step: "payment",
+      });
+    }
+
+    // Los cupones pudieron vencer o agotarse desde que se aplicaron
+    const coupons = data.coupons ?? (data.coupon ? [data.coupon] : []);
+    if (coupons.length > 0) {
+      const [rejection] = await couponService.revalidateCoupons(coupons, {
+        items: data.items,
+        userId,
+      });
+      if (rejection) {
+        throw new CheckoutError({
+          code: "INVALID_COUPON",
+          message: `${rejection.message} (${rejection.couponCode}). Quítalo del carrito para continuar`,
+          step: "cart",
+        });
+      }
+    }
+
+    const order = await orderService.createOrder(data, userId);
+
+    // Registrar el uso de los cupones que efectivamente descontaron
+    const redeemedCodes = data.summary.couponBreakdown.map((line) => line.code);
+    if (redeemedCodes.length > 0) {
+      couponService.recordRedemption(redeemedCodes, userId);
+    }
+
+    return {
+      orderId: order.id,
+      orderNumber: order.orderNumber,
+      email: order.customer.email,
+      total: order.summary.total,
+      createdAt: order.createdAt,
+    };
+  }
+}
+
+// Exportar instancia singleton
+export const checkoutService = new CheckoutService();
+
+// Definir y exportar CheckoutError
+export class CheckoutError extends Error {
+  public code: string;
+  public step?: "cart" | "shipping" | "payment" | "review";
+
+  constructor(error: {
+    code: string;
+    message: string;
+    step?: "cart" | "shipping" | "payment" | "review";
+  }) {
+    super(error.message);
+    this.name = "CheckoutError";
+    this.code = error.code;
+    this.step = error.step;
+  }
+}
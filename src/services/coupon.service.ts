@@ -0,0 +1,243 @@
+/**
+ * Servicio de cupones
+ * Simula el catálogo de cupones y el registro de sus usos
+ */
+
+import { evaluateCoupon, rejectUnknownCoupon } from "../lib/coupon-rules";
+import type {
+  CartItem,
+  Coupon,
+  CouponEvaluation,
+  CouponRejection,
+  CouponRejectionCode,
+} from "../types/cart";
+
+// Clave para localStorage
+const COUPON_USAGE_STORAGE_KEY = "demo-tienda-coupon-usage";
+
+// Utilidades para simular latencia de red
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Rechazos que dependen del contenido del carrito: el cupón se conserva
+// aplicado y vuelve a descontar cuando el carrito cumpla sus reglas
+const CART_DEPENDENT_REJECTIONS: CouponRejectionCode[] = [
+  "MIN_PURCHASE_NOT_MET",
+  "NO_ELIGIBLE_ITEMS",
+  "MIN_QUANTITY_NOT_MET",
+];
+
+// Usos registrados: totales por cupón y por usuario
+interface CouponUsage {
+  total: Record<string, number>;
+  byUser: Record<string, Record<string, number>>;
+}
+
+/**
+ * Cupones de ejemplo (en producción vendrían de la API)
+ */
+const coupons: Coupon[] = [
+  {
+    id: "1",
+    code: "WELCOME10",
+    type: "percentage",
+    value: 10,
+    description: "10% de descuento en tu primera compra",
+    minPurchase: 50000,
+    minOrderAmount: 50000,
+    validFrom: new Date(Date.now() - DAY).toISOString(),
+    validUntil: new Date(Date.now() + 30 * DAY).toISOString(),
+    usageCount: 0,
+    userLimit: 1,
+    applicable: {},
+    active: true,
+    isActive: true,
+  },
+  {
+    id: "2",
+    code: "SHIP5",
+    type: "free-shipping",
+    value: 0,
+    description: "Envío gratis en tu compra",
+    validFrom: new Date(Date.now() - DAY).toISOString(),
+    validUntil: new Date(Date.now() + 30 * DAY).toISOString(),
+    usageCount: 0,
+    applicable: {},
+    active: true,
+    isActive: true,
+  },
+  {
+    id: "3",
+    code: "SAVE20",
+    type: "percentage",
+    value: 20,
+    description: "20% de descuento en compras mayores a $100.000",
+    minPurchase: 100000,
+    minOrderAmount: 100000,
+    maxDiscount: 50000,
+    validFrom: new Date(Date.now() - DAY).toISOString(),
+    validUntil: new Date(Date.now() + 30 * DAY).toISOString(),
+    usageCount: 0,
+    usageLimit: 100,
+    applicable: {},
+    active: true,
+    isActive: true,
+    exclusive: true, // No se combina con otros cupones
+  },
+  {
+    id: "4",
+    code: "TECH15",
+    type: "percentage",
+    value: 15,
+    description: "15% en electrónica llevando 2 o más productos",
+    validFrom: new Date(Date.now() - DAY).toISOString(),
+    validUntil: new Date(Date.now() + 15 * DAY).toISOString(),
+    usageCount: 0,
+    applicable: {
+      categories: ["electronics"],
+      minQuantity: 2,
+    },
+    active: true,
+    isActive: true,
+  },
+];
+
+class CouponService {
+  private readUsage(): CouponUsage {
+    try {
+      const saved = localStorage.getItem(COUPON_USAGE_STORAGE_KEY);
+      return saved ? JSON.parse(saved) : { total: {}, byUser: {} };
+    } catch (error) {
+      console.error("Error loading coupon usage from localStorage:", error);
+      return { total: {}, byUser: {} };
+    }
+  }
+
+  private writeUsage(usage: CouponUsage): void {
+    try {
+      localStorage.setItem(COUPON_USAGE_STORAGE_KEY, JSON.stringify(usage));
+    } catch (error) {
+      console.error("Error saving coupon usage to localStorage:", error);
+    }
+  }
+
+  // Cupón con su contador de usos actualizado
+  private withUsage(coupon: Coupon, usage: CouponUsage): Coupon {
+    return {
+      ...coupon,
+      usageCount: coupon.usageCount + (usage.total[coupon.code] ?? 0),
+    };
+  }
+
+  /**
+   * Obtener los cupones vigentes para mostrar como sugerencia
+   */
+  getAvailableCoupons(): Coupon[] {
+    const usage = this.readUsage();
+    const now = new Date();
+    return coupons
+      .filter(
+        (coupon) =>
+          coupon.isActive &&
+          new Date(coupon.validFrom) <= now &&
+          new Date(coupon.validUntil) >= now
+      )
+      .map((coupon) => this.withUsage(coupon, usage));
+  }
+
+  /**
+   * Buscar un cupón por su código
+   */
+  findByCode(code: string): Coupon | undefined {
+    const coupon = coupons.find(
+      (c) => c.code.toUpperCase() === code.trim().toUpperCase()
+    );
+    return coupon ? this.withUsage(coupon, this.readUsage()) : undefined;
+  }
+
+  /**
+   * Validar un código contra el carrito y el historial del usuario
+   */
+  async validateCoupon(
+    code: string,
+    context: { items: CartItem[]; appliedCoupons: Coupon[]; userId?: string }
+  ): Promise<CouponEvaluation> {
+    await delay(400); // Simular validación en el servidor
+
+    const coupon = this.findByCode(code);
+    if (!coupon) {
+      return rejectUnknownCoupon(code.trim().toUpperCase());
+    }
+
+    const usage = this.readUsage();
+    const userUsageCount = context.userId
+      ? usage.byUser[context.userId]?.[coupon.code] ?? 0
+      : 0;
+
+    return evaluateCoupon(coupon, { ...context, userUsageCount });
+  }
+
+  /**
+   * Re-validar cupones ya aplicados (por ejemplo, al fusionar el carrito
+   * de invitado con el del usuario)
+   * @returns Rechazos de los cupones que deben quitarse del carrito
+   */
+  async revalidateCoupons(
+    appliedCoupons: Coupon[],
+    context: { items: CartItem[]; userId?: string }
+  ): Promise<CouponRejection[]> {
+    await delay(300); // Simular validación en el servidor
+
+    const usage = this.readUsage();
+    const kept: Coupon[] = [];
+    const rejections: CouponRejection[] = [];
+
+    // Se evalúan en orden, como si se aplicaran uno a uno
+    appliedCoupons.forEach((applied) => {
+      const coupon = this.findByCode(applied.code);
+      const evaluation = coupon
+        ? evaluateCoupon(coupon, {
+            items: context.items,
+            appliedCoupons: kept,
+            userId: context.userId,
+            userUsageCount: context.userId
+              ? usage.byUser[context.userId]?.[coupon.code] ?? 0
+              : 0,
+          })
+        : rejectUnknownCoupon(applied.code);
+
+      if (
+        evaluation.valid ||
+        CART_DEPENDENT_REJECTIONS.includes(evaluation.rejection.code)
+      ) {
+        kept.push(coupon ?? applied);
+      } else {
+        rejections.push(evaluation.rejection);
+      }
+    });
+
+    return rejections;
+  }
+
+  /**
+   * Registrar el uso de los cupones al confirmar una orden
+   */
+  recordRedemption(codes: string[], userId?: string): void {
+    const usage = this.readUsage();
+
+    codes.forEach((code) => {
+      usage.total[code] = (usage.total[code] ?? 0) + 1;
+      if (userId) {
+        const userUsage = usage.byUser[userId] ?? {};
+        userUsage[code] = (userUsage[code] ?? 0) + 1;
+        usage.byUser[userId] = userUsage;
+      }
+    });
+
+    this.writeUsage(usage);
+  }
+}
+
+// Exportar instancia singleton
+export const couponService = new CouponService();
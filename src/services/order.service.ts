@@ -0,0 +1,244 @@
+/**
+ * Servicio de órdenes
+ * Simula un backend de órdenes persistido en localStorage
+ */
+
+import {
+  CANCELLABLE_STATUSES,
+  createOrderItem,
+  isActiveOrder,
+  type Order,
+  type OrderFilters,
+  type OrderStatus,
+  type OrderStatusEvent,
+} from "../types/order";
+import type { CheckoutData } from "../types/cart";
+
+// Clave para localStorage
+const ORDERS_STORAGE_KEY = "demo-tienda-orders";
+
+// Utilidades para simular latencia de red
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const HOUR = 60 * 60 * 1000;
+
+// Genera un número de orden legible (ej. "DT-20240115-4821")
+const generateOrderNumber = (date: Date): string => {
+  const datePart = date.toISOString().slice(0, 10).replace(/-/g, "");
+  const randomPart = Math.floor(1000 + Math.random() * 9000);
+  return `DT-${datePart}-${randomPart}`;
+};
+
+// Mensajes de la línea de tiempo para cada estado
+const statusNotes: Record<OrderStatus, string> = {
+  pending: "Pedido recibido, esperando el pago",
+  confirmed: "Pago confirmado",
+  processing: "Estamos preparando tu pedido",
+  shipped: "Tu pedido fue entregado a la transportadora",
+  delivered: "Pedido entregado",
+  cancelled: "Pedido cancelado",
+};
+
+/**
+ * Avanza el estado de la orden según el tiempo transcurrido, simulando
+ * la preparación y el envío que en producción informaría el backend
+ */
+const applySimulatedProgress = (order: Order, now: Date): Order => {
+  if (!isActiveOrder(order) || order.status === "pending") return order;
+
+  // Los pasos intermedios se reparten dentro del plazo de entrega, así
+  // los envíos rápidos también pasan por preparación y despacho
+  const createdAt = new Date(order.createdAt).getTime();
+  const deliveryAt = new Date(order.shipping.estimatedDelivery).getTime();
+  const deliveryWindow = Math.max(deliveryAt - createdAt, 0);
+  const processingAt = createdAt + Math.min(2 * HOUR, deliveryWindow * 0.1);
+  const shippedAt = createdAt + Math.min(24 * HOUR, deliveryWindow * 0.5);
+  const schedule: Array<{ status: OrderStatus; at: number }> = [
+    { status: "processing", at: processingAt },
+    { status: "shipped", at: shippedAt },
+    // Nunca antes del despacho, para que el historial quede en orden
+    { status: "delivered", at: Math.max(deliveryAt, shippedAt) },
+  ];
+
+  const reached = new Set(order.statusHistory.map((event) => event.status));
+  const newEvents: OrderStatusEvent[] = schedule
+    .filter((step) => step.at <= now.getTime() && !reached.has(step.status))
+    .map((step) => ({
+      status: step.status,
+      date: new Date(step.at).toISOString(),
+      note: statusNotes[step.status],
+    }));
+
+  if (newEvents.length === 0) return order;
+
+  const lastEvent = newEvents[newEvents.length - 1]!;
+  return {
+    ...order,
+    status: lastEvent.status,
+    statusHistory: [...order.statusHistory, ...newEvents],
+    updatedAt: lastEvent.date,
+  };
+};
+
+class OrderService {
+  private readOrders(): Order[] {
+    try {
+      const saved = localStorage.getItem(ORDERS_STORAGE_KEY);
+      const orders: Order[] = saved ? JSON.parse(saved) : [];
+      const now = new Date();
+      return orders.map((order) => applySimulatedProgress(order, now));
+    } catch (error) {
+      console.error("Error loading orders from localStorage:", error);
+      return [];
+    }
+  }
+
+  private writeOrders(orders: Order[]): void {
+    try {
+      localStorage.setItem(ORDERS_STORAGE_KEY, JSON.stringify(orders));
+    } catch (error) {
+      console.error("Error saving orders to localStorage:", error);
+    }
+  }
+
+  /**
+   * Crear una orden a partir de los datos del checkout
+   */
+  async createOrder(data: CheckoutData, userId?: string): Promise<Order> {
+    await delay(300);
+
+    const now = new Date().toISOString();
+    // Las transferencias quedan pendientes hasta recibir el pago
+    const initialStatus: OrderStatus =
+      data.payment.method === "transfer" ? "pending" : "confirmed";
+
+    const order: Order = {
+      id: crypto.randomUUID(),
+      orderNumber: generateOrderNumber(new Date(now)),
+      userId,
+      customer: data.customer,
+      items: data.items.map(createOrderItem),
+      summary: data.summary,
+      shipping: data.shipping,
+      billing: data.billing,
+      payment: data.payment,
+      couponCodes: data.summary.couponBreakdown.map((line) => line.code),
+      notes: data.notes,
+      status: initialStatus,
+      statusHistory: [
+        { status: initialStatus, date: now, note: statusNotes[initialStatus] },
+      ],
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    this.writeOrders([order, ...this.readOrders()]);
+    return order;
+  }
+
+  /**
+   * Obtener las órdenes de un usuario aplicando filtros
+   */
+  async getOrders(userId: string, filters: OrderFilters = {}): Promise<Order[]> {
+    await delay(300);
+
+    const search = filters.search?.trim().toLowerCase();
+    const orders = this.readOrders()
+      .filter((order) => order.userId === userId)
+      .filter((order) => {
+        if (!filters.status) return true;
+        if (filters.status === "active") return isActiveOrder(order);
+        return order.status === filters.status;
+      })
+      .filter(
+        (order) =>
+          !search ||
+          order.orderNumber.toLowerCase().includes(search) ||
+          order.items.some((item) => item.name.toLowerCase().includes(search))
+      );
+
+    return orders.sort((a, b) => {
+      switch (filters.sortBy) {
+        case "oldest":
+          return a.createdAt.localeCompare(b.createdAt);
+        case "total-desc":
+          return b.summary.total - a.summary.total;
+        case "total-asc":
+          return a.summary.total - b.summary.total;
+        case "newest":
+        default:
+          return b.createdAt.localeCompare(a.createdAt);
+      }
+    });
+  }
+
+  /**
+   * Obtener una orden por ID
+   * Las órdenes de invitado son visibles para quien tenga el enlace
+   */
+  async getOrderById(orderId: string, userId?: string): Promise<Order> {
+    await delay(200);
+
+    const order = this.readOrders().find((o) => o.id === orderId);
+
+    if (!order) {
+      throw new OrderError({
+        code: "ORDER_NOT_FOUND",
+        message: "No encontramos este pedido",
+      });
+    }
+
+    if (order.userId && order.userId !== userId) {
+      throw new OrderError({
+        code: "ORDER_FORBIDDEN",
+        message: "No tienes permiso para ver este pedido",
+      });
+    }
+
+    return order;
+  }
+
+  /**
+   * Cancelar una orden que aún no ha sido preparada
+   */
+  async cancelOrder(orderId: string, userId?: string): Promise<Order> {
+    const order = await this.getOrderById(orderId, userId);
+
+    if (!CANCELLABLE_STATUSES.includes(order.status)) {
+      throw new OrderError({
+        code: "ORDER_NOT_CANCELLABLE",
+        message: "Este pedido ya no se puede cancelar",
+      });
+    }
+
+    const now = new Date().toISOString();
+    const cancelled: Order = {
+      ...order,
+      status: "cancelled",
+      statusHistory: [
+        ...order.statusHistory,
+        { status: "cancelled", date: now, note: statusNotes.cancelled },
+      ],
+      updatedAt: now,
+    };
+
+    this.writeOrders(
+      this.readOrders().map((o) => (o.id === orderId ? cancelled : o))
+    );
+    return cancelled;
+  }
+}
+
+// Exportar instancia singleton
+export const orderService = new OrderService();
+
+// Definir y exportar OrderError
+export class OrderError extends Error {
+  public code: string;
+
+  constructor(error: { code: string; message: string }) {
+    super(error.message);
+    this.name = "OrderError";
+    this.code = error.code;
+  }
+}
@@ -0,0 +1,284 @@
+/**
+ * Servicio de preguntas y respuestas
+ * Simula un backend de preguntas de productos persistido en localStorage
+ */
+
+import {
+  canModerateQA,
+  QA_CONSTANTS,
+  sortAnswers,
+  type ProductAnswer,
+  type ProductQuestion,
+  type QAAuthor,
+  type QAStatus,
+} from "../types/question";
+
+// Clave para localStorage
+const QUESTIONS_STORAGE_KEY = "demo-tienda-questions";
+
+// Utilidades para simular latencia de red
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Valida la longitud de un texto de pregunta o respuesta
+const validateBody = (body: string, maxLength: number): string => {
+  const text = body.trim();
+
+  if (text.length < QA_CONSTANTS.MIN_LENGTH || text.length > maxLength) {
+    throw new QuestionError({
+      code: "INVALID_BODY",
+      message: `El texto debe tener entre ${QA_CONSTANTS.MIN_LENGTH} y ${maxLength} caracteres`,
+    });
+  }
+
+  return text;
+};
+
+class QuestionService {
+  private readQuestions(): ProductQuestion[] {
+    try {
+      const saved = localStorage.getItem(QUESTIONS_STORAGE_KEY);
+      return saved ? JSON.parse(saved) : [];
+    } catch (error) {
+      console.error("Error loading questions from localStorage:", error);
+      return [];
+    }
+  }
+
+  private writeQuestions(questions: ProductQuestion[]): void {
+    try {
+      localStorage.setItem(QUESTIONS_STORAGE_KEY, JSON.stringify(questions));
+    } catch (error) {
+      console.error("Error saving questions to localStorage:", error);
+    }
+  }
+
+  private findQuestion(
+    questions: ProductQuestion[],
+    questionId: string
+  ): ProductQuestion {
+    const question = questions.find((q) => q.id === questionId);
+
+    if (!question) {
+      throw new QuestionError({
+        code: "QUESTION_NOT_FOUND",
+        message: "Pregunta no encontrada",
+      });
+    }
+
+    return question;
+  }
+
+  private updateQuestion(
+    questions: ProductQuestion[],
+    updated: ProductQuestion
+  ): ProductQuestion {
+    this.writeQuestions(
+      questions.map((q) => (q.id === updated.id ? updated : q))
+    );
+    return updated;
+  }
+
+  private assertModerator(user: QAAuthor): void {
+    if (!canModerateQA(user)) {
+      throw new QuestionError({
+        code: "FORBIDDEN",
+        message: "Solo un administrador puede moderar preguntas",
+      });
+    }
+  }
+
+  private assertPublished(
+    item: ProductQuestion | ProductAnswer,
+    message: string
+  ): void {
+    if (item.status !== "published") {
+      throw new QuestionError({ code: "QUESTION_HIDDEN", message });
+    }
+  }
+
+  /**
+   * Obtener las preguntas de un producto
+   * Los administradores también ven las preguntas y respuestas ocultas
+   */
+  async getQuestions(
+    productId: string,
+    viewer?: QAAuthor | null
+  ): Promise<ProductQuestion[]> {
+    await delay(200);
+
+    const includeHidden = canModerateQA(viewer);
+
+    return this.readQuestions()
+      .filter((q) => q.productId === productId)
+      .filter((q) => includeHidden || q.status === "published")
+      .map((q) => ({
+        ...q,
+        answers: sortAnswers(
+          q.answers.filter((a) => includeHidden || a.status === "published")
+        ),
+      }))
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  /**
+   * Hacer una pregunta sobre un producto
+   */
+  async askQuestion(
+    productId: string,
+    body: string,
+    user: QAAuthor
+  ): Promise<ProductQuestion> {
+    await delay(300);
+
+    const question: ProductQuestion = {
+      id: crypto.randomUUID(),
+      productId,
+      userId: user.id,
+      userName: user.name,
+      body: validateBody(body, QA_CONSTANTS.MAX_QUESTION_LENGTH),
+      createdAt: new Date().toISOString(),
+      status: "published",
+      answers: [],
+    };
+
+    this.writeQuestions([question, ...this.readQuestions()]);
+    return question;
+  }
+
+  /**
+   * Responder una pregunta
+   * Quien pregunta no puede responderse, salvo que sea administrador
+   */
+  async answerQuestion(
+    questionId: string,
+    body: string,
+    user: QAAuthor
+  ): Promise<ProductQuestion> {
+    await delay(300);
+
+    const questions = this.readQuestions();
+    const question = this.findQuestion(questions, questionId);
+    const isStaff = canModerateQA(user);
+    this.assertPublished(question, "No se puede responder una pregunta oculta");
+
+    if (question.userId === user.id && !isStaff) {
+      throw new QuestionError({
+        code: "OWN_QUESTION",
+        message: "No puedes responder tu propia pregunta",
+      });
+    }
+
+    const answer: ProductAnswer = {
+      id: crypto.randomUUID(),
+      userId: user.id,
+      userName: user.name,
+      isStaff,
+      body: validateBody(body, QA_CONSTANTS.MAX_ANSWER_LENGTH),
+      createdAt: new Date().toISOString(),
+      status: "published",
+      upvoters: [],
+    };
+
+    return this.updateQuestion(questions, {
+      ...question,
+      answers: [...question.answers, answer],
+    });
+  }
+
+  /**
+   * Votar una respuesta como útil (o retirar el voto)
+   */
+  async toggleAnswerUpvote(
+    questionId: string,
+    answerId: string,
+    userId: string
+  ): Promise<ProductQuestion> {
+    await delay(150);
+
+    const questions = this.readQuestions();
+    const question = this.findQuestion(questions, questionId);
+    this.assertPublished(question, "La pregunta ya no está disponible");
+    const answer = question.answers.find((a) => a.id === answerId);
+
+    if (!answer) {
+      throw new QuestionError({
+        code: "ANSWER_NOT_FOUND",
+        message: "Respuesta no encontrada",
+      });
+    }
+
+    this.assertPublished(answer, "No se puede votar una respuesta oculta");
+
+    if (answer.userId === userId) {
+      throw new QuestionError({
+        code: "OWN_ANSWER",
+        message: "No puedes votar tu propia respuesta",
+      });
+    }
+
+    const upvoters = answer.upvoters.includes(userId)
+      ? answer.upvoters.filter((id) => id !== userId)
+      : [...answer.upvoters, userId];
+
+    return this.updateQuestion(questions, {
+      ...question,
+      answers: question.answers.map((a) =>
+        a.id === answerId ? { ...a, upvoters } : a
+      ),
+    });
+  }
+
+  /**
+   * Moderar una pregunta, o una de sus respuestas si se indica answerId
+   */
+  async moderate(
+    user: QAAuthor,
+    status: QAStatus,
+    questionId: string,
+    answerId?: string
+  ): Promise<ProductQuestion> {
+    await delay(200);
+    this.assertModerator(user);
+
+    const questions = this.readQuestions();
+    const question = this.findQuestion(questions, questionId);
+
+    return this.updateQuestion(
+      questions,
+      answerId
+        ? {
+            ...question,
+            answers: question.answers.map((a) =>
+              a.id === answerId ? { ...a, status } : a
+            ),
+          }
+        : { ...question, status }
+    );
+  }
+
+  /**
+   * Eliminar una pregunta con sus respuestas (solo administradores)
+   */
+  async deleteQuestion(user: QAAuthor, questionId: string): Promise<void> {
+    await delay(200);
+    this.assertModerator(user);
+
+    const questions = this.readQuestions();
+    this.findQuestion(questions, questionId);
+    this.writeQuestions(questions.filter((q) => q.id !== questionId));
+  }
+}
+
+// Exportar instancia singleton
+export const questionService = new QuestionService();
+
+// Definir y exportar QuestionError
+export class QuestionError extends Error {
+  public code: string;
+
+  constructor(error: { code: string; message: string }) {
+    super(error.message);
+    this.name = "QuestionError";
+    this.code = error.code;
+  }
+}
@@ -0,0 +1,94 @@
+/**
+ * Servicio de productos vistos recientemente
+ * Guarda en el navegador los últimos productos abiertos en el detalle:
+ * un historial por usuario y otro para invitados en este dispositivo
+ */
+
+import type { Product } from "../types/product";
+import {
+  RECENTLY_VIEWED_CONSTANTS,
+  type RecentlyViewedItem,
+} from "../types/recently-viewed";
+
+// Clave para localStorage: una por usuario y otra para invitados
+const RECENTLY_VIEWED_STORAGE_KEY = "demo-tienda-recently-viewed";
+
+const getRecentlyViewedStorageKey = (userId?: string): string =>
+  userId
+    ? `${RECENTLY_VIEWED_STORAGE_KEY}-${userId}`
+    : RECENTLY_VIEWED_STORAGE_KEY;
+
+class RecentlyViewedService {
+  private readItems(userId?: string): RecentlyViewedItem[] {
+    try {
+      const saved = localStorage.getItem(getRecentlyViewedStorageKey(userId));
+      return saved ? JSON.parse(saved) : [];
+    } catch (error) {
+      console.error(
+        "Error loading recently viewed products from localStorage:",
+        error
+      );
+      return [];
+    }
+  }
+
+  private writeItems(items: RecentlyViewedItem[], userId?: string) {
+    try {
+      localStorage.setItem(
+        getRecentlyViewedStorageKey(userId),
+        JSON.stringify(items)
+      );
+    } catch (error) {
+      console.error(
+        "Error saving recently viewed products to localStorage:",
+        error
+      );
+    }
+  }
+
+  /**
+   * Obtener los productos vistos, del más reciente al más antiguo
+   */
+  getRecentlyViewed(userId?: string): RecentlyViewedItem[] {
+    return this.readItems(userId);
+  }
+
+  /**
+   * Registrar la visita a un producto: pasa al primer lugar sin repetirse
+   */
+  addRecentlyViewed(product: Product, userId?: string): RecentlyViewedItem[] {
+    const items = [
+      { product, viewedAt: new Date().toISOString() },
+      ...this.readItems(userId).filter(
+        (item) => item.product.id !== product.id
+      ),
+    ].slice(0, RECENTLY_VIEWED_CONSTANTS.MAX_ITEMS);
+    this.writeItems(items, userId);
+    return items;
+  }
+
+  /**
+   * Quitar un producto del historial
+   */
+  removeRecentlyViewed(
+    productId: string,
+    userId?: string
+  ): RecentlyViewedItem[] {
+    const items = this.readItems(userId).filter(
+      (item) => item.product.id !== productId
+    );
+    this.writeItems(items, userId);
+    return items;
+  }
+
+  /**
+   * Borrar todo el historial
+   */
+  clearRecentlyViewed(userId?: string): RecentlyViewedItem[] {
+    this.writeItems([], userId);
+    return [];
+  }
+}
+
+// Exportar instancia singleton
+export const recentlyViewedService = new RecentlyViewedService();
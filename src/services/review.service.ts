@@ -0,0 +1,240 @@
+/**
+ * Servicio de reseñas
+ * Simula un backend de reseñas de productos persistido en localStorage
+ */
+
+import { orderService } from "./order.service";
+import type { Product } from "../types/product";
+import {
+  applyRatingSummary,
+  calculateRatingSummary,
+  REVIEW_CONSTANTS,
+  type CreateReviewData,
+  type RatingSummary,
+  type ReviewFilters,
+  type StoredReview,
+} from "../types/review";
+
+// Clave para localStorage
+const REVIEWS_STORAGE_KEY = "demo-tienda-reviews";
+
+// Utilidades para simular latencia de red
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+class ReviewService {
+  private readReviews(): StoredReview[] {
+    try {
+      const saved = localStorage.getItem(REVIEWS_STORAGE_KEY);
+      return saved ? JSON.parse(saved) : [];
+    } catch (error) {
+      console.error("Error loading reviews from localStorage:", error);
+      return [];
+    }
+  }
+
+  private writeReviews(reviews: StoredReview[]): void {
+    try {
+      localStorage.setItem(REVIEWS_STORAGE_KEY, JSON.stringify(reviews));
+    } catch (error) {
+      console.error("Error saving reviews to localStorage:", error);
+    }
+  }
+
+  private getProductReviews(productId: string): StoredReview[] {
+    return this.readReviews().filter((r) => r.productId === productId);
+  }
+
+  /**
+   * Indica si el usuario compró el producto (pedidos no cancelados)
+   */
+  private async hasPurchasedProduct(
+    userId: string,
+    productId: string
+  ): Promise<boolean> {
+    const orders = await orderService.getOrders(userId);
+    return orders.some(
+      (order) =>
+        order.status !== "cancelled" &&
+        order.items.some((item) => item.productId === productId)
+    );
+  }
+
+  /**
+   * Obtener las reseñas de un producto aplicando filtros
+   */
+  async getReviews(
+    productId: string,
+    filters: ReviewFilters = {}
+  ): Promise<StoredReview[]> {
+    await delay(200);
+
+    const reviews = this.getProductReviews(productId)
+      .filter((review) => !filters.rating || review.rating === filters.rating)
+      .filter((review) => !filters.verifiedOnly || review.verified);
+
+    return reviews.sort((a, b) => {
+      switch (filters.sortBy) {
+        case "helpful":
+          return b.helpful - a.helpful || b.date.localeCompare(a.date);
+        case "rating-desc":
+          return b.rating - a.rating || b.date.localeCompare(a.date);
+        case "rating-asc":
+          return a.rating - b.rating || b.date.localeCompare(a.date);
+        case "recent":
+        default:
+          return b.date.localeCompare(a.date);
+      }
+    });
+  }
+
+  /**
+   * Obtener el resumen de calificaciones de un producto
+   */
+  async getRatingSummary(productId: string): Promise<RatingSummary> {
+    await delay(100);
+    return calculateRatingSummary(this.getProductReviews(productId));
+  }
+
+  /**
+   * Número de reseñas escritas por un usuario
+   */
+  async getUserReviewCount(userId: string): Promise<number> {
+    await delay(100);
+    return this.readReviews().filter((r) => r.userId === userId).length;
+  }
+
+  /**
+   * Recalcular la calificación y el número de reseñas de un producto
+   * con las reseñas guardadas (las mismas del histograma)
+   */
+  applyReviewStats(product: Product): Product {
+    return applyRatingSummary(
+      product,
+      calculateRatingSummary(this.getProductReviews(product.id))
+    );
+  }
+
+  /**
+   * Crear una reseña
+   * Se marca como compra verificada si el usuario tiene un pedido del producto
+   */
+  async createReview(
+    data: CreateReviewData,
+    user: { id: string; name: string }
+  ): Promise<StoredReview> {
+    await delay(300);
+
+    const title = data.title.trim();
+    const comment = data.comment.trim();
+
+    if (
+      !Number.isInteger(data.rating) ||
+      data.rating < REVIEW_CONSTANTS.MIN_RATING ||
+      data.rating > REVIEW_CONSTANTS.MAX_RATING
+    ) {
+      throw new ReviewError({
+        code: "INVALID_RATING",
+        message: "Elige una calificación de 1 a 5 estrellas",
+      });
+    }
+
+    if (!title || title.length > REVIEW_CONSTANTS.MAX_TITLE_LENGTH) {
+      throw new ReviewError({
+        code: "INVALID_TITLE",
+        message: `El título debe tener entre 1 y ${REVIEW_CONSTANTS.MAX_TITLE_LENGTH} caracteres`,
+      });
+    }
+
+    if (
+      comment.length < REVIEW_CONSTANTS.MIN_COMMENT_LENGTH ||
+      comment.length > REVIEW_CONSTANTS.MAX_COMMENT_LENGTH
+    ) {
+      throw new ReviewError({
+        code: "INVALID_COMMENT",
+        message: `El comentario debe tener entre ${REVIEW_CONSTANTS.MIN_COMMENT_LENGTH} y ${REVIEW_CONSTANTS.MAX_COMMENT_LENGTH} caracteres`,
+      });
+    }
+
+    const reviews = this.readReviews();
+    const alreadyReviewed = reviews.some(
+      (r) => r.productId === data.productId && r.userId === user.id
+    );
+
+    if (alreadyReviewed) {
+      throw new ReviewError({
+        code: "ALREADY_REVIEWED",
+        message: "Ya escribiste una reseña para este producto",
+      });
+    }
+
+    const review: StoredReview = {
+      id: crypto.randomUUID(),
+      productId: data.productId,
+      userId: user.id,
+      userName: user.name,
+      rating: data.rating,
+      title,
+      comment,
+      date: new Date().toISOString(),
+      verified: await this.hasPurchasedProduct(user.id, data.productId),
+      helpful: 0,
+      helpfulVoters: [],
+    };
+
+    this.writeReviews([review, ...reviews]);
+    return review;
+  }
+
+  /**
+   * Votar una reseña como útil (o retirar el voto)
+   */
+  async toggleHelpfulVote(
+    reviewId: string,
+    userId: string
+  ): Promise<StoredReview> {
+    await delay(150);
+
+    const reviews = this.readReviews();
+    const review = reviews.find((r) => r.id === reviewId);
+
+    if (!review) {
+      throw new ReviewError({
+        code: "REVIEW_NOT_FOUND",
+        message: "Reseña no encontrada",
+      });
+    }
+
+    if (review.userId === userId) {
+      throw new ReviewError({
+        code: "OWN_REVIEW",
+        message: "No puedes votar tu propia reseña",
+      });
+    }
+
+    const helpfulVoters = review.helpfulVoters.includes(userId)
+      ? review.helpfulVoters.filter((id) => id !== userId)
+      : [...review.helpfulVoters, userId];
+    const updated: StoredReview = {
+      ...review,
+      helpfulVoters,
+      helpful: helpfulVoters.length,
+    };
+
+    this.writeReviews(reviews.map((r) => (r.id === reviewId ? updated : r)));
+    return updated;
+  }
+}
+
+// Exportar instancia singleton
+export const reviewService = new ReviewService();
+
+// Definir y exportar ReviewError
+export class ReviewError extends Error {
+  public code: string;
+
+  constructor(error: { code: string; message: string }) {
+    super(error.message);
+    this.name = "ReviewError";
+    this.code = error.code;
+  }
+}
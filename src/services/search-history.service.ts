@@ -0,0 +1,79 @@
+/**
+ * Servicio de búsquedas recientes
+ * Guarda en el navegador las últimas búsquedas del header para
+ * ofrecerlas de nuevo al abrir el buscador
+ */
+
+import { SEARCH_CONSTANTS } from "../types/search";
+
+// Clave para localStorage
+const RECENT_SEARCHES_STORAGE_KEY = "demo-tienda-recent-searches";
+
+class SearchHistoryService {
+  private readRecentSearches(): string[] {
+    try {
+      const saved = localStorage.getItem(RECENT_SEARCHES_STORAGE_KEY);
+      return saved ? JSON.parse(saved) : [];
+    } catch (error) {
+      console.error("Error loading recent searches from localStorage:", error);
+      return [];
+    }
+  }
+
+  private writeRecentSearches(searches: string[]) {
+    try {
+      localStorage.setItem(
+        RECENT_SEARCHES_STORAGE_KEY,
+        JSON.stringify(searches)
+      );
+    } catch (error) {
+      console.error("Error saving recent searches to localStorage:", error);
+    }
+  }
+
+  /**
+   * Obtener las búsquedas recientes, de la más nueva a la más vieja
+   */
+  getRecentSearches(): string[] {
+    return this.readRecentSearches();
+  }
+
+  /**
+   * Registrar una búsqueda: pasa al primer lugar sin repetirse
+   */
+  addRecentSearch(query: string): string[] {
+    const trimmed = query.trim();
+    if (!trimmed) return this.readRecentSearches();
+
+    const searches = [
+      trimmed,
+      ...this.readRecentSearches().filter(
+        (search) => search.toLowerCase() !== trimmed.toLowerCase()
+      ),
+    ].slice(0, SEARCH_CONSTANTS.MAX_RECENT_SEARCHES);
+    this.writeRecentSearches(searches);
+    return searches;
+  }
+
+  /**
+   * Quitar una búsqueda reciente
+   */
+  removeRecentSearch(query: string): string[] {
+    const searches = this.readRecentSearches().filter(
+      (search) => search !== query
+    );
+    this.writeRecentSearches(searches);
+    return searches;
+  }
+
+  /**
+   * Borrar todas las búsquedas recientes
+   */
+  clearRecentSearches(): string[] {
+    this.writeRecentSearches([]);
+    return [];
+  }
+}
+
+// Exportar instancia singleton
+export const searchHistoryService = new SearchHistoryService();
@@ -0,0 +1,97 @@
+/**
+ * Servicio de listas de deseos compartidas
+ * Simula el backend que publica una lista para verse desde un enlace
+ */
+
+import type { SharedWishlist, WishlistItem } from "../types/wishlist";
+
+// Clave para localStorage
+const SHARED_WISHLISTS_STORAGE_KEY = "demo-tienda-shared-wishlists";
+
+// Utilidades para simular latencia de red
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+class WishlistService {
+  private readSharedWishlists(): Record<string, SharedWishlist> {
+    try {
+      const saved = localStorage.getItem(SHARED_WISHLISTS_STORAGE_KEY);
+      return saved ? JSON.parse(saved) : {};
+    } catch (error) {
+      console.error("Error loading shared wishlists from localStorage:", error);
+      return {};
+    }
+  }
+
+  private writeSharedWishlists(wishlists: Record<string, SharedWishlist>) {
+    try {
+      localStorage.setItem(
+        SHARED_WISHLISTS_STORAGE_KEY,
+        JSON.stringify(wishlists)
+      );
+    } catch (error) {
+      console.error("Error saving shared wishlists to localStorage:", error);
+    }
+  }
+
+  /**
+   * Publicar (o actualizar) una lista compartida
+   */
+  publishWishlist(
+    shareId: string,
+    ownerName: string,
+    items: WishlistItem[]
+  ): void {
+    this.writeSharedWishlists({
+      ...this.readSharedWishlists(),
+      [shareId]: {
+        shareId,
+        ownerName,
+        items,
+        updatedAt: new Date().toISOString(),
+      },
+    });
+  }
+
+  /**
+   * Retirar una lista compartida: el enlace deja de funcionar
+   */
+  unpublishWishlist(shareId: string): void {
+    const wishlists = this.readSharedWishlists();
+    if (!wishlists[shareId]) return;
+
+    delete wishlists[shareId];
+    this.writeSharedWishlists(wishlists);
+  }
+
+  /**
+   * Obtener una lista compartida por el ID de su enlace
+   */
+  async getSharedWishlist(shareId: string): Promise<SharedWishlist> {
+    await delay(300);
+
+    const wishlist = this.readSharedWishlists()[shareId];
+
+    if (!wishlist) {
+      throw new WishlistError({
+        code: "WISHLIST_NOT_FOUND",
+        message: "Esta lista de deseos no existe o ya no es pública",
+      });
+    }
+
+    return wishlist;
+  }
+}
+
+// Exportar instancia singleton
+export const wishlistService = new WishlistService();
+
+// Definir y exportar WishlistError
+export class WishlistError extends Error {
+  public code: string;
+
+  constructor(error: { code: string; message: string }) {
+    super(error.message);
+    this.name = "WishlistError";
+    this.code = error.code;
+  }
+}
@@ -58,8 +58,49 @@ export interface Coupon {
   };
   active: boolean; // Si el cupón está activo
   isActive: boolean; // Alias para active
+  exclusive?: boolean; // Si no se puede combinar con otros cupones
 }
 
+// Motivos por los que un cupón puede ser rechazado
+export type CouponRejectionCode =
+  | "NOT_FOUND" // El código no existe
+  | "INACTIVE" // El cupón fue desactivado
+  | "NOT_STARTED" // Aún no está vigente
+  | "EXPIRED" // Ya venció
+  | "USAGE_LIMIT_REACHED" // Se agotaron los usos totales
+  | "USER_LIMIT_REACHED" // El usuario ya lo usó el máximo de veces
+  | "LOGIN_REQUIRED" // Requiere usuario para validar el límite por usuario
+  | "ALREADY_APPLIED" // Ya está aplicado en el carrito
+  | "NOT_COMBINABLE" // No se puede combinar con los cupones aplicados
+  | "MAX_COUPONS_REACHED" // Se alcanzó el máximo de cupones por compra
+  | "MIN_PURCHASE_NOT_MET" // No alcanza la compra mínima
+  | "NO_ELIGIBLE_ITEMS" // Ningún producto del carrito aplica
+  | "MIN_QUANTITY_NOT_MET"; // No alcanza la cantidad mínima de productos
+
+// Rechazo estructurado de un cupón
+export interface CouponRejection {
+  code: CouponRejectionCode; // Motivo del rechazo
+  message: string; // Mensaje para mostrar al usuario
+  couponCode: string; // Código evaluado
+  required?: number; // Valor requerido (monto, cantidad, usos)
+  current?: number; // Valor actual del carrito o del usuario
+}
+
+// Resultado de evaluar un cupón contra el carrito
+export type CouponEvaluation =
+  | {
+      valid: true;
+      coupon: Coupon;
+      eligibleItemIds: string[]; // Items sobre los que aplica el descuento
+      discountBase: number; // Subtotal de los items elegibles
+      discount: number; // Descuento calculado
+    }
+  | {
+      valid: false;
+      coupon?: Coupon;
+      rejection: CouponRejection;
+    };
+
 // Método de envío
 export interface ShippingMethod {
   id: string; // ID único del método
@@ -71,6 +112,24 @@ export interface ShippingMethod {
   tracking: boolean; // Si incluye seguimiento
   insurance: boolean; // Si incluye seguro
   freeThreshold?: number; // Monto para envío gratis
+  zones?: ShippingZone[]; // Zonas con cobertura (todas si se omite)
+  maxWeight?: number; // Peso máximo facturable en gramos
+}
+
+// Zona del destino según su distancia a la bodega (Bogotá)
+export type ShippingZone = "local" | "regional" | "national" | "remote";
+
+// Cotización de un método de envío para un carrito y un destino
+export interface ShippingQuote {
+  method: ShippingMethod; // Método cotizado
+  zone: ShippingZone; // Zona del destino
+  cost: number; // Costo calculado (0 si aplica envío gratis)
+  isFree: boolean; // Si se alcanzó el monto de envío gratis
+  billableWeight: number; // Peso facturable en gramos
+  estimatedDays: number; // Días estimados para el destino
+  estimatedDelivery: string; // Fecha estimada de entrega (ISO string)
+  available: boolean; // Si el método cubre el destino y el peso
+  unavailableReason?: string; // Motivo si no está disponible
 }
 
 // Información de envío
@@ -93,30 +152,86 @@ export interface ShippingInfo {
   estimatedDelivery: string; // Fecha estimada de entrega (ISO string)
 }
 
+// Ahorro de un cupón dentro del resumen
+export interface CouponDiscountLine {
+  code: string; // Código del cupón
+  description: string; // Descripción del cupón
+  type: Coupon["type"]; // Tipo de descuento
+  amount: number; // Monto ahorrado (en envío para "free-shipping")
+}
+
+// Impuesto de un item del carrito
+export interface CartItemTax {
+  itemId: string; // ID del item en el carrito
+  rate: number; // Tasa aplicada (0.19 = 19%)
+  base: number; // Base gravable (sin impuesto y con descuentos)
+  tax: number; // Impuesto de la línea
+}
+
+// Impuestos agrupados por tasa
+export interface TaxBreakdownEntry {
+  rate: number; // Tasa (0 = exento)
+  label: string; // Etiqueta para mostrar (ej. "IVA 19%")
+  base: number; // Suma de las bases gravables
+  tax: number; // Suma de los impuestos
+}
+
 // Resumen de costos del carrito
 export interface CartSummary {
   subtotal: number; // Subtotal (suma de todos los items)
   shipping: number; // Costo de envío
   tax: number; // Impuestos
+  taxLines: CartItemTax[]; // Impuesto de cada item
+  taxBreakdown: TaxBreakdownEntry[]; // Impuestos agrupados por tasa
+  pricesIncludeTax: boolean; // Si los precios ya incluyen el IVA
   discount: number; // Descuento aplicado
-  couponDiscount: number; // Descuento por cupón
+  couponDiscount: number; // Descuento por cupones sobre el subtotal
+  couponBreakdown: CouponDiscountLine[]; // Ahorro de cada cupón aplicado
   total: number; // Total final
   savings: number; // Total ahorrado (descuentos + ofertas)
   itemCount: number; // Número total de items
   uniqueItems: number; // Número de productos únicos
 }
 
+// Tipo de cambio detectado al revalidar un item contra el catálogo
+export type CartItemIssueType =
+  | "price-increase" // El precio subió
+  | "price-decrease" // El precio bajó
+  | "insufficient-stock" // Hay menos unidades que las del carrito
+  | "out-of-stock" // El producto se agotó
+  | "unavailable"; // El producto ya no existe en el catálogo
+
+// Cambio detectado en un item del carrito
+export interface CartItemIssue {
+  itemId: string; // ID del item en el carrito
+  type: CartItemIssueType; // Tipo de cambio
+  previousPrice?: number; // Precio unitario en el carrito
+  currentPrice?: number; // Precio unitario actual
+  availableStock?: number; // Unidades disponibles
+  product?: Product; // Producto actualizado del catálogo
+}
+
 // Estado del carrito
 export interface CartState {
   items: CartItem[]; // Items en el carrito
   summary: CartSummary; // Resumen de costos
-  appliedCoupon?: Coupon; // Cupón aplicado
+  appliedCoupon?: Coupon; // Alias del primer cupón de appliedCoupons
   appliedCoupons: Coupon[]; // Array de cupones aplicados
   shippingInfo?: ShippingInfo; // Información de envío
   lastUpdated: string; // Última actualización (ISO string)
   sessionId: string; // ID de sesión del carrito
   userId?: string; // ID del usuario (si está logueado)
   expiresAt?: string; // Fecha de expiración (ISO string)
+  issues?: CartItemIssue[]; // Cambios de precio o stock sin aceptar
+  lastRevalidated?: string; // Última revalidación contra el catálogo (ISO string)
+  savedForLater?: CartItem[]; // Guardados para después (fuera del resumen)
+}
+
+// Aviso al restaurar o vencer un carrito inactivo
+export interface CartExpiryNotice {
+  type: "refreshed" | "purged"; // Se actualizó o se vació el carrito
+  message: string; // Mensaje para mostrar al usuario
+  expiredAt: string; // Fecha en que venció (ISO string)
 }
 
 // Acciones del carrito
@@ -169,7 +284,8 @@ export interface CheckoutData {
   items: CartItem[];
   summary: CartSummary;
   shipping: ShippingInfo;
-  coupon?: Coupon;
+  coupon?: Coupon; // Primer cupón aplicado (compatibilidad)
+  coupons?: Coupon[]; // Todos los cupones aplicados
   customer: {
     email: string;
     phone: string;
@@ -186,14 +302,38 @@ export interface CheckoutData {
   notes?: string;
 }
 
+// Confirmación devuelta al finalizar el checkout
+export interface CheckoutConfirmation {
+  orderId: string; // ID de la orden generada
+  orderNumber: string; // Número legible de la orden
+  email: string; // Email al que se envía la confirmación
+  total: number; // Total cobrado
+  createdAt: string; // Fecha de creación (ISO string)
+}
+
 // Estado del checkout
 export interface CheckoutState {
   step: "cart" | "shipping" | "payment" | "review" | "complete";
   data: Partial<CheckoutData>;
   errors: Record<string, string>;
   isProcessing: boolean;
+  completedSteps: CheckoutStep[]; // Pasos ya validados
+  confirmation?: CheckoutConfirmation; // Resultado al completar
+  updatedAt: string; // Última actualización (ISO string)
 }
 
+// Paso del checkout
+export type CheckoutStep = CheckoutState["step"];
+
+// Orden de los pasos del checkout
+export const CHECKOUT_STEPS: CheckoutStep[] = [
+  "cart",
+  "shipping",
+  "payment",
+  "review",
+  "complete",
+];
+
 // Configuración del carrito
 export interface CartConfig {
   maxItems: number; // Máximo de items en el carrito
@@ -215,8 +355,52 @@ export const CART_CONSTANTS = {
   TAX_RATE: 0.19, // 19% IVA en Colombia
   FREE_SHIPPING_THRESHOLD: 150000, // Envío gratis desde $150,000 COP
   SESSION_TIMEOUT: 60 * 24, // 24 horas en minutos
+  EXPIRED_CART_RETENTION: 60 * 24 * 7, // Un carrito vencido conserva sus items 7 días
+  MAX_COUPONS: 3, // Máximo de cupones combinados por compra
+  MAX_COUPON_DISCOUNT_RATE: 0.5, // Los cupones no descuentan más del 50% del subtotal
+  MAX_SAVED_FOR_LATER: 50, // Máximo de items guardados para después
 } as const;
 
+// Método de envío por defecto
+export const DEFAULT_SHIPPING_METHOD: ShippingMethod = {
+  id: "standard",
+  name: "Envío estándar",
+  description: "Entrega a domicilio en todo el país",
+  cost: 15000,
+  estimatedDays: 5,
+  carrier: "Servientrega",
+  tracking: true,
+  insurance: false,
+  freeThreshold: CART_CONSTANTS.FREE_SHIPPING_THRESHOLD,
+};
+
+// Métodos de envío disponibles
+export const SHIPPING_METHODS: ShippingMethod[] = [
+  DEFAULT_SHIPPING_METHOD,
+  {
+    id: "express",
+    name: "Envío express",
+    description: "Entrega prioritaria con seguro incluido",
+    cost: 25000,
+    estimatedDays: 2,
+    carrier: "Coordinadora",
+    tracking: true,
+    insurance: true,
+  },
+  {
+    id: "same-day",
+    name: "Entrega el mismo día",
+    description: "Solo en Bogotá, para pedidos de hasta 10 kg",
+    cost: 18000,
+    estimatedDays: 0,
+    carrier: "Mensajeros Urbanos",
+    tracking: true,
+    insurance: false,
+    zones: ["local"],
+    maxWeight: 10000,
+  },
+];
+
 // Funciones auxiliares para el carrito
 export const generateCartItemId = (
   productId: string,
@@ -225,6 +409,33 @@ export const generateCartItemId = (
   return variantId ? `${productId}-${variantId}` : productId;
 };
 
+// Crea un item con el precio actual del producto (más su variante)
+export const createCartItem = ({
+  product,
+  quantity,
+  selectedVariant,
+  notes,
+}: AddToCartPayload): CartItem => {
+  const unitPrice = selectedVariant?.additionalPrice
+    ? product.price + selectedVariant.additionalPrice
+    : product.price;
+
+  return {
+    id: generateCartItemId(product.id, selectedVariant?.id),
+    productId: product.id,
+    product,
+    quantity,
+    selectedVariant,
+    variant: selectedVariant,
+    unitPrice,
+    priceAtAddTime: unitPrice,
+    totalPrice: unitPrice * quantity,
+    subtotal: unitPrice * quantity,
+    addedAt: new Date().toISOString(),
+    notes,
+  };
+};
+
 export const calculateItemSubtotal = (item: CartItem): number => {
   const basePrice = item.selectedVariant?.additionalPrice
     ? item.unitPrice + item.selectedVariant.additionalPrice
@@ -232,15 +443,45 @@ export const calculateItemSubtotal = (item: CartItem): number => {
   return basePrice * item.quantity;
 };
 
-export const calculateCartSummary = (items: CartItem[]): CartSummary => {
+// Ajustes calculados por el motor de cupones
+export interface CartSummaryAdjustments {
+  couponDiscount?: number; // Descuento total de cupones sobre el subtotal
+  shippingCost?: number; // Costo del método de envío cotizado
+  freeShipping?: boolean; // Si un cupón anula el costo de envío
+  couponBreakdown?: CouponDiscountLine[]; // Detalle por cupón
+  tax?: number; // Impuesto calculado por el motor de impuestos
+  taxLines?: CartItemTax[]; // Impuesto de cada item
+  taxBreakdown?: TaxBreakdownEntry[]; // Impuestos agrupados por tasa
+  pricesIncludeTax?: boolean; // Si los precios ya incluyen el IVA
+}
+
+// Costo de envío antes de cupones cuando no hay cotización
+export const calculateBaseShipping = (subtotal: number): number =>
+  subtotal >= CART_CONSTANTS.FREE_SHIPPING_THRESHOLD
+    ? 0
+    : DEFAULT_SHIPPING_METHOD.cost;
+
+export const calculateCartSummary = (
+  items: CartItem[],
+  adjustments: CartSummaryAdjustments = {}
+): CartSummary => {
   const subtotal = items.reduce((sum, item) => sum + item.totalPrice, 0);
-  const tax = subtotal * CART_CONSTANTS.TAX_RATE;
-  const shipping =
-    subtotal >= CART_CONSTANTS.FREE_SHIPPING_THRESHOLD ? 0 : 15000; // $15,000 envío
-  const discount = 0; // Se calculará con cupones
-  const couponDiscount = 0; // Se calculará con cupones aplicados
-  const total = subtotal + tax + shipping - discount - couponDiscount;
-  const savings = discount + couponDiscount;
+  const tax = adjustments.tax ?? subtotal * CART_CONSTANTS.TAX_RATE;
+  const pricesIncludeTax = adjustments.pricesIncludeTax ?? false;
+  const baseShipping =
+    adjustments.shippingCost ?? calculateBaseShipping(subtotal);
+  const shipping = adjustments.freeShipping ? 0 : baseShipping;
+  const discount = 0; // Descuentos automáticos (sin cupón)
+  const couponDiscount = adjustments.couponDiscount ?? 0;
+  const couponBreakdown = adjustments.couponBreakdown ?? [];
+  // Con precios con IVA incluido, el impuesto ya está en el subtotal
+  const total =
+    subtotal +
+    (pricesIncludeTax ? 0 : tax) +
+    shipping -
+    discount -
+    couponDiscount;
+  const savings = discount + couponDiscount + (baseShipping - shipping);
   const itemCount = items.reduce((sum, item) => sum + item.quantity, 0);
   const uniqueItems = items.length;
 
@@ -248,8 +489,12 @@ export const calculateCartSummary = (items: CartItem[]): CartSummary => {
     subtotal,
     shipping,
     tax,
+    taxLines: adjustments.taxLines ?? [],
+    taxBreakdown: adjustments.taxBreakdown ?? [],
+    pricesIncludeTax,
     discount,
     couponDiscount,
+    couponBreakdown,
     total,
     savings,
     itemCount,
@@ -0,0 +1,33 @@
+/**
+ * Tipos de datos para la comparación de productos
+ *
+ * Este archivo define los productos elegidos para comparar y las filas
+ * de la tabla comparativa.
+ */
+
+import type { Product } from "./product";
+
+// Estado persistido de la comparación
+export interface CompareState {
+  items: Product[]; // Snapshot de los productos elegidos, en orden
+  lastUpdated: string; // Última actualización (ISO string)
+}
+
+// Fila de la tabla comparativa
+export interface ComparisonRow {
+  key: string; // Identificador de la fila
+  label: string; // Nombre visible del atributo
+  values: (string | null)[]; // Valor por producto (null = no aplica)
+  isDifferent: boolean; // Si los productos no coinciden en este atributo
+}
+
+// Sección de la tabla comparativa
+export interface ComparisonSection {
+  title: string;
+  rows: ComparisonRow[];
+}
+
+// Constantes de la comparación
+export const COMPARE_CONSTANTS = {
+  MAX_ITEMS: 4, // Máximo de productos a comparar
+} as const;
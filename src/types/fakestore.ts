@@ -3,6 +3,11 @@
  * Adaptación de los tipos existentes del proyecto para trabajar con FakeStore
  */
 
+import {
+  convertUsdToCop,
+  getProductEnrichment,
+} from "../lib/fakestore-enrichment";
+
 // Tipos base de FakeStore API
 export interface FakeStoreProduct {
   id: number;
@@ -64,43 +69,77 @@ export const FAKESTORE_CATEGORY_MAP: Record<string, string> = {
   "women's clothing": "clothing",
 };
 
+// Tallas ofrecidas para la ropa de FakeStore
+const FAKESTORE_CLOTHING_SIZES = ["S", "M", "L", "XL"];
+
+// Variantes de talla para la ropa (FakeStore no trae variantes).
+// El stock depende del ID para que una talla quede agotada.
+const getFakeStoreVariants = (
+  product: FakeStoreProduct
+): import("../types/product").ProductVariant[] | undefined => {
+  if (FAKESTORE_CATEGORY_MAP[product.category] !== "clothing") {
+    return undefined;
+  }
+
+  return FAKESTORE_CLOTHING_SIZES.map((size, index) => ({
+    id: `${product.id}-${size.toLowerCase()}`,
+    name: "Talla",
+    value: size,
+    // La talla XL cuesta un poco más
+    price: size === "XL" ? convertUsdToCop(product.price * 1.1) : undefined,
+    stock:
+      (product.id + index) % FAKESTORE_CLOTHING_SIZES.length === 0
+        ? 0
+        : ((product.id * (index + 3)) % 12) + 3,
+  }));
+};
+
 // Función para mapear producto de FakeStore a nuestro tipo Product
 export const mapFakeStoreProduct = (
   product: FakeStoreProduct
 ): import("../types/product").Product => {
+  // Stock, ofertas y fechas estables para cada producto
+  const enrichment = getProductEnrichment(product.id);
+  const price = convertUsdToCop(product.price);
+
   return {
     id: product.id.toString(),
     name: product.title,
     title: product.title,
     description: product.description,
-    price: Math.round(product.price * 3800), // Convertir USD a COP aproximado
-    originalPrice: Math.round(product.price * 4200), // Precio original un poco mayor
+    price,
+    // El precio de FakeStore es el de venta; en oferta se muestra el anterior
+    originalPrice:
+      enrichment.onSale && enrichment.discount > 0
+        ? Math.round(price / (1 - enrichment.discount / 100))
+        : undefined,
     currency: "COP",
     category: FAKESTORE_CATEGORY_MAP[product.category] || "electronics",
     images: [product.image],
     thumbnail: product.image,
-    inStock: true,
-    stock: Math.floor(Math.random() * 50) + 10, // Stock aleatorio
-    status: "available",
+    inStock: enrichment.stock > 0,
+    stock: enrichment.stock,
+    status: enrichment.stock > 0 ? "available" : "out-of-stock",
     rating: product.rating.rate,
     reviewCount: product.rating.count,
     tags: [product.category, "fakestore"],
+    variants: getFakeStoreVariants(product),
     featured: product.rating.rate > 4.0,
     bestseller: product.rating.count > 100,
-    newArrival: Math.random() > 0.7,
-    onSale: Math.random() > 0.6,
-    discount: Math.random() > 0.6 ? Math.floor(Math.random() * 30) + 10 : 0,
+    newArrival: enrichment.newArrival,
+    onSale: enrichment.onSale,
+    discount: enrichment.discount,
     sku: `FS-${product.id}`,
     brand: "FakeStore",
-    weight: Math.floor(Math.random() * 2000) + 100,
+    weight: enrichment.weight,
     specs: {
       brand: "FakeStore",
       category: product.category,
       rating: product.rating.rate.toString(),
       reviews: product.rating.count.toString(),
     },
-    createdAt: new Date().toISOString(),
-    updatedAt: new Date().toISOString(),
+    createdAt: enrichment.createdAt,
+    updatedAt: enrichment.createdAt,
   } as import("../types/product").Product;
 };
 
@@ -0,0 +1,176 @@
+/**
+ * Tipos de datos para las órdenes de compra
+ *
+ * Este archivo define el modelo de orden que se genera al finalizar el checkout,
+ * su línea de tiempo de estados y las estadísticas derivadas del historial.
+ */
+
+import type { ProductCategory } from "./product";
+import type { CartItem, CartSummary, CheckoutData, ShippingInfo } from "./cart";
+import type { UserStats } from "./user";
+
+// Estados posibles de una orden
+export type OrderStatus =
+  | "pending" // Pendiente de pago (contraentrega, transferencia)
+  | "confirmed" // Pago confirmado
+  | "processing" // En preparación
+  | "shipped" // Enviada
+  | "delivered" // Entregada
+  | "cancelled"; // Cancelada
+
+// Item de la orden (copia del item del carrito al momento de comprar)
+export interface OrderItem {
+  id: string; // ID del item en la orden
+  productId: string; // ID del producto
+  name: string; // Nombre del producto al momento de la compra
+  image: string; // Imagen representativa
+  category: ProductCategory; // Categoría del producto
+  sku?: string; // Código SKU
+  variant?: {
+    // Variante comprada
+    id: string;
+    name: string;
+    value: string;
+  };
+  quantity: number; // Cantidad comprada
+  unitPrice: number; // Precio unitario pagado
+  totalPrice: number; // Precio total de la línea
+}
+
+// Evento en la línea de tiempo de la orden
+export interface OrderStatusEvent {
+  status: OrderStatus; // Estado alcanzado
+  date: string; // Fecha del cambio (ISO string)
+  note?: string; // Detalle del evento
+}
+
+// Orden de compra
+export interface Order {
+  id: string; // ID único de la orden
+  orderNumber: string; // Número legible (ej. "DT-20240115-4821")
+  userId?: string; // Usuario dueño (vacío para compras como invitado)
+  customer: CheckoutData["customer"]; // Datos de contacto
+  items: OrderItem[]; // Productos comprados
+  summary: CartSummary; // Totales cobrados
+  shipping: ShippingInfo; // Envío seleccionado
+  billing?: CheckoutData["billing"]; // Facturación
+  payment: CheckoutData["payment"]; // Método de pago (sin datos sensibles)
+  couponCodes: string[]; // Cupones utilizados
+  notes?: string; // Notas del cliente
+  status: OrderStatus; // Estado actual
+  statusHistory: OrderStatusEvent[]; // Línea de tiempo de estados
+  createdAt: string; // Fecha de creación (ISO string)
+  updatedAt: string; // Última actualización (ISO string)
+}
+
+// Filtros para el historial de órdenes
+export interface OrderFilters {
+  status?: OrderStatus | "active"; // "active" = no entregadas ni canceladas
+  search?: string; // Número de orden o nombre de producto
+  sortBy?: "newest" | "oldest" | "total-desc" | "total-asc";
+}
+
+// Orden de los estados en el flujo normal de una orden
+export const ORDER_STATUS_FLOW: OrderStatus[] = [
+  "pending",
+  "confirmed",
+  "processing",
+  "shipped",
+  "delivered",
+];
+
+// Estados en los que el cliente todavía puede cancelar
+export const CANCELLABLE_STATUSES: OrderStatus[] = ["pending", "confirmed"];
+
+// Etiquetas para mostrar en la interfaz
+export const ORDER_STATUS_LABELS: Record<OrderStatus, string> = {
+  pending: "Pendiente de pago",
+  confirmed: "Confirmado",
+  processing: "En preparación",
+  shipped: "Enviado",
+  delivered: "Entregado",
+  cancelled: "Cancelado",
+};
+
+export const PAYMENT_METHOD_LABELS: Record<
+  CheckoutData["payment"]["method"],
+  string
+> = {
+  card: "Tarjeta crédito / débito",
+  pse: "PSE",
+  cash: "Pago contraentrega",
+  transfer: "Transferencia bancaria",
+};
+
+// Funciones auxiliares para órdenes
+export const createOrderItem = (item: CartItem): OrderItem => {
+  const firstImage = item.product.images[0];
+  const image =
+    typeof firstImage === "string"
+      ? firstImage
+      : firstImage?.thumbnail || firstImage?.url || item.product.thumbnail;
+  const variant = item.selectedVariant || item.variant;
+
+  return {
+    id: item.id,
+    productId: item.productId,
+    name: item.product.title || item.product.name,
+    image,
+    category: item.product.category,
+    sku: item.product.sku,
+    variant: variant
+      ? { id: variant.id, name: variant.name, value: variant.value }
+      : undefined,
+    quantity: item.quantity,
+    unitPrice: item.unitPrice,
+    totalPrice: item.totalPrice,
+  };
+};
+
+export const isActiveOrder = (order: Order): boolean =>
+  order.status !== "delivered" && order.status !== "cancelled";
+
+export const calculateOrderStats = (
+  orders: Order[]
+): Pick<
+  UserStats,
+  | "totalOrders"
+  | "totalSpent"
+  | "averageOrderValue"
+  | "favoriteCategory"
+  | "lastOrderDate"
+  | "loyaltyPoints"
+> => {
+  // Las órdenes canceladas no cuentan como compras
+  const validOrders = orders.filter((order) => order.status !== "cancelled");
+  const totalSpent = validOrders.reduce(
+    (sum, order) => sum + order.summary.total,
+    0
+  );
+
+  // Categoría con más unidades compradas
+  const unitsByCategory = new Map<string, number>();
+  validOrders.forEach((order) =>
+    order.items.forEach((item) =>
+      unitsByCategory.set(
+        item.category,
+        (unitsByCategory.get(item.category) ?? 0) + item.quantity
+      )
+    )
+  );
+  const favoriteCategory =
+    [...unitsByCategory.entries()].sort((a, b) => b[1] - a[1])[0]?.[0] ?? "";
+
+  const orderDates = validOrders.map((order) => order.createdAt).sort();
+  const lastOrderDate = orderDates[orderDates.length - 1];
+
+  return {
+    totalOrders: validOrders.length,
+    totalSpent,
+    averageOrderValue:
+      validOrders.length > 0 ? Math.round(totalSpent / validOrders.length) : 0,
+    favoriteCategory,
+    lastOrderDate,
+    loyaltyPoints: Math.floor(totalSpent / 1000), // 1 punto por cada $1.000
+  };
+};
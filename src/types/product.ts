@@ -24,7 +24,8 @@ export type ProductSortOption =
   | "name-desc"
   | "date-desc"
   | "rating-desc"
-  | "popularity-desc";
+  | "popularity-desc"
+  | "relevance"; // Coincidencia con el texto buscado
 
 // Estado de disponibilidad del producto
 export type ProductStatus = "available" | "out-of-stock" | "discontinued";
@@ -100,6 +101,7 @@ export interface Product {
   newArrival: boolean; // Si es nueva llegada
   onSale: boolean; // Si está en oferta
   discount?: number; // Porcentaje de descuento
+  taxRate?: number; // Tasa de IVA propia (anula la de su categoría)
   sku: string; // Código SKU
   brand: string; // Marca
   weight?: number; // Peso en gramos
@@ -151,13 +153,31 @@ export interface ProductSearchResult {
   totalPages: number; // Total de páginas
   hasNext: boolean; // Si hay página siguiente
   hasPrev: boolean; // Si hay página anterior
-  filters: {
-    // Filtros aplicados
-    categories: ProductCategory[];
-    priceRange: { min: number; max: number };
-    brands: string[];
-    tags: string[];
-  };
+  filters: ProductFacets; // Opciones de filtro con su número de productos
+}
+
+// Opción de un filtro con el número de productos que obtendría
+export interface FacetOption<T = string> {
+  value: T; // Valor del filtro
+  count: number; // Productos que coinciden con este valor
+}
+
+// Rango de precio del filtro (sin máximo = "o más")
+export interface PriceRangeFacet {
+  min: number; // Precio mínimo (incluido)
+  max?: number; // Precio máximo (incluido); sin máximo en el último rango
+  count: number;
+}
+
+// Facetas de una búsqueda. Cada faceta cuenta los productos que cumplen
+// los demás filtros, para poder cambiar de opción sin limpiar la búsqueda
+export interface ProductFacets {
+  categories: FacetOption<ProductCategory>[];
+  priceRange: { min: number; max: number }; // Precios del resultado actual
+  priceRanges: PriceRangeFacet[];
+  brands: FacetOption[];
+  tags: FacetOption[];
+  ratings: FacetOption<number>[]; // Calificación mínima
 }
 
 // Categoría con metadatos
@@ -192,3 +212,27 @@ export interface ProductStats {
   outOfStock: number; // Productos sin stock
   onSale: number; // Productos en oferta
 }
+
+// Categorías válidas (para validar valores que llegan como texto)
+export const PRODUCT_CATEGORIES: ProductCategory[] = [
+  "electronics",
+  "clothing",
+  "books",
+  "home",
+  "sports",
+  "toys",
+  "beauty",
+  "food",
+];
+
+// Criterios de orden válidos
+export const PRODUCT_SORT_OPTIONS: ProductSortOption[] = [
+  "price-asc",
+  "price-desc",
+  "name-asc",
+  "name-desc",
+  "date-desc",
+  "rating-desc",
+  "popularity-desc",
+  "relevance",
+];
@@ -0,0 +1,60 @@
+/**
+ * Tipos de datos para las preguntas y respuestas de productos
+ *
+ * Este archivo define las preguntas que hacen los clientes antes de
+ * comprar, sus respuestas y el estado de moderación de ambas.
+ */
+
+import type { User } from "./auth";
+
+// Estado de moderación de una pregunta o respuesta
+export type QAStatus =
+  | "published" // Visible para todos
+  | "hidden"; // Oculta por un administrador
+
+// Autor de una pregunta o respuesta
+export type QAAuthor = Pick<User, "id" | "name" | "role">;
+
+// Respuesta a una pregunta
+export interface ProductAnswer {
+  id: string; // ID único de la respuesta
+  userId: string; // ID del autor
+  userName: string; // Nombre del autor
+  isStaff: boolean; // Si la respondió un administrador de la tienda
+  body: string; // Texto de la respuesta
+  createdAt: string; // Fecha (ISO string)
+  status: QAStatus; // Estado de moderación
+  upvoters: string[]; // IDs de los usuarios que votaron la respuesta
+}
+
+// Pregunta sobre un producto
+export interface ProductQuestion {
+  id: string; // ID único de la pregunta
+  productId: string; // Producto al que se refiere
+  userId: string; // ID de quien pregunta
+  userName: string; // Nombre de quien pregunta
+  body: string; // Texto de la pregunta
+  createdAt: string; // Fecha (ISO string)
+  status: QAStatus; // Estado de moderación
+  answers: ProductAnswer[]; // Respuestas recibidas
+}
+
+// Constantes de preguntas y respuestas
+export const QA_CONSTANTS = {
+  MIN_LENGTH: 10,
+  MAX_QUESTION_LENGTH: 500,
+  MAX_ANSWER_LENGTH: 1000,
+} as const;
+
+// Helper para saber si un usuario puede moderar
+export const canModerateQA = (user?: Pick<User, "role"> | null): boolean =>
+  user?.role === "admin";
+
+// Helper para ordenar respuestas: primero la tienda, luego las más votadas
+export const sortAnswers = (answers: ProductAnswer[]): ProductAnswer[] =>
+  [...answers].sort(
+    (a, b) =>
+      Number(b.isStaff) - Number(a.isStaff) ||
+      b.upvoters.length - a.upvoters.length ||
+      a.createdAt.localeCompare(b.createdAt)
+  );
@@ -0,0 +1,19 @@
+/**
+ * Tipos de datos para los productos vistos recientemente
+ *
+ * Este archivo define el historial de productos que el usuario abrió en
+ * la página de detalle.
+ */
+
+import type { Product } from "./product";
+
+// Producto visto, con el snapshot necesario para mostrarlo sin cargarlo
+export interface RecentlyViewedItem {
+  product: Product; // Snapshot del producto al momento de verlo
+  viewedAt: string; // Última vez que se abrió (ISO string)
+}
+
+// Constantes del historial
+export const RECENTLY_VIEWED_CONSTANTS = {
+  MAX_ITEMS: 12, // Máximo de productos guardados
+} as const;
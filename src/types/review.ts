@@ -0,0 +1,94 @@
+/**
+ * Tipos de datos para las reseñas de productos
+ *
+ * Este archivo define cómo se guardan, filtran y resumen las reseñas,
+ * y cómo se recalcula la calificación de un producto a partir de ellas.
+ */
+
+import type { Product, ProductReview } from "./product";
+
+// Criterios para ordenar las reseñas
+export type ReviewSortOption =
+  | "recent" // Más recientes primero
+  | "helpful" // Más votadas como útiles
+  | "rating-desc" // Mejor calificación primero
+  | "rating-asc"; // Peor calificación primero
+
+// Filtros del listado de reseñas
+export interface ReviewFilters {
+  rating?: number; // Solo reseñas con estas estrellas
+  verifiedOnly?: boolean; // Solo compras verificadas
+  sortBy?: ReviewSortOption;
+}
+
+// Reseña guardada
+export interface StoredReview extends ProductReview {
+  productId: string; // Producto reseñado
+  helpfulVoters: string[]; // IDs de los usuarios que la votaron útil
+}
+
+// Datos para crear una reseña
+export interface CreateReviewData {
+  productId: string;
+  rating: number;
+  title: string;
+  comment: string;
+}
+
+// Resumen de calificaciones de un producto
+export interface RatingSummary {
+  average: number; // Promedio (0-5, un decimal)
+  count: number; // Número de reseñas
+  histogram: Record<number, number>; // Estrellas -> número de reseñas
+}
+
+// Constantes de las reseñas
+export const REVIEW_CONSTANTS = {
+  MIN_RATING: 1,
+  MAX_RATING: 5,
+  MAX_TITLE_LENGTH: 100,
+  MIN_COMMENT_LENGTH: 10,
+  MAX_COMMENT_LENGTH: 2000,
+} as const;
+
+// Etiquetas de los criterios de orden
+export const REVIEW_SORT_LABELS: Record<ReviewSortOption, string> = {
+  recent: "Más recientes",
+  helpful: "Más útiles",
+  "rating-desc": "Mejor calificación",
+  "rating-asc": "Peor calificación",
+};
+
+// Redondear a un decimal
+const roundRating = (rating: number): number => Math.round(rating * 10) / 10;
+
+// Helper para resumir las calificaciones de un grupo de reseñas
+export const calculateRatingSummary = (
+  reviews: Pick<ProductReview, "rating">[]
+): RatingSummary => {
+  const histogram: Record<number, number> = { 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 };
+  reviews.forEach((review) => {
+    histogram[review.rating] = (histogram[review.rating] ?? 0) + 1;
+  });
+
+  const total = reviews.reduce((sum, review) => sum + review.rating, 0);
+
+  return {
+    average: reviews.length > 0 ? roundRating(total / reviews.length) : 0,
+    count: reviews.length,
+    histogram,
+  };
+};
+
+// Helper para recalcular la calificación de un producto con sus reseñas.
+// La calificación del catálogo viene de reseñas que no tenemos (sin
+// histograma), así que solo se usa mientras no haya reseñas locales; con
+// ellas, el promedio, el total y el histograma salen de los mismos datos.
+export const applyRatingSummary = (
+  product: Product,
+  summary: RatingSummary
+): Product => {
+  if (summary.count === 0) return product;
+
+  return { ...product, rating: summary.average, reviewCount: summary.count };
+};
@@ -0,0 +1,39 @@
+/**
+ * Tipos de datos para la búsqueda de productos
+ *
+ * Este archivo define las sugerencias que muestra el buscador del header
+ * mientras el usuario escribe.
+ */
+
+import type { ProductCategory } from "./product";
+
+// Origen de una sugerencia de búsqueda
+export type SearchSuggestionType =
+  | "product" // Producto que coincide con el texto
+  | "category" // Categoría con productos que coinciden
+  | "brand"; // Marca con productos que coinciden
+
+// Sugerencia del autocompletado
+export interface SearchSuggestion {
+  type: SearchSuggestionType; // Origen de la sugerencia
+  value: string; // Texto a buscar o valor del filtro
+  label: string; // Texto visible
+  productId?: string; // Producto sugerido (solo type "product")
+  category?: ProductCategory; // Categoría sugerida (solo type "category")
+  count?: number; // Productos que coinciden (categorías y marcas)
+}
+
+// Sugerencias agrupadas por origen
+export interface SearchSuggestions {
+  products: SearchSuggestion[];
+  categories: SearchSuggestion[];
+  brands: SearchSuggestion[];
+}
+
+// Constantes del buscador
+export const SEARCH_CONSTANTS = {
+  MIN_QUERY_LENGTH: 2, // Caracteres para empezar a sugerir
+  MAX_PRODUCT_SUGGESTIONS: 5,
+  MAX_GROUP_SUGGESTIONS: 3, // Categorías y marcas
+  MAX_RECENT_SEARCHES: 5,
+} as const;
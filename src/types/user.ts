@@ -24,6 +24,16 @@ export interface PrivacySettings {
   shareWishlist: boolean;      // Compartir lista de deseos
 }
 
+// Privacidad de una cuenta nueva
+export const DEFAULT_PRIVACY_SETTINGS: PrivacySettings = {
+  shareProfile: false,
+  shareOrders: false,
+  allowMarketing: true,
+  allowNotifications: true,
+  shareReviews: true,
+  shareWishlist: false,
+};
+
 // Preferencias de notificaciones
 export interface NotificationPreferences {
   email: {
@@ -0,0 +1,48 @@
+/**
+ * Tipos de datos para la lista de deseos
+ *
+ * Este archivo define los items de la lista, su estado persistido por
+ * usuario y la versión pública que se comparte por enlace.
+ */
+
+import type { Product } from "./product";
+
+// Producto guardado en la lista de deseos
+export interface WishlistItem {
+  productId: string; // ID del producto
+  product: Product; // Snapshot del producto al guardarlo
+  priceAtAddTime: number; // Precio al momento de guardarlo
+  addedAt: string; // Fecha en que se guardó (ISO string)
+}
+
+// Estado persistido de la lista de deseos
+export interface WishlistState {
+  items: WishlistItem[]; // Productos guardados, el más reciente primero
+  userId?: string; // Dueño de la lista (si está logueado)
+  shareId?: string; // ID del enlace público (se conserva al desactivarlo)
+  lastUpdated: string; // Última actualización (ISO string)
+}
+
+// Lista publicada para verse desde un enlace
+export interface SharedWishlist {
+  shareId: string; // ID del enlace público
+  ownerName: string; // Nombre visible del dueño
+  items: WishlistItem[]; // Productos de la lista
+  updatedAt: string; // Última publicación (ISO string)
+}
+
+// Constantes de la lista de deseos
+export const WISHLIST_CONSTANTS = {
+  MAX_ITEMS: 100, // Máximo de productos guardados
+} as const;
+
+// Funciones auxiliares
+export const createWishlistItem = (product: Product): WishlistItem => ({
+  productId: product.id,
+  product,
+  priceAtAddTime: product.price,
+  addedAt: new Date().toISOString(),
+});
+
+export const getSharedWishlistPath = (shareId: string): string =>
+  `/favoritos/compartida/${shareId}`;